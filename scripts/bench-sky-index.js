@@ -0,0 +1,160 @@
+import { strict as assert } from 'assert';
+import { performance } from 'perf_hooks';
+// Runs against the compiled sources; the npm script builds them first
+import {
+  STAR_INDEX,
+  buildCatalogIndexes,
+  calculateAngularSeparation,
+} from '../dist/utils/astronomy.js';
+import { STAR_CATALOG } from '../dist/utils/catalogs.js';
+
+/**
+ * Benchmark of the sky index against the linear STAR_CATALOG scans it replaced.
+ *
+ * Runs cone and box queries through STAR_INDEX and through a scan of every catalog entry,
+ * checks that both return the same stars, and prints the timings. By default the stars are
+ * generated at random, as many as there are rows in the full HYG database; pass a count to
+ * change that, or 'loaded' to use the catalog loaded from the data directory.
+ *
+ * Usage: npm run bench:sky-index [-- <star count> | loaded]
+ */
+
+const FULL_CATALOG_SIZE = 120000; // HYG v4.1 has about 119,600 rows
+const QUERY_COUNT = 200;
+const CONE_RADII_DEGREES = [1, 5, 15];
+const CONE_MAX_MAGNITUDE = 8;
+const SEED = 20240601;
+
+/**
+ * Small deterministic PRNG (mulberry32) so runs are comparable
+ */
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Replace the loaded stars with stars spread uniformly over the sky, with magnitudes
+ * skewed towards faint stars as in a real catalog
+ */
+function generateCatalog(count, random) {
+  STAR_CATALOG.clear();
+  for (let i = 0; i < count; i++) {
+    const name = `Bench ${i}`;
+    const star = {
+      name,
+      rightAscension: random() * 24,
+      declination: Math.asin(2 * random() - 1) * 180 / Math.PI,
+      magnitude: -1.5 + 11 * Math.pow(random(), 0.25),
+      type: 'Star',
+    };
+    STAR_CATALOG.set(name.toLowerCase(), star);
+  }
+  buildCatalogIndexes();
+}
+
+/**
+ * Catalog entries once per star, as buildCatalogIndexes indexes them
+ */
+function indexedStars() {
+  return [...STAR_CATALOG].filter(([key, star]) => !star.name || key === star.name.toLowerCase());
+}
+
+function linearCone(stars, center, radius, maxMagnitude) {
+  const keys = [];
+  for (const [key, star] of stars) {
+    if (maxMagnitude !== undefined && !((star.magnitude ?? Infinity) <= maxMagnitude)) continue;
+    if (calculateAngularSeparation(center, star) <= radius) keys.push(key);
+  }
+  return keys;
+}
+
+function linearBox(stars, raMin, raMax, decMin, decMax) {
+  const keys = [];
+  for (const [key, star] of stars) {
+    const { rightAscension: ra, declination: dec } = star;
+    const inRA = raMin <= raMax ? ra >= raMin && ra <= raMax : ra >= raMin || ra <= raMax;
+    if (inRA && dec >= decMin && dec <= decMax) keys.push(key);
+  }
+  return keys;
+}
+
+function time(run) {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+}
+
+function report(label, indexMs, linearMs, matches) {
+  console.log(
+    `${label.padEnd(28)} index ${indexMs.toFixed(1).padStart(8)} ms   linear ${linearMs.toFixed(1).padStart(8)} ms   ` +
+    `speedup ${(linearMs / indexMs).toFixed(1).padStart(6)}x   ${matches} stars returned`
+  );
+}
+
+function main() {
+  const random = createRandom(SEED);
+  const argument = process.argv[2];
+  if (argument === 'loaded') {
+    console.log(`Using the loaded catalog of ${STAR_INDEX.size} stars`);
+  } else {
+    const count = argument ? parseInt(argument, 10) : FULL_CATALOG_SIZE;
+    if (!(count > 0)) {
+      throw new Error(`Invalid star count "${argument}"; give a number or 'loaded'`);
+    }
+    generateCatalog(count, random);
+    console.log(`Using ${STAR_INDEX.size} generated stars`);
+  }
+
+  const stars = indexedStars();
+  assert.equal(STAR_INDEX.size, stars.length, 'Index size differs from the catalog');
+
+  const centers = Array.from({ length: QUERY_COUNT }, () => ({
+    rightAscension: random() * 24,
+    declination: Math.asin(2 * random() - 1) * 180 / Math.PI,
+  }));
+  // Include the poles and the 0h line, where the RA bins wrap
+  centers.push({ rightAscension: 0, declination: 90 }, { rightAscension: 12, declination: -90 }, { rightAscension: 23.99, declination: 0 });
+
+  const coneCases = [
+    ...CONE_RADII_DEGREES.map(radius => ({ label: `queryCone r=${radius}°`, radius, maxMagnitude: undefined })),
+    { label: `queryCone r=5° mag<=${CONE_MAX_MAGNITUDE}`, radius: 5, maxMagnitude: CONE_MAX_MAGNITUDE },
+  ];
+  for (const { label, radius, maxMagnitude } of coneCases) {
+    const indexed = time(() => centers.map(center => STAR_INDEX.queryCone(center, radius, maxMagnitude).map(match => match.key)));
+    const linear = time(() => centers.map(center => linearCone(stars, center, radius, maxMagnitude)));
+    centers.forEach((center, i) => {
+      assert.deepEqual(
+        [...indexed.result[i]].sort(), linear.result[i].sort(),
+        `${label} differs from the linear scan at RA ${center.rightAscension}h, Dec ${center.declination}°`
+      );
+    });
+    report(label, indexed.ms, linear.ms, indexed.result.reduce((sum, keys) => sum + keys.length, 0));
+  }
+
+  const boxes = Array.from({ length: QUERY_COUNT }, () => {
+    const raMin = random() * 24;
+    const decMin = -90 + random() * 170;
+    // Some boxes run past 24h and wrap through 0h
+    return { raMin, raMax: (raMin + 0.2 + random() * 2) % 24, decMin, decMax: Math.min(90, decMin + 1 + random() * 10) };
+  });
+  const indexedBoxes = time(() => boxes.map(box => STAR_INDEX.queryBox(box.raMin, box.raMax, box.decMin, box.decMax).map(entry => entry.key)));
+  const linearBoxes = time(() => boxes.map(box => linearBox(stars, box.raMin, box.raMax, box.decMin, box.decMax)));
+  boxes.forEach((box, i) => {
+    assert.deepEqual(
+      [...indexedBoxes.result[i]].sort(), linearBoxes.result[i].sort(),
+      `queryBox differs from the linear scan for RA ${box.raMin}h–${box.raMax}h, Dec ${box.decMin}°–${box.decMax}°`
+    );
+  });
+  report('queryBox', indexedBoxes.ms, linearBoxes.ms, indexedBoxes.result.reduce((sum, keys) => sum + keys.length, 0));
+
+  console.log(`All ${centers.length * coneCases.length} cone and ${boxes.length} box queries match the linear scan.`);
+}
+
+main();
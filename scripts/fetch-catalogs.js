@@ -16,6 +16,16 @@ const CATALOGS = [
     url: 'https://raw.githubusercontent.com/astronexus/HYG-Database/master/hyg/CURRENT/hygdata_v41.csv',
     destination: 'hygdata_v41.csv',
     description: 'HYG Database v41'
+  },
+  {
+    url: 'https://minorplanetcenter.net/iau/MPCORB/CometEls.txt',
+    destination: 'CometEls.txt',
+    description: 'MPC Comet Orbital Elements'
+  },
+  {
+    url: 'https://celestrak.org/NORAD/elements/gp.php?GROUP=stations&FORMAT=tle',
+    destination: 'stations.tle',
+    description: 'CelesTrak Space Station TLEs'
   }
 ];
 
@@ -1,6 +1,11 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
 /**
  * Observer configuration with hardcoded location
- * Update these values with your actual location
+ * Used as the built-in "default" observer profile when no profile has been selected.
+ * Named sites can be managed at runtime with the observer profile tools.
  */
 export const OBSERVER_CONFIG = {
   // Vancouver, Canada coordinates
@@ -8,5 +13,91 @@ export const OBSERVER_CONFIG = {
   longitude: -123.1207, // Vancouver longitude (negative for west)
   altitude: 30, // elevation in meters
   temperature: 15, // default temperature in Celsius
-  pressure: 1013.25 // default pressure in hPa
+  pressure: 1013.25, // default pressure in hPa
+  timeZone: 'America/Vancouver' // IANA time zone for local times
+};
+
+/**
+ * Directory holding catalog files and the observer profile store
+ */
+export const DATA_DIR = path.resolve(dirname(fileURLToPath(import.meta.url)), '../data');
+
+/**
+ * JSON file where named observer profiles are persisted
+ */
+export const OBSERVER_PROFILES_FILE = path.join(DATA_DIR, 'observers.json');
+
+/**
+ * JSON file where named equipment profiles (telescope, eyepiece, finder, camera) are persisted
+ */
+export const EQUIPMENT_PROFILES_FILE = path.join(DATA_DIR, 'equipment.json');
+
+/**
+ * CSV list of named lunar features (craters, maria, mountains, rilles) used by the lunar report
+ */
+export const LUNAR_FEATURES_FILE = path.join(DATA_DIR, 'lunar_features.csv');
+
+/**
+ * CSV of IAU constellation boundary strips in B1875 coordinates, for point-in-constellation lookup
+ */
+export const CONSTELLATION_BOUNDARIES_FILE = path.join(DATA_DIR, 'constellation_boundaries.csv');
+
+/**
+ * CSV of constellation stick figures as polylines of Bayer and Flamsteed designations
+ */
+export const CONSTELLATION_LINES_FILE = path.join(DATA_DIR, 'constellation_lines.csv');
+
+/**
+ * Minor body (comet and asteroid) loading options
+ */
+export const MINOR_BODY_CONFIG = {
+  // MPCORB.DAT lists over a million asteroids; only those brighter than this absolute magnitude are loaded
+  maxAbsoluteMagnitude: 12
+};
+
+/**
+ * Star-hop route search options. A route's cost is the sum over its hops of
+ * hopCost + faintnessCostPerMagnitude * magnitude + lengthCostPerFov * (hop length / FOV),
+ * so routes with fewer, brighter and shorter hops are preferred.
+ */
+export const STAR_HOP_CONFIG = {
+  hopCost: 1,
+  faintnessCostPerMagnitude: 0.15, // Stars brighter than magnitude 0 add nothing
+  lengthCostPerFov: 0.5,
+  maxStartStars: 5 // Brightest candidate start stars the search may begin from
+};
+
+/**
+ * Observability model options
+ */
+export const OBSERVABILITY_CONFIG = {
+  extinctionCoefficient: 0.2, // V-band extinction in magnitudes per airmass at a good site
+  defaultBortleClass: 4,      // Sky assumed when neither the call nor the observer profile gives one
+  defaultApertureMm: 7        // Dark-adapted naked eye, used without equipment
+};
+
+/**
+ * Planetary ephemeris options
+ */
+export const PLANETARY_CONFIG = {
+  // System II longitude of Jupiter's Great Red Spot in degrees. The spot drifts by several degrees
+  // a month, so update this from recent amateur measurements (e.g. JUPOS or ALPO reports).
+  greatRedSpotLongitude: 50,
+  jupiterEventSearchHours: 48 // How far ahead shadow transits and Red Spot transits are listed
+};
+
+/**
+ * Event finder options
+ */
+export const EVENTS_CONFIG = {
+  maxRangeDays: 366,
+  conjunctionStarMagnitude: 1.5 // Stars at least this bright are checked for close approaches of planets
+};
+
+/**
+ * Finder chart options
+ */
+export const FINDER_CHART_CONFIG = {
+  maxStars: 4000,          // Faintest stars are dropped beyond this many, keeping wide charts readable
+  labelMagnitudeOffset: 3  // Named stars are labeled when this many magnitudes brighter than the chart limit
 };
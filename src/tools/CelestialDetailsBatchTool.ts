@@ -0,0 +1,243 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import * as Astronomy from 'astronomy-engine';
+import {
+  getEquatorialCoordinates,
+  getObjectDetails,
+  getSolarSystemBody,
+  getObjectCategory,
+  convertToAltAz,
+} from '../utils/astronomy.js';
+import { resolveObjectName } from '../utils/nameResolver.js';
+import { formatInTimeZone, DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { findConstellationAt } from '../utils/constellations.js';
+import { hasLocalHorizon, isAboveLocalHorizon } from '../utils/horizon.js';
+
+type BatchSortBy = 'input' | 'altitude' | 'magnitude' | 'transit';
+
+interface CelestialDetailsBatchInput {
+  objects: string[];
+  sortBy?: BatchSortBy;
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+// One object's values, before they are laid out as a table row
+interface BatchRow {
+  object: string;
+  status: string;
+  resolvedAs: string | null;
+  type: string | null;
+  constellation: string | null;
+  magnitude: number | null;
+  rightAscensionHours: number | null;
+  declinationDegrees: number | null;
+  altitudeDegrees: number | null;
+  azimuthDegrees: number | null;
+  aboveLocalHorizon: boolean | null;
+  rise: Date | null;
+  transit: Date | null;
+  set: Date | null;
+  transitAltitudeDegrees: number | null;
+  message: string | null;
+}
+
+// Column order of the table; times are local to the observer's time zone
+const COLUMNS = [
+  'object',
+  'status',
+  'resolvedAs',
+  'type',
+  'constellation',
+  'magnitude',
+  'rightAscensionHours',
+  'declinationDegrees',
+  'altitudeDegrees',
+  'azimuthDegrees',
+  'aboveLocalHorizon',
+  'rise',
+  'transit',
+  'set',
+  'transitAltitudeDegrees',
+  'message',
+] as const;
+
+const MAX_OBJECTS = 50;
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+/**
+ * Rise, set and transit times come back as Dates for fixed objects and AstroTimes for solar system bodies
+ */
+function toDate(time: Date | Astronomy.AstroTime | null | undefined): Date | null {
+  if (!time) return null;
+  return time instanceof Date ? time : new Date(time.date);
+}
+
+/**
+ * Ascending comparison that puts missing values last
+ */
+function compareMissingLast(a: number | null, b: number | null): number {
+  if (a === null || b === null) return (a === null ? 1 : 0) - (b === null ? 1 : 0);
+  return a - b;
+}
+
+class CelestialDetailsBatchTool extends MCPTool<CelestialDetailsBatchInput> {
+  name = 'getCelestialDetailsBatch';
+  description =
+    `Looks up many objects in one call for the same observer and time, and returns one compact table row per object: type, IAU constellation, magnitude, J2000 right ascension and declination, current altitude and azimuth, whether the object is clear of the observer profile's local horizon, and rise, transit and set times. Use it instead of repeated getCelestialDetails calls when comparing several objects (e.g. "which of these Messier objects are up tonight"); use getCelestialDetails for the full details of one object. Objects that cannot be resolved get a row with an error status and a message instead of failing the call. Rows can be sorted by altitude, magnitude or transit time. Up to ${MAX_OBJECTS} objects.`;
+
+  protected schema = {
+    objects: {
+      type: z.array(z.string()).min(1).max(MAX_OBJECTS),
+      description: `Names of the objects, e.g. ['M13', 'M57', 'Jupiter', 'Albireo']. Up to ${MAX_OBJECTS}. Names are resolved as in getCelestialDetails.`,
+    },
+    sortBy: {
+      type: z.enum(['input', 'altitude', 'magnitude', 'transit']).optional().default('input'),
+      description: "Row order: 'input' (as given), 'altitude' (highest first), 'magnitude' (brightest first) or 'transit' (earliest transit first). Rows without the value, and error rows, come last. Default: 'input'.",
+    },
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION,
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+  };
+
+  private async describeObject(objectName: string, context: ObservationContext): Promise<BatchRow> {
+    const { date, observer, profile } = context;
+    const resolved = resolveObjectName(objectName);
+    const coords = await getEquatorialCoordinates(resolved.key, date, observer);
+    const altAz = convertToAltAz(coords, observer, date);
+    const body = getSolarSystemBody(resolved.key);
+    const magnitude = body ? Astronomy.Illumination(body, date).mag : coords.magnitude;
+    const category = body ? getObjectCategory(resolved.key) : null;
+    const details = getObjectDetails(resolved.key, date, observer);
+    const transitAltitude = details?.transitTime?.hor?.altitude;
+
+    return {
+      object: objectName,
+      status: 'Success',
+      resolvedAs: resolved.matchedBy !== 'exact' ? resolved.displayName : null,
+      type: coords.type ?? (category === 'sun' ? 'Sun' : category === 'moon' ? 'Moon' : category ? 'Planet' : null),
+      constellation: findConstellationAt(coords)?.abbreviation ?? null,
+      magnitude: typeof magnitude === 'number' ? round(magnitude, 2) : null,
+      rightAscensionHours: round(coords.rightAscension, 4),
+      declinationDegrees: round(coords.declination, 3),
+      altitudeDegrees: round(altAz.altitude, 2),
+      azimuthDegrees: round(altAz.azimuth, 2),
+      aboveLocalHorizon: isAboveLocalHorizon(profile, altAz),
+      rise: toDate(details?.riseTime),
+      transit: toDate(details?.transitTime?.time),
+      set: toDate(details?.setTime),
+      transitAltitudeDegrees: typeof transitAltitude === 'number' ? round(transitAltitude, 2) : null,
+      message: null,
+    };
+  }
+
+  private sortRows(rows: BatchRow[], sortBy: BatchSortBy): BatchRow[] {
+    if (sortBy === 'input') return rows;
+    const key = (row: BatchRow): number | null => {
+      if (row.status !== 'Success') return null;
+      if (sortBy === 'altitude') return row.altitudeDegrees === null ? null : -row.altitudeDegrees;
+      if (sortBy === 'magnitude') return row.magnitude;
+      return row.transit ? row.transit.getTime() : null;
+    };
+    // Array.prototype.sort is stable, so ties and missing values keep the input order
+    return [...rows].sort((a, b) => compareMissingLast(key(a), key(b)));
+  }
+
+  async execute(params: CelestialDetailsBatchInput) {
+    let context: ObservationContext;
+    try {
+      context = resolveObservationContext(params);
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to get celestial details: ${error.message}`);
+    }
+
+    const { date, profile, timeZone } = context;
+    const sortBy = params.sortBy ?? 'input';
+
+    try {
+      const rows: BatchRow[] = [];
+      for (const objectName of params.objects) {
+        try {
+          rows.push(await this.describeObject(objectName, context));
+        } catch (error: any) {
+          // Report the failure in the object's row and carry on with the rest
+          rows.push({
+            object: objectName,
+            status: isStructuredInputError(error) ? error.toResponse().status : 'Error',
+            resolvedAs: null,
+            type: null,
+            constellation: null,
+            magnitude: null,
+            rightAscensionHours: null,
+            declinationDegrees: null,
+            altitudeDegrees: null,
+            azimuthDegrees: null,
+            aboveLocalHorizon: null,
+            rise: null,
+            transit: null,
+            set: null,
+            transitAltitudeDegrees: null,
+            message: error.message,
+          });
+        }
+      }
+
+      const sorted = this.sortRows(rows, sortBy);
+      const formatTime = (time: Date) => formatInTimeZone(time, timeZone);
+      const succeeded = rows.filter(row => row.status === 'Success');
+      const aboveHorizon = succeeded.filter(row => row.altitudeDegrees! > 0).length;
+      const checkLocalHorizon = hasLocalHorizon(profile);
+      const clearOfLocalHorizon = succeeded.filter(row => row.aboveLocalHorizon).length;
+
+      return {
+        status: succeeded.length === rows.length ? 'Success' : succeeded.length > 0 ? 'PartialSuccess' : 'NoObjectsResolved',
+        observer: profile.name,
+        location: `${profile.latitude.toFixed(4)}°, ${profile.longitude.toFixed(4)}°`,
+        observationTime: date.toISOString(),
+        observationTimeLocal: formatInTimeZone(date, timeZone),
+        timeZone,
+        sortBy,
+        columns: COLUMNS,
+        rows: sorted.map(row => COLUMNS.map(column => {
+          const value = row[column];
+          return value instanceof Date ? formatTime(value) : value;
+        })),
+        notes: [
+          'Right ascension and declination are J2000; for solar system bodies, comets and asteroids they are topocentric (seen from the observer\'s site).',
+          'Altitude and azimuth are at the observation time. Rise, transit and set are the times getCelestialDetails reports, in the observer\'s time zone; null when the object does not rise or set that day.',
+          checkLocalHorizon
+            ? 'aboveLocalHorizon is whether the object is clear of the observer profile\'s local horizon (trees, buildings) at the observation time.'
+            : 'aboveLocalHorizon is whether the object is above 0° altitude; the observer profile has no local horizon.',
+          'Rows with a status other than Success could not be looked up; see their message.',
+        ],
+        summaryMessage:
+          `Looked up ${succeeded.length} of ${rows.length} object(s) for ${profile.name} at ${formatInTimeZone(date, timeZone)}; ` +
+          `${aboveHorizon} above the horizon` +
+          (checkLocalHorizon ? `, ${clearOfLocalHorizon} clear of the local horizon.` : '.') +
+          (succeeded.length < rows.length ? ` ${rows.length - succeeded.length} could not be resolved.` : ''),
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get celestial details: ${error.message}`);
+    }
+  }
+}
+
+export default CelestialDetailsBatchTool;
@@ -1,109 +1,425 @@
 import { MCPTool } from 'mcp-framework';
 import { z } from 'zod';
-import { OBSERVER_CONFIG } from '../config.js';
 import {
   getEquatorialCoordinates,
   getObjectDetails,
   convertToAltAz, // Added this import
+  toApparentCoordinates,
+  getDeepSkyObject,
+  getStarRecord,
+  getStarSystem,
+  calculateAngularSeparation,
+  getSolarSystemBody,
   EquatorialCoordinates
 } from '../utils/astronomy.js';
+import {
+  DATE_TIME_PARAM_DESCRIPTION,
+  TIME_ZONE_PARAM_DESCRIPTION
+} from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { resolveObjectName, ResolvedObjectName } from '../utils/nameResolver.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext, StructuredInputError } from '../utils/context.js';
+import { resolveObservingConditions, assessObservability, ObservingConditions } from '../utils/observability.js';
+import { hasLocalHorizon, localHorizonAltitude, findLocalHorizonCrossings } from '../utils/horizon.js';
+import {
+  isPlanet,
+  getPlanetaryEphemeris,
+  getGalileanMoons,
+  findShadowTransits,
+  findGreatRedSpotTransits,
+  getSaturnRings
+} from '../utils/planets.js';
+import { toAstronomyObserver } from '../utils/night.js';
+import { findConstellationAt } from '../utils/constellations.js';
+import {
+  CelestialDetailsResponseSchema,
+  CelestialDetailsResponse,
+  CelestialDetailsErrorResponseSchema,
+  CELESTIAL_DETAILS_SCHEMA_VERSION,
+  OUTPUT_FORMATS,
+  OUTPUT_FORMAT_PARAM_DESCRIPTION,
+  OutputFormat,
+  Timestamp,
+  PlanetDetails,
+  DeepSkyDetails,
+  StarDetails,
+  validateResponse,
+  toTimestamp,
+  formatRightAscension,
+  formatDegrees
+} from '../utils/responseSchema.js';
+import { PLANETARY_CONFIG } from '../config.js';
 import * as Astronomy from 'astronomy-engine';
 
+const LIGHT_YEARS_PER_PARSEC = 3.26156;
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
 interface CelestialDetailsInput {
   objectName: string;
-  // Removed: useSystemTime, dateTime, latitude, longitude, elevation
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+  bortleClass?: number;
+  sqm?: number;
+  equipment?: string;
+  grsLongitude?: number;
+  format?: OutputFormat;
 }
 
 class CelestialDetailsTool extends MCPTool<CelestialDetailsInput> {
   name = 'getCelestialDetails';
-  description = "Retrieves detailed astronomical information for a specified celestial object (e.g., planet, star, Messier object, NGC/IC object). Information includes current equatorial and horizontal (altitude/azimuth) coordinates, visibility status (above/below horizon), rise/transit/set times, and, where applicable, distance, phase illumination, and upcoming moon phases. All calculations are performed for the pre-configured observer location and the current system time. The tool automatically resolves common names (e.g., 'Andromeda Galaxy' to 'M31') and handles various catalog identifiers.";
+  description = "Retrieves detailed astronomical information for a specified celestial object (e.g., planet, star, Messier object, NGC/IC object). Information includes equatorial coordinates (astrometric J2000 and apparent of date) and horizontal (altitude/azimuth) coordinates, visibility status (above/below horizon), an observability score (0-100) with its contributing factors (altitude and extinction, sky brightness from the Bortle class or SQM reading, twilight and moonlight, and whether the magnitude and surface brightness are within reach of the aperture), rise/transit/set times, the IAU constellation containing the object, and, where applicable, distance, star physical data (distance, spectral type, B-V color, luminosity, variability, multiple-star components), deep sky catalog details (angular size, position angle, surface brightness, constellation, Hubble type, central star and cross-identifiers such as PGC/UGC), phase illumination, planetary physical data (apparent diameter, magnitude, elongation and central meridian; Galilean moon positions, shadow transits and Great Red Spot transits for Jupiter; ring tilt for Saturn), and upcoming moon phases. All calculations are performed for the selected observer profile (or a named one), at the current system time unless an observation time is given (ISO-8601 with time zone, a relative offset like '+3h', or a local time like 'tonight 22:00'). The tool automatically resolves common names (e.g., 'Andromeda Galaxy' to 'M31'), catalog designation variants ('M 31', 'NGC 0224'), Bayer and Flamsteed designations ('alpha Lyrae', 'α Lyr', '58 Ori') and minor misspellings; unknown names return 'did you mean' suggestions. Responses follow a versioned schema (schemaVersion) with numeric fields whose units are in their names, ISO-8601 UTC timestamps with the observer's local time, and sexagesimal display strings; set format to 'text' for a readable summary instead, or 'both'.";
   
   protected schema = {
     objectName: {
       type: z.string(),
       description: "The name or catalog identifier of the celestial object. Examples: 'Jupiter', 'Sirius', 'M31', 'NGC 7000', 'Crab Nebula'. The tool will attempt to resolve common names."
+    },
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION
+    },
+    bortleClass: {
+      type: z.number().int().min(1).max(9).optional(),
+      description: "Optional. Bortle class of the sky (1 = excellent dark site, 9 = inner city) for the observability score. Defaults to the observer profile's sky, then Bortle 4."
+    },
+    sqm: {
+      type: z.number().min(16).max(22.5).optional(),
+      description: "Optional. Measured zenith sky brightness in mag/arcsec² for the observability score. Takes precedence over bortleClass."
+    },
+    equipment: {
+      type: z.string().optional(),
+      description: "Optional. Name of a saved equipment profile whose aperture is used for the observability score. Defaults to the observer profile's default equipment, then the naked eye."
+    },
+    grsLongitude: {
+      type: z.number().min(0).max(360).optional(),
+      description: `Optional. System II longitude of Jupiter's Great Red Spot in degrees, for its transit times. Defaults to ${PLANETARY_CONFIG.greatRedSpotLongitude}°; the spot drifts, so use a recent measurement for accurate times.`
+    },
+    format: {
+      type: z.enum(OUTPUT_FORMATS as [OutputFormat, ...OutputFormat[]]).optional().default('json'),
+      description: OUTPUT_FORMAT_PARAM_DESCRIPTION
     }
-    // Removed: useSystemTime, dateTime, latitude, longitude, elevation
   };
 
+  /**
+   * Physical ephemeris of a planet: size, brightness, elongation and central meridian, plus
+   * Galilean moons, shadow transits and Red Spot transits for Jupiter and ring tilt for Saturn
+   */
+  private planetDetails(body: Astronomy.Body, context: ObservationContext, grsLongitude?: number): PlanetDetails {
+    const { date, observer, timeZone } = context;
+    const ephemeris = getPlanetaryEphemeris(body, date);
+    const longitudeNote = ephemeris.longitudeDirection === 'west'
+      ? 'Planetographic longitude, increasing westward'
+      : 'Planetographic longitude, increasing eastward (retrograde rotation)';
+
+    const details: PlanetDetails = {
+      apparentMagnitude: round(ephemeris.magnitude, 2),
+      apparentDiameterArcsec: {
+        equatorial: round(ephemeris.equatorialDiameter, 2),
+        polar: round(ephemeris.polarDiameter, 2)
+      },
+      elongationDegrees: round(ephemeris.elongation, 2),
+      elongationSide: ephemeris.elongationSide === 'evening'
+        ? 'East of the Sun (evening sky)'
+        : 'West of the Sun (morning sky)',
+      phaseAngleDegrees: round(ephemeris.phaseAngle, 2),
+      illuminatedPercent: round(ephemeris.illuminatedFraction * 100, 1),
+      lightTimeMinutes: round(ephemeris.lightTimeMinutes, 1),
+      subEarthLatitudeDegrees: round(ephemeris.subEarthLatitude, 2),
+      northPolePositionAngleDegrees: round(ephemeris.northPolePositionAngle, 2),
+      centralMeridian: ephemeris.jupiterSystems
+        ? {
+            systemI: round(ephemeris.jupiterSystems.systemI, 2),
+            systemII: round(ephemeris.jupiterSystems.systemII, 2),
+            systemIII: round(ephemeris.jupiterSystems.systemIII, 2),
+            note: `${longitudeNote}. System I applies to the equatorial belts and zones, System II to the rest of the disk including the Great Red Spot.`
+          }
+        : {
+            longitudeDegrees: round(ephemeris.centralMeridian, 2),
+            note: body === Astronomy.Body.Saturn ? `${longitudeNote}, System III.` : `${longitudeNote}.`
+          }
+    };
+
+    const astroObserver = toAstronomyObserver(observer);
+    const altitudeAt = (t: Date) => {
+      const equ = Astronomy.Equator(body, t, astroObserver, true, true);
+      return round(Astronomy.Horizon(t, astroObserver, equ.ra, equ.dec, 'normal').altitude, 1);
+    };
+
+    if (body === Astronomy.Body.Jupiter) {
+      const end = new Date(date.getTime() + PLANETARY_CONFIG.jupiterEventSearchHours * 3600000);
+      details.galileanMoons = getGalileanMoons(date).map(moon => ({
+        name: moon.name,
+        offsetEastArcsec: round(moon.offsetEast, 1),
+        offsetNorthArcsec: round(moon.offsetNorth, 1),
+        offsetJupiterRadii: round(Math.abs(moon.offsetEastJupiterRadii), 2),
+        side: moon.offsetEastJupiterRadii >= 0 ? 'east' : 'west',
+        status: moon.status,
+        ...(moon.shadowOnDisk && { shadowOnDisk: true })
+      }));
+      details.shadowTransits = {
+        searchHours: PLANETARY_CONFIG.jupiterEventSearchHours,
+        events: findShadowTransits(date, end).map(transit => ({
+          moon: transit.moon,
+          start: toTimestamp(transit.start, timeZone),
+          end: toTimestamp(transit.end, timeZone),
+          jupiterAltitudeAtMidpointDegrees: altitudeAt(new Date((transit.start.getTime() + transit.end.getTime()) / 2))
+        }))
+      };
+      const longitude = grsLongitude ?? PLANETARY_CONFIG.greatRedSpotLongitude;
+      details.greatRedSpot = {
+        systemIILongitudeDegrees: longitude,
+        longitudeSource: grsLongitude !== undefined ? 'parameter' : 'configured default',
+        transits: findGreatRedSpotTransits(date, end, longitude).map(transit => ({
+          ...toTimestamp(transit, timeZone),
+          jupiterAltitudeDegrees: altitudeAt(transit)
+        })),
+        note: 'Times when the spot crosses the central meridian. It is well placed for about 50 minutes either side.'
+      };
+    }
+
+    if (body === Astronomy.Body.Saturn) {
+      const rings = getSaturnRings(date);
+      details.rings = {
+        tiltTowardEarthDegrees: round(rings.earthTilt, 2),
+        tiltTowardSunDegrees: round(rings.sunTilt, 2),
+        visibleFace: rings.earthTilt >= 0 ? 'north' : 'south',
+        majorAxisArcsec: round(rings.majorAxis, 1),
+        minorAxisArcsec: round(rings.minorAxis, 1),
+        ...(Math.abs(rings.earthTilt) < 2 && { note: 'The rings are nearly edge-on and appear as a thin line or vanish.' }),
+        ...(Math.sign(rings.earthTilt) !== Math.sign(rings.sunTilt) && { unlitFaceVisible: true })
+      };
+    }
+
+    return details;
+  }
+
+  /**
+   * Human-readable summary of a response, for the 'text' and 'both' formats
+   */
+  private summarize(response: CelestialDetailsResponse): string {
+    const { observation, coordinates, visibilityTimes } = response;
+    const { equatorial, horizontal } = coordinates;
+    const name = response.resolvedAs ? `${response.object} (${response.resolvedAs})` : response.object;
+    const localTime = (timestamp: Timestamp | null) => timestamp ? timestamp.local.split(' ').slice(0, 2).join(' ') : 'none';
+    const lines = [
+      `${name}${response.type ? `, ${response.type}` : ''}${response.constellation ? ` in ${response.constellation.name}` : ''}` +
+        (response.apparentMagnitude !== undefined ? `, magnitude ${response.apparentMagnitude.toFixed(2)}` : ''),
+      `Seen from ${observation.observer.name} at ${observation.time.local}`,
+      `RA ${equatorial.display?.rightAscension ?? `${equatorial.rightAscensionHours.toFixed(4)}h`}, ` +
+        `Dec ${equatorial.display?.declination ?? `${equatorial.declinationDegrees.toFixed(4)}°`} (J2000, ${equatorial.center})`,
+      `Altitude ${horizontal.altitudeDegrees.toFixed(1)}°, azimuth ${horizontal.azimuthDegrees.toFixed(1)}°: ${response.visibility}`,
+      `Rise ${localTime(visibilityTimes.rise)}, transit ${localTime(visibilityTimes.transit)}` +
+        (visibilityTimes.transitAltitudeDegrees !== null ? ` (altitude ${visibilityTimes.transitAltitudeDegrees.toFixed(1)}°)` : '') +
+        `, set ${localTime(visibilityTimes.set)}` +
+        (visibilityTimes.note ? `. ${visibilityTimes.note}` : '')
+    ];
+    if (response.distance) {
+      lines.push(`Distance ${response.distance.astronomicalUnits.toFixed(4)} AU (${response.distance.kilometers} km)`);
+    }
+    if (response.phase) {
+      lines.push(`${response.phase.illuminatedPercent.toFixed(1)}% illuminated, ${response.phase.trend.toLowerCase()}`);
+    }
+    if (response.upcomingPhases) {
+      const { newMoon, firstQuarter, fullMoon, lastQuarter } = response.upcomingPhases;
+      lines.push(`Next new moon ${localTime(newMoon)}, first quarter ${localTime(firstQuarter)}, full moon ${localTime(fullMoon)}, last quarter ${localTime(lastQuarter)}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * The response as JSON, as its text summary, or both, per the format parameter
+   */
+  private formatResponse(response: object, summary: string, format: OutputFormat = 'json') {
+    if (format === 'json') {
+      return response;
+    }
+    const text = { type: 'text', text: summary };
+    return format === 'text' ? [text] : [text, { type: 'text', text: JSON.stringify(response) }];
+  }
+
+  /**
+   * Versioned response for an unknown object, or an invalid time, observer or equipment profile
+   */
+  private errorResponse(params: CelestialDetailsInput, error: StructuredInputError) {
+    const response = validateResponse(CelestialDetailsErrorResponseSchema, {
+      schemaVersion: CELESTIAL_DETAILS_SCHEMA_VERSION,
+      object: params.objectName,
+      ...error.toResponse()
+    });
+    return this.formatResponse(response, response.error.message, params.format);
+  }
+
   async execute(params: CelestialDetailsInput) {
     try {
-      // Always use current system time
-      const date = new Date();
-
-      // Always use pre-configured observer location
-      const observer = {
-        latitude: OBSERVER_CONFIG.latitude,
-        longitude: OBSERVER_CONFIG.longitude,
-        elevation: OBSERVER_CONFIG.altitude,
-        temperature: OBSERVER_CONFIG.temperature,
-        pressure: OBSERVER_CONFIG.pressure
-      };
+      let context: ObservationContext;
+      let conditions: ObservingConditions;
+      try {
+        context = resolveObservationContext(params);
+        conditions = resolveObservingConditions(params, context.profile);
+      } catch (error: any) {
+        if (isStructuredInputError(error)) {
+          return this.errorResponse(params, error);
+        }
+        throw error;
+      }
+      const { date, observer, profile } = context;
       
       // Get equatorial coordinates for the object
       let equatorialCoords: EquatorialCoordinates;
+      let resolvedName: ResolvedObjectName;
       try {
-        equatorialCoords = await getEquatorialCoordinates(params.objectName, date);
+        resolvedName = resolveObjectName(params.objectName);
+        equatorialCoords = await getEquatorialCoordinates(params.objectName, date, observer);
       } catch (error: any) {
+        if (isStructuredInputError(error)) {
+          return this.errorResponse(params, error);
+        }
         throw new Error(`Could not find object: ${params.objectName}. ${error.message}`);
       }
 
+      // Apparent place of date (precession, nutation, aberration, proper motion)
+      const apparentCoords = toApparentCoordinates(equatorialCoords, date);
+
+      // Solar system bodies are positioned for the observer's site; the geocentric position
+      // (as listed in almanacs) is reported alongside, with the parallax between the two
+      const topocentric = equatorialCoords.center === 'topocentric';
+      const geocentricCoords = topocentric ? await getEquatorialCoordinates(params.objectName, date) : null;
+      const geocentricApparent = geocentricCoords ? toApparentCoordinates(geocentricCoords, date) : null;
+
       // Convert to horizontal (altaz) coordinates (NEW)
       const altazCoords = convertToAltAz(equatorialCoords, observer, date);
       
       // Get detailed information
       const details = getObjectDetails(params.objectName, date, observer);
       
-      // Format the location for display
-      const locationName = `Configured (${OBSERVER_CONFIG.latitude.toFixed(4)}°, ${OBSERVER_CONFIG.longitude.toFixed(4)}°)`;
-      
-      // Calculate visibility (NEW)
+      // IAU constellation containing the object's position
+      const constellation = findConstellationAt(equatorialCoords);
+
+      // Score observability from altitude, sky brightness, the Moon and the object's brightness
+      const deepSkyObject = getDeepSkyObject(params.objectName);
+      const solarSystemBody = getSolarSystemBody(resolvedName.key);
+      const localHorizon = localHorizonAltitude(profile, altazCoords.azimuth);
+      const observability = await assessObservability(
+        deepSkyObject ?? (solarSystemBody && solarSystemBody !== Astronomy.Body.Earth
+          ? { ...equatorialCoords, magnitude: Astronomy.Illumination(solarSystemBody, date).mag }
+          : equatorialCoords),
+        observer,
+        date,
+        conditions,
+        solarSystemBody === Astronomy.Body.Moon,
+        localHorizon
+      );
       const isAboveHorizon = altazCoords.altitude > 0;
-      const visibility = isAboveHorizon
-        ? altazCoords.altitude > 30
-          ? "Excellent visibility"
-          : "Above horizon"
-        : "Below horizon (not visible)";
+      const hiddenByLocalHorizon = isAboveHorizon && altazCoords.altitude <= localHorizon;
+      const visibility = !isAboveHorizon
+        ? "Below horizon (not visible)"
+        : hiddenByLocalHorizon
+          ? `Above horizon but hidden by the local horizon (clear above ${localHorizon.toFixed(1)}° at this azimuth)`
+          : `${observability.rating} (observability score ${observability.score}/100)`;
+
+      const timeZone = context.timeZone;
+      const equatorialPosition = (coords: EquatorialCoordinates, frame: string) => ({
+        frame,
+        center: coords.center ?? 'geocentric',
+        rightAscensionHours: round(coords.rightAscension, 6),
+        declinationDegrees: round(coords.declination, 5),
+        display: {
+          rightAscension: formatRightAscension(coords.rightAscension),
+          declination: formatDegrees(coords.declination)
+        }
+      });
+      const J2000_FRAME = "J2000 (astrometric, mean equator and equinox of J2000, epoch of date)";
+      const APPARENT_FRAME = "Apparent (true equator and equinox of date)";
 
       // Format the response
       const response: any = {
+        schemaVersion: CELESTIAL_DETAILS_SCHEMA_VERSION,
+        status: 'Success',
         object: params.objectName,
+        // Report what a designation variant or misspelling was matched to
+        ...(resolvedName.matchedBy !== 'exact' && { resolvedAs: resolvedName.displayName, matchedBy: resolvedName.matchedBy }),
+        ...(equatorialCoords.type && { type: equatorialCoords.type }),
         ...(typeof equatorialCoords.magnitude === 'number' && { apparentMagnitude: equatorialCoords.magnitude }),
-        observationTime: date.toLocaleString() + " (system local time)",  
-        location: locationName,
+        observation: {
+          time: toTimestamp(date, timeZone),
+          timeZone,
+          observer: {
+            name: profile.name,
+            latitudeDegrees: profile.latitude,
+            longitudeDegrees: profile.longitude,
+            elevationMeters: profile.elevation
+          }
+        },
+        ...(constellation && {
+          constellation: { abbreviation: constellation.abbreviation, name: constellation.name, genitive: constellation.genitive }
+        }),
         coordinates: {
-          equatorial: {
-            rightAscension: equatorialCoords.rightAscension.toFixed(4) + "h",
-            declination: equatorialCoords.declination.toFixed(4) + "°"
-          },
-          // Added altitude and azimuth to response
+          equatorial: equatorialPosition(equatorialCoords, J2000_FRAME),
+          apparent: equatorialPosition(apparentCoords, APPARENT_FRAME),
+          // Solar system bodies are topocentric above; this is the position seen from the Earth's center
+          ...(geocentricCoords && geocentricApparent && {
+            geocentric: {
+              equatorial: equatorialPosition(geocentricCoords, J2000_FRAME),
+              apparent: equatorialPosition(geocentricApparent, APPARENT_FRAME),
+              parallaxShiftArcsec: round(calculateAngularSeparation(geocentricCoords, equatorialCoords) * 3600, 2)
+            }
+          }),
           horizontal: {
-              altitude: altazCoords.altitude.toFixed(4) + "°",
-              azimuth: altazCoords.azimuth.toFixed(4) + "°"
+            altitudeDegrees: round(altazCoords.altitude, 4),
+            azimuthDegrees: round(altazCoords.azimuth, 4),
+            display: {
+              altitude: formatDegrees(altazCoords.altitude),
+              azimuth: formatDegrees(altazCoords.azimuth, false)
+            }
           }
         },
-        // Added these fields
-        aboveHorizon: isAboveHorizon ? "Yes" : "No",
-        visibility: visibility
+        aboveHorizon: isAboveHorizon,
+        visibility: visibility,
+        ...(hasLocalHorizon(profile) && {
+          localHorizon: {
+            minimumAltitudeDegrees: round(localHorizon, 2),
+            clear: isAboveHorizon && !hiddenByLocalHorizon,
+            ...(hiddenByLocalHorizon && { hiddenByLocalHorizon: true })
+          }
+        }),
+        observability
       };
       
       // Add rise/set/transit times if available
       if (details) {
-        const formatTime = (timeObj: Date | Astronomy.AstroTime | null | undefined): string => {
-          if (!timeObj) return "N/A";
-          // AstroTime objects have a .date property which is a JS Date.
-          // Fixed objects might return JS Date directly for riseTime/setTime.
-          const date = timeObj instanceof Date ? timeObj : new Date((timeObj as Astronomy.AstroTime).date);
-          return date.toLocaleTimeString();
+        // Fixed objects return JS Dates; solar system bodies return AstroTimes, whose .date is a JS Date
+        const toDate = (timeObj: Date | Astronomy.AstroTime | null | undefined): Date | null => {
+          if (!timeObj) return null;
+          return timeObj instanceof Date ? timeObj : new Date((timeObj as Astronomy.AstroTime).date);
+        };
+        const formatTime = (timeObj: Date | Astronomy.AstroTime | null | undefined) => {
+          const eventDate = toDate(timeObj);
+          return eventDate ? toTimestamp(eventDate, timeZone) : null;
         };
 
         let note = "";
+        let circumpolar: 'alwaysAbove' | 'alwaysBelow' | 'circumpolar' | undefined;
         if (details.isCircumpolar) {
           if (details.alwaysAboveHorizon) {
+            circumpolar = 'alwaysAbove';
             note = "This object is circumpolar and remains above the horizon from this location.";
           } else if (details.alwaysBelowHorizon) {
+            circumpolar = 'alwaysBelow';
             note = "This object is circumpolar and remains below the horizon from this location.";
           } else {
+            circumpolar = 'circumpolar';
             note = "This object is circumpolar from this location.";
           }
         } else {
@@ -114,24 +430,47 @@ class CelestialDetailsTool extends MCPTool<CelestialDetailsInput> {
           }
         }
         
-        const riseStr = formatTime(details.riseTime);
+        const rise = formatTime(details.riseTime);
         // details.transitTime is an event object like { time: AstroTime | Date, hor: HorizontalCoordinates }
-        const transitStr = formatTime(details.transitTime ? details.transitTime.time : null);
-        const setStr = formatTime(details.setTime);
+        const transit = formatTime(details.transitTime ? details.transitTime.time : null);
+        const set = formatTime(details.setTime);
+        const transitAltitude = details.transitTime?.hor?.altitude;
 
-        if (riseStr === "N/A" && transitStr === "N/A" && setStr === "N/A" && !note) {
+        if (!rise && !transit && !set && !note) {
             note = "Rise, transit, and set times are not available for this object on this date at this location.";
         }
 
         response.visibilityTimes = {
-          rise: riseStr,
-          transit: transitStr,
-          set: setStr
+          rise,
+          transit,
+          set,
+          transitAltitudeDegrees: typeof transitAltitude === 'number' ? round(transitAltitude, 2) : null,
+          ...(circumpolar && { circumpolar })
         };
           
         if (note) response.visibilityTimes.note = note;
+
+        // Rise and set against the local horizon profile, for sites with obstructions
+        if (hasLocalHorizon(profile)) {
+          const moving = solarSystemBody !== null || (!deepSkyObject && !getStarRecord(params.objectName));
+          const crossings = await findLocalHorizonCrossings(
+            profile,
+            async t => convertToAltAz(moving ? await getEquatorialCoordinates(params.objectName, t, observer) : equatorialCoords, observer, t),
+            date,
+            new Date(date.getTime() + 86400000)
+          );
+          response.visibilityTimes.localHorizon = {
+            clears: crossings.clears ? toTimestamp(crossings.clears, timeZone) : null,
+            hidden: crossings.hidden ? toTimestamp(crossings.hidden, timeZone) : null,
+            note: "Next times within 24 hours of the observation time that the object rises above and sinks behind the local horizon profile."
+          };
+        }
       } else {
         response.visibilityTimes = {
+          rise: null,
+          transit: null,
+          set: null,
+          transitAltitudeDegrees: null,
           note: "Astronomical details, including rise/set times, could not be determined for this object."
         };
       }
@@ -139,30 +478,105 @@ class CelestialDetailsTool extends MCPTool<CelestialDetailsInput> {
       // Add distance information if available
       if (details && details.distance) {
         response.distance = {
-          astronomicalUnits: details.distance.au.toFixed(6),
-          kilometers: Math.round(details.distance.km).toLocaleString()
+          astronomicalUnits: round(details.distance.au, 6),
+          kilometers: Math.round(details.distance.km)
         };
       }
       
       // Add phase information for solar system objects
       if (details && details.phaseInfo) {
         response.phase = {
-          percentIlluminated: details.phaseInfo.phasePercent.toFixed(1) + "%",
+          illuminatedPercent: round(details.phaseInfo.phasePercent, 1),
           trend: details.phaseInfo.isWaxing ? "Waxing" : "Waning"
         };
       }
       
+      // Add physical ephemeris for planets
+      if (isPlanet(solarSystemBody)) {
+        response.planetDetails = this.planetDetails(solarSystemBody, context, params.grsLongitude);
+      }
+      
+      // Add catalog details for deep sky objects
+      if (deepSkyObject) {
+        const deepSkyDetails: DeepSkyDetails = {
+          catalogName: deepSkyObject.name!,
+          ...(deepSkyObject.commonName && { commonName: deepSkyObject.commonName }),
+          type: deepSkyObject.type!,
+          ...(deepSkyObject.constellation && { constellation: deepSkyObject.constellation }),
+          ...(deepSkyObject.majorAxis !== undefined && {
+            angularSize: {
+              majorAxisArcmin: deepSkyObject.majorAxis,
+              ...(deepSkyObject.minorAxis !== undefined && { minorAxisArcmin: deepSkyObject.minorAxis }),
+              ...(deepSkyObject.positionAngle !== undefined && { positionAngleDegrees: deepSkyObject.positionAngle })
+            }
+          }),
+          ...(deepSkyObject.surfaceBrightness !== undefined && { surfaceBrightnessMagPerArcsec2: deepSkyObject.surfaceBrightness }),
+          ...(deepSkyObject.hubbleType && { hubbleType: deepSkyObject.hubbleType }),
+          ...(deepSkyObject.centralStarNames && { centralStar: {
+            names: deepSkyObject.centralStarNames,
+            ...(deepSkyObject.centralStarMagnitude !== undefined && { magnitude: deepSkyObject.centralStarMagnitude })
+          } }),
+          ...(deepSkyObject.identifiers && { identifiers: deepSkyObject.identifiers })
+        };
+        response.deepSkyDetails = deepSkyDetails;
+      }
+      
+      // Add physical data for stars
+      const star = getStarRecord(params.objectName);
+      if (star) {
+        const system = getStarSystem(star);
+        const starDetails: StarDetails = {
+          catalogIds: {
+            ...(star.hip && { hip: star.hip }),
+            ...(star.hd && { hd: star.hd }),
+            ...(star.hr && { hr: star.hr })
+          },
+          ...(star.constellation && { constellation: star.constellation }),
+          ...(star.spectralType && { spectralType: star.spectralType }),
+          ...(star.colorIndex !== undefined && { colorIndexBV: star.colorIndex }),
+          ...(star.distanceParsecs !== undefined && {
+            distance: {
+              parsecs: parseFloat(star.distanceParsecs.toFixed(2)),
+              lightYears: parseFloat((star.distanceParsecs * LIGHT_YEARS_PER_PARSEC).toFixed(1))
+            }
+          }),
+          ...(star.absoluteMagnitude !== undefined && { absoluteMagnitude: star.absoluteMagnitude }),
+          ...(star.luminosity !== undefined && { luminositySolar: parseFloat(star.luminosity.toPrecision(4)) }),
+          ...((star.variableDesignation || star.variableMinMagnitude !== undefined) && {
+            variability: {
+              ...(star.variableDesignation && { designation: star.variableDesignation }),
+              ...(star.variableMinMagnitude !== undefined && { brightestMagnitude: star.variableMinMagnitude }),
+              ...(star.variableMaxMagnitude !== undefined && { faintestMagnitude: star.variableMaxMagnitude })
+            }
+          }),
+          ...(system.length > 1 && {
+            multipleSystem: {
+              componentCount: system.length,
+              components: system.map(component => ({
+                name: component.name!,
+                component: component.componentNumber!,
+                ...(component.magnitude !== undefined && { magnitude: component.magnitude }),
+                ...(component.spectralType && { spectralType: component.spectralType }),
+                separationArcsec: parseFloat((calculateAngularSeparation(system[0], component) * 3600).toFixed(1))
+              }))
+            }
+          })
+        };
+        response.starDetails = starDetails;
+      }
+      
       // Add moon phase information if this is the Moon
-      if (details && details.moonPhases && params.objectName.toLowerCase() === 'moon') {
+      if (details && details.moonPhases && resolvedName.key === 'moon') {
         response.upcomingPhases = {
-          newMoon: new Date(details.moonPhases.nextNewMoon.date).toLocaleDateString(),
-          firstQuarter: new Date(details.moonPhases.nextFirstQuarter.date).toLocaleDateString(),
-          fullMoon: new Date(details.moonPhases.nextFullMoon.date).toLocaleDateString(),
-          lastQuarter: new Date(details.moonPhases.nextLastQuarter.date).toLocaleDateString()
+          newMoon: toTimestamp(details.moonPhases.nextNewMoon.date, timeZone),
+          firstQuarter: toTimestamp(details.moonPhases.nextFirstQuarter.date, timeZone),
+          fullMoon: toTimestamp(details.moonPhases.nextFullMoon.date, timeZone),
+          lastQuarter: toTimestamp(details.moonPhases.nextLastQuarter.date, timeZone)
         };
       }
       
-      return response;
+      const validated = validateResponse(CelestialDetailsResponseSchema, response);
+      return this.formatResponse(validated, this.summarize(validated), params.format);
     } catch (error: any) {
       throw new Error(`Failed to get celestial details: ${error.message}`);
     }
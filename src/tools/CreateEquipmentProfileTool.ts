@@ -0,0 +1,146 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { saveEquipmentProfile, computeOptics, EquipmentProfile, EquipmentProfileError } from '../utils/equipment.js';
+
+interface CreateEquipmentProfileInput {
+  name: string;
+  telescopeApertureMm?: number;
+  telescopeFocalLengthMm?: number;
+  eyepieceFocalLengthMm?: number;
+  eyepieceApparentFovDegrees?: number;
+  barlowFactor?: number;
+  finderApertureMm?: number;
+  finderMagnification?: number;
+  finderFovDegrees?: number;
+  cameraPixelSizeMicrons?: number;
+  cameraResolutionX?: number;
+  cameraResolutionY?: number;
+  notes?: string;
+  overwrite?: boolean;
+}
+
+// Typical apparent field of a Plössl eyepiece, used when none is given
+const DEFAULT_EYEPIECE_APPARENT_FOV = 52;
+
+class CreateEquipmentProfileTool extends MCPTool<CreateEquipmentProfileInput> {
+  name = 'createEquipmentProfile';
+  description = "Creates (or, with overwrite, updates) a named equipment profile: a telescope with an optional eyepiece, Barlow or focal reducer, finder and camera. Profiles are persisted in data/equipment.json; getEquipmentOptics reports the derived magnification, true field of view, exit pupil, limiting magnitude and image scale, and getStarHoppingPath can take the profile name instead of a field of view.";
+
+  protected schema = {
+    name: {
+      type: z.string().min(1),
+      description: "Profile name, e.g. '8in Dob 25mm' or 'Refractor + ASI533'. Names are case-insensitive."
+    },
+    telescopeApertureMm: {
+      type: z.number().positive().optional(),
+      description: "Telescope aperture in millimeters. Required together with telescopeFocalLengthMm for an eyepiece, Barlow or camera."
+    },
+    telescopeFocalLengthMm: {
+      type: z.number().positive().optional(),
+      description: "Telescope focal length in millimeters."
+    },
+    eyepieceFocalLengthMm: {
+      type: z.number().positive().optional(),
+      description: "Optional. Eyepiece focal length in millimeters."
+    },
+    eyepieceApparentFovDegrees: {
+      type: z.number().positive().optional(),
+      description: `Optional. Apparent field of view of the eyepiece in degrees. Default: ${DEFAULT_EYEPIECE_APPARENT_FOV}.`
+    },
+    barlowFactor: {
+      type: z.number().positive().optional(),
+      description: "Optional. Focal length multiplier of a Barlow lens (e.g. 2) or focal reducer (e.g. 0.63)."
+    },
+    finderApertureMm: {
+      type: z.number().positive().optional(),
+      description: "Optional. Finder scope (or binocular) aperture in millimeters, e.g. 50 for an 8x50 finder."
+    },
+    finderMagnification: {
+      type: z.number().positive().optional(),
+      description: "Optional. Finder magnification, e.g. 8 for an 8x50 finder."
+    },
+    finderFovDegrees: {
+      type: z.number().positive().optional(),
+      description: "Optional. True field of view of the finder in degrees."
+    },
+    cameraPixelSizeMicrons: {
+      type: z.number().positive().optional(),
+      description: "Optional. Camera pixel size in micrometers."
+    },
+    cameraResolutionX: {
+      type: z.number().int().positive().optional(),
+      description: "Optional. Camera sensor width in pixels."
+    },
+    cameraResolutionY: {
+      type: z.number().int().positive().optional(),
+      description: "Optional. Camera sensor height in pixels."
+    },
+    notes: {
+      type: z.string().optional(),
+      description: "Optional. Free-text notes about the equipment."
+    },
+    overwrite: {
+      type: z.boolean().optional().default(false),
+      description: "Optional. Replace an existing profile with the same name. Default: false."
+    }
+  };
+
+  async execute(params: CreateEquipmentProfileInput) {
+    // Each component needs all of its fields; a partial component is reported instead of silently dropped
+    const incomplete: string[] = [];
+    const component = <T>(label: string, values: (number | undefined)[], build: () => T): T | undefined => {
+      const given = values.filter(v => v !== undefined).length;
+      if (given > 0 && given < values.length) incomplete.push(label);
+      return given === values.length ? build() : undefined;
+    };
+
+    const telescope = component('telescope (aperture and focal length)', [params.telescopeApertureMm, params.telescopeFocalLengthMm], () => ({
+      apertureMm: params.telescopeApertureMm!,
+      focalLengthMm: params.telescopeFocalLengthMm!
+    }));
+    const finder = component('finder (aperture, magnification and field of view)', [params.finderApertureMm, params.finderMagnification, params.finderFovDegrees], () => ({
+      apertureMm: params.finderApertureMm!,
+      magnification: params.finderMagnification!,
+      fovDegrees: params.finderFovDegrees!
+    }));
+    const camera = component('camera (pixel size and resolution)', [params.cameraPixelSizeMicrons, params.cameraResolutionX, params.cameraResolutionY], () => ({
+      pixelSizeMicrons: params.cameraPixelSizeMicrons!,
+      resolutionX: params.cameraResolutionX!,
+      resolutionY: params.cameraResolutionY!
+    }));
+
+    const profile: EquipmentProfile = {
+      name: params.name,
+      ...(telescope && { telescope }),
+      ...(params.eyepieceFocalLengthMm !== undefined && {
+        eyepiece: {
+          focalLengthMm: params.eyepieceFocalLengthMm,
+          apparentFovDegrees: params.eyepieceApparentFovDegrees ?? DEFAULT_EYEPIECE_APPARENT_FOV
+        }
+      }),
+      ...(params.barlowFactor !== undefined && { barlowFactor: params.barlowFactor }),
+      ...(finder && { finder }),
+      ...(camera && { camera }),
+      ...(params.notes !== undefined && { notes: params.notes })
+    };
+
+    try {
+      if (incomplete.length > 0) {
+        throw new EquipmentProfileError('INVALID_EQUIPMENT', params.name, `Invalid equipment profile: incomplete ${incomplete.join(', ')}.`);
+      }
+      const saved = saveEquipmentProfile(profile, params.overwrite);
+      return {
+        status: 'Saved',
+        profile: saved,
+        optics: computeOptics(saved)
+      };
+    } catch (error: any) {
+      if (error instanceof EquipmentProfileError) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to save equipment profile: ${error.message}`);
+    }
+  }
+}
+
+export default CreateEquipmentProfileTool;
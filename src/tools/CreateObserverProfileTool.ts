@@ -0,0 +1,166 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { saveObserverProfile, selectObserverProfile, ObserverProfile, ObserverProfileError } from '../utils/observers.js';
+import { loadHorizonFile, parseHorizonProfile, HorizonProfile } from '../utils/horizon.js';
+
+interface CreateObserverProfileInput {
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation?: number;
+  timeZone: string;
+  temperature?: number;
+  pressure?: number;
+  horizonAltitude?: number;
+  horizonFile?: string;
+  horizonData?: string;
+  bortleClass?: number;
+  sqm?: number;
+  equipmentDescription?: string;
+  fovDegrees?: number;
+  apertureMm?: number;
+  notes?: string;
+  select?: boolean;
+  overwrite?: boolean;
+}
+
+class CreateObserverProfileTool extends MCPTool<CreateObserverProfileInput> {
+  name = 'createObserverProfile';
+  description = "Creates (or, with overwrite, updates) a named observer profile describing an observing site: coordinates, elevation, time zone, local horizon (flat or an azimuth/altitude profile), sky darkness and default equipment. Profiles are persisted in data/observers.json and can be passed by name as the 'observer' parameter of the other tools.";
+
+  protected schema = {
+    name: {
+      type: z.string().min(1),
+      description: "Profile name, e.g. 'Backyard' or 'Dark Site'. Names are case-insensitive; 'default' is reserved."
+    },
+    latitude: {
+      type: z.number().min(-90).max(90),
+      description: "Latitude in degrees, positive north."
+    },
+    longitude: {
+      type: z.number().min(-180).max(180),
+      description: "Longitude in degrees, positive east (negative for west)."
+    },
+    elevation: {
+      type: z.number().optional().default(0),
+      description: "Elevation in meters above sea level. Default: 0."
+    },
+    timeZone: {
+      type: z.string(),
+      description: "IANA time zone of the site, e.g. 'America/Vancouver'."
+    },
+    temperature: {
+      type: z.number().optional(),
+      description: "Optional. Typical temperature in Celsius, used for refraction."
+    },
+    pressure: {
+      type: z.number().positive().optional(),
+      description: "Optional. Typical air pressure in hPa, used for refraction."
+    },
+    horizonAltitude: {
+      type: z.number().optional(),
+      description: "Optional. Minimum altitude in degrees above which objects are considered clear of the local horizon. Default: 0."
+    },
+    horizonFile: {
+      type: z.string().optional(),
+      description: "Optional. Path to a local horizon profile (absolute, or relative to the data directory): a CSV of 'azimuth,altitude' rows or a Stellarium polygonal horizon file of 'azimuth altitude' lines. Objects below this horizon count as hidden."
+    },
+    horizonData: {
+      type: z.string().optional(),
+      description: "Optional. The local horizon profile given inline in the same formats as horizonFile, e.g. '0,5\n90,25\n180,10\n270,15'."
+    },
+    bortleClass: {
+      type: z.number().int().min(1).max(9).optional(),
+      description: "Optional. Typical Bortle class of the site's sky, from 1 (excellent dark site) to 9 (inner city). Used for observability scores."
+    },
+    sqm: {
+      type: z.number().min(16).max(22.5).optional(),
+      description: "Optional. Measured zenith sky brightness in mag/arcsec² (e.g. from a Sky Quality Meter). Takes precedence over bortleClass."
+    },
+    equipmentDescription: {
+      type: z.string().optional(),
+      description: "Optional. Free-text description of the default equipment, e.g. '8\" Dobsonian with 25mm eyepiece'."
+    },
+    fovDegrees: {
+      type: z.number().positive().optional(),
+      description: "Optional. Field of view of the default equipment in degrees."
+    },
+    apertureMm: {
+      type: z.number().positive().optional(),
+      description: "Optional. Aperture of the default equipment in millimeters."
+    },
+    notes: {
+      type: z.string().optional(),
+      description: "Optional. Free-text notes about the site."
+    },
+    select: {
+      type: z.boolean().optional().default(false),
+      description: "Optional. Also make this the selected profile. Default: false."
+    },
+    overwrite: {
+      type: z.boolean().optional().default(false),
+      description: "Optional. Replace an existing profile with the same name. Default: false."
+    }
+  };
+
+  async execute(params: CreateObserverProfileInput) {
+    let horizon: HorizonProfile | undefined;
+    try {
+      if (params.horizonFile && params.horizonData) {
+        throw new ObserverProfileError('INVALID_HORIZON', params.name, 'Give either horizonFile or horizonData, not both.');
+      }
+      if (params.horizonFile) {
+        horizon = loadHorizonFile(params.horizonFile, params.name);
+      } else if (params.horizonData) {
+        horizon = parseHorizonProfile(params.horizonData, 'inline', params.name);
+      }
+    } catch (error: any) {
+      if (error instanceof ObserverProfileError) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to load horizon profile: ${error.message}`);
+    }
+
+    const hasEquipment = params.equipmentDescription !== undefined || params.fovDegrees !== undefined || params.apertureMm !== undefined;
+    const profile: ObserverProfile = {
+      name: params.name,
+      latitude: params.latitude,
+      longitude: params.longitude,
+      elevation: params.elevation ?? 0,
+      timeZone: params.timeZone,
+      ...(params.temperature !== undefined && { temperature: params.temperature }),
+      ...(params.pressure !== undefined && { pressure: params.pressure }),
+      ...(params.horizonAltitude !== undefined && { horizonAltitude: params.horizonAltitude }),
+      ...(horizon && { horizon }),
+      ...(params.bortleClass !== undefined && { bortleClass: params.bortleClass }),
+      ...(params.sqm !== undefined && { sqm: params.sqm }),
+      ...(hasEquipment && {
+        defaultEquipment: {
+          description: params.equipmentDescription,
+          fovDegrees: params.fovDegrees,
+          apertureMm: params.apertureMm
+        }
+      }),
+      ...(params.notes !== undefined && { notes: params.notes })
+    };
+
+    try {
+      const saved = saveObserverProfile(profile, params.overwrite);
+      if (params.select) {
+        selectObserverProfile(saved.name);
+      }
+      return {
+        status: 'Saved',
+        selected: !!params.select,
+        profile: saved
+      };
+    } catch (error: any) {
+      if (error instanceof ObserverProfileError) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to save observer profile: ${error.message}`);
+    }
+  }
+}
+
+export default CreateObserverProfileTool;
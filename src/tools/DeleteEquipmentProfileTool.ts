@@ -0,0 +1,36 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { deleteEquipmentProfile, EquipmentProfileError } from '../utils/equipment.js';
+
+interface DeleteEquipmentProfileInput {
+  name: string;
+}
+
+class DeleteEquipmentProfileTool extends MCPTool<DeleteEquipmentProfileInput> {
+  name = 'deleteEquipmentProfile';
+  description = "Deletes a saved equipment profile.";
+
+  protected schema = {
+    name: {
+      type: z.string().min(1),
+      description: "Name of the equipment profile to delete."
+    }
+  };
+
+  async execute(params: DeleteEquipmentProfileInput) {
+    try {
+      const deleted = deleteEquipmentProfile(params.name);
+      return {
+        status: 'Deleted',
+        profile: deleted.name
+      };
+    } catch (error: any) {
+      if (error instanceof EquipmentProfileError) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to delete equipment profile: ${error.message}`);
+    }
+  }
+}
+
+export default DeleteEquipmentProfileTool;
@@ -0,0 +1,37 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { deleteObserverProfile, ObserverProfileError, DEFAULT_PROFILE_NAME } from '../utils/observers.js';
+
+interface DeleteObserverProfileInput {
+  name: string;
+}
+
+class DeleteObserverProfileTool extends MCPTool<DeleteObserverProfileInput> {
+  name = 'deleteObserverProfile';
+  description = "Deletes a saved observer profile. If the deleted profile was selected, the built-in 'default' profile becomes selected again.";
+
+  protected schema = {
+    name: {
+      type: z.string().min(1),
+      description: "Name of the profile to delete."
+    }
+  };
+
+  async execute(params: DeleteObserverProfileInput) {
+    try {
+      const { deleted, selectionReset } = deleteObserverProfile(params.name);
+      return {
+        status: 'Deleted',
+        profile: deleted.name,
+        ...(selectionReset && { selected: DEFAULT_PROFILE_NAME })
+      };
+    } catch (error: any) {
+      if (error instanceof ObserverProfileError) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to delete observer profile: ${error.message}`);
+    }
+  }
+}
+
+export default DeleteObserverProfileTool;
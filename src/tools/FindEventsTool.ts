@@ -0,0 +1,149 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import {
+  parseObservationTime,
+  formatInTimeZone,
+  DATE_TIME_PARAM_DESCRIPTION,
+  TIME_ZONE_PARAM_DESCRIPTION,
+} from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { listParam } from '../utils/params.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { findSkyEvents, SKY_EVENT_TYPES, SkyEventType } from '../utils/events.js';
+import { EVENTS_CONFIG } from '../config.js';
+
+interface FindEventsInput {
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+  endTime?: string;
+  days?: number;
+  eventTypes?: SkyEventType[];
+  maxSeparationDegrees?: number;
+  occultationMagnitudeLimit?: number;
+}
+
+class FindEventsTool extends MCPTool<FindEventsInput> {
+  name = 'findEvents';
+  description =
+    "Finds astronomical events in a date range (default: the next 30 days): close approaches of the Moon and planets to each other and of planets to bright stars, lunar occultations of stars visible from the observer's site, oppositions, greatest elongations of Mercury and Venus, equinoxes and solstices, perihelion and aphelion of the Earth and planets, and lunar and solar eclipses with local circumstances. Use it to answer questions like \"what's happening in the sky this month\".";
+
+  protected schema = {
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + ' Start of the search range.',
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+    endTime: {
+      type: z.string().optional(),
+      description: 'Optional. End of the search range (same formats as dateTime). Takes precedence over days.',
+    },
+    days: {
+      type: z.number().min(1).max(EVENTS_CONFIG.maxRangeDays).optional().default(30),
+      description: `Length of the search range in days when endTime is not given. Default: 30, at most ${EVENTS_CONFIG.maxRangeDays}.`,
+    },
+    eventTypes: {
+      type: listParam(z.enum(SKY_EVENT_TYPES as [SkyEventType, ...SkyEventType[]])),
+      description: "Optional. Comma-separated event types to include (e.g. 'conjunction, occultation'): 'conjunction', 'occultation', 'opposition', 'greatestElongation', 'season', 'apsis', 'lunarEclipse', 'solarEclipse'. Default: all.",
+    },
+    maxSeparationDegrees: {
+      type: z.number().min(0.1).max(10).optional().default(3),
+      description: 'Widest close approach (conjunction) to report, in degrees. Default: 3.',
+    },
+    occultationMagnitudeLimit: {
+      type: z.number().min(-2).max(6).optional().default(4),
+      description: 'Faintest star magnitude for lunar occultations. Default: 4.',
+    },
+  };
+
+  /**
+   * Replace dates in event details with UTC and local time pairs
+   */
+  private formatDetails(value: unknown, timeZone: string): unknown {
+    if (value instanceof Date) {
+      return { utc: value.toISOString(), local: formatInTimeZone(value, timeZone) };
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.formatDetails(item, timeZone));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.formatDetails(item, timeZone)]));
+    }
+    return value;
+  }
+
+  async execute(params: FindEventsInput) {
+    let context: ObservationContext;
+    let end: Date;
+    try {
+      context = resolveObservationContext(params);
+      end = params.endTime
+        ? parseObservationTime(params.endTime, { timeZone: context.timeZone }).date
+        : new Date(context.date.getTime() + (params.days ?? 30) * 86400000);
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return error.toResponse();
+      }
+      throw error;
+    }
+
+    const { date: start, observer, profile, timeZone } = context;
+    const rangeDays = (end.getTime() - start.getTime()) / 86400000;
+    if (rangeDays <= 0) {
+      return { status: 'InvalidTimeRange', summaryMessage: 'endTime must be after the start time.' };
+    }
+    if (rangeDays > EVENTS_CONFIG.maxRangeDays) {
+      return { status: 'InvalidTimeRange', summaryMessage: `The search range must be at most ${EVENTS_CONFIG.maxRangeDays} days long.` };
+    }
+
+    try {
+      const types = params.eventTypes && params.eventTypes.length > 0 ? params.eventTypes : SKY_EVENT_TYPES;
+      const events = findSkyEvents(start, end, observer, {
+        types,
+        maxSeparation: params.maxSeparationDegrees ?? 3,
+        occultationMagnitudeLimit: params.occultationMagnitudeLimit ?? 4,
+      });
+
+      const countsByType: Record<string, number> = {};
+      for (const event of events) {
+        countsByType[event.type] = (countsByType[event.type] ?? 0) + 1;
+      }
+
+      return {
+        status: 'Success',
+        observer: profile.name,
+        location: `${profile.latitude.toFixed(4)}°, ${profile.longitude.toFixed(4)}°`,
+        timeZone,
+        range: {
+          start: { utc: start.toISOString(), local: formatInTimeZone(start, timeZone) },
+          end: { utc: end.toISOString(), local: formatInTimeZone(end, timeZone) },
+          days: parseFloat(rangeDays.toFixed(2)),
+        },
+        eventTypes: types,
+        countsByType,
+        events: events.map(event => ({
+          type: event.type,
+          title: event.title,
+          time: this.formatDetails(event.time, timeZone),
+          bodies: event.bodies,
+          ...(this.formatDetails(event.details, timeZone) as object),
+        })),
+        summaryMessage: events.length > 0
+          ? `Found ${events.length} event${events.length === 1 ? '' : 's'} in ${rangeDays.toFixed(0)} days. ` +
+            'Conjunction separations are geocentric; occultations and eclipse circumstances are for the observer\'s site.'
+          : 'No events of the requested types were found in this range.',
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to find events: ${error.message}`);
+    }
+  }
+}
+
+export default FindEventsTool;
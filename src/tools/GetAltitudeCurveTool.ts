@@ -0,0 +1,298 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import * as Astronomy from 'astronomy-engine';
+import {
+  getEquatorialCoordinates,
+  toApparentCoordinates,
+  convertToAltAz,
+  EquatorialCoordinates,
+  Observer,
+} from '../utils/astronomy.js';
+import { SOLAR_SYSTEM_OBJECTS } from '../utils/catalogs.js';
+import { MINOR_BODY_CATALOG } from '../utils/minorBodies.js';
+import { resolveObjectName } from '../utils/nameResolver.js';
+import {
+  parseObservationTime,
+  formatInTimeZone,
+  DATE_TIME_PARAM_DESCRIPTION,
+  TIME_ZONE_PARAM_DESCRIPTION,
+} from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION, ObserverProfile } from '../utils/observers.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { getNightTimeline, getSkyPhasePeriods } from '../utils/night.js';
+import { airmass } from '../utils/observability.js';
+import { hasLocalHorizon, isAboveLocalHorizon } from '../utils/horizon.js';
+
+interface GetAltitudeCurveInput {
+  objects: string[];
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+  startTime?: string;
+  endTime?: string;
+  stepMinutes?: number;
+}
+
+// Position of an object at a time: J2000 coordinates, recomputed for moving bodies
+type PositionAt = (date: Date) => Promise<EquatorialCoordinates>;
+
+// Limits on the amount of sampling per call
+const MAX_WINDOW_HOURS = 48;
+const MAX_SAMPLES = 1000;
+
+// Crossing and maximum times are refined to this precision
+const REFINE_PRECISION_MS = 1000;
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+/**
+ * Hour angle relative to a reference hour angle, wrapped to [-12, 12) hours
+ */
+function relativeHourAngle(position: EquatorialCoordinates, observer: Observer, date: Date, referenceHours: number): number {
+  const apparent = toApparentCoordinates(position, date);
+  const hourAngle = Astronomy.SiderealTime(date) + observer.longitude / 15 - apparent.rightAscension - referenceHours;
+  return ((hourAngle % 24) + 36) % 24 - 12;
+}
+
+class GetAltitudeCurveTool extends MCPTool<GetAltitudeCurveInput> {
+  name = 'getAltitudeCurve';
+  description =
+    "Samples the altitude, azimuth and airmass of one or more objects over a time range (default: tonight's sunset to sunrise) so they can be compared to pick the best time. For each object it also reports the meridian crossings and the time of maximum altitude in the range. Where the observer profile has a local horizon, each sample says whether the object is clear of it. The range is split into daylight, civil, nautical and astronomical twilight and night periods for shading.";
+
+  protected schema = {
+    objects: {
+      type: z.array(z.string()).min(1).max(10),
+      description: "Names of the objects to sample, e.g. ['M31', 'Jupiter', 'Vega']. Up to 10.",
+    },
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + ' The curve covers the night containing or following this time.',
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+    startTime: {
+      type: z.string().optional(),
+      description: 'Optional. Start of a custom time range (same formats as dateTime). Must be given together with endTime.',
+    },
+    endTime: {
+      type: z.string().optional(),
+      description: 'Optional. End of a custom time range (same formats as dateTime). Must be given together with startTime.',
+    },
+    stepMinutes: {
+      type: z.number().min(1).max(120).optional().default(15),
+      description: 'Sampling step in minutes. Default: 15.',
+    },
+  };
+
+  /**
+   * Resolve the time range: explicit start/end, or sunset to sunrise of the night around the
+   * reference time. Where the Sun does not set or rise, the full day between solar noons is used.
+   */
+  private resolveWindow(params: GetAltitudeCurveInput, context: ObservationContext) {
+    if (params.startTime || params.endTime) {
+      if (!params.startTime || !params.endTime) {
+        return { error: 'Both startTime and endTime must be given for a custom time range.' };
+      }
+      const start = parseObservationTime(params.startTime, { timeZone: context.timeZone }).date;
+      const end = parseObservationTime(params.endTime, { timeZone: context.timeZone }).date;
+      if (end.getTime() <= start.getTime()) {
+        return { error: 'endTime must be after startTime.' };
+      }
+      return { start, end, source: 'custom' };
+    }
+
+    const night = getNightTimeline(context.observer, context.date);
+    if (night.sun.occurs) {
+      return { start: night.sun.start!, end: night.sun.end!, source: 'sunset to sunrise' };
+    }
+    return { start: night.solarNoon, end: night.nextSolarNoon, source: 'solar noon to solar noon (the Sun does not set and rise on this night)' };
+  }
+
+  /**
+   * Bisect for the time in [low, high] where the hour angle relative to a reference crosses zero
+   */
+  private async refineCrossing(positionAt: PositionAt, observer: Observer, low: number, high: number, referenceHours: number): Promise<Date> {
+    while (high - low > REFINE_PRECISION_MS) {
+      const mid = (low + high) / 2;
+      const date = new Date(mid);
+      if (relativeHourAngle(await positionAt(date), observer, date, referenceHours) < 0) low = mid; else high = mid;
+    }
+    return new Date(Math.round((low + high) / 2));
+  }
+
+  /**
+   * Golden-section search for the highest altitude in [low, high]
+   */
+  private async refineMaximum(positionAt: PositionAt, observer: Observer, low: number, high: number): Promise<Date> {
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    const altitudeAt = async (t: number) => convertToAltAz(await positionAt(new Date(t)), observer, new Date(t)).altitude;
+    let a = high - ratio * (high - low);
+    let b = low + ratio * (high - low);
+    let altA = await altitudeAt(a);
+    let altB = await altitudeAt(b);
+    while (high - low > REFINE_PRECISION_MS) {
+      if (altA > altB) {
+        high = b; b = a; altB = altA;
+        a = high - ratio * (high - low);
+        altA = await altitudeAt(a);
+      } else {
+        low = a; a = b; altA = altB;
+        b = low + ratio * (high - low);
+        altB = await altitudeAt(b);
+      }
+    }
+    return new Date(Math.round((low + high) / 2));
+  }
+
+  private async sampleObject(objectName: string, sampleTimes: Date[], observer: Observer, profile: ObserverProfile, timeZone: string) {
+    const resolved = resolveObjectName(objectName);
+    const moving = !!SOLAR_SYSTEM_OBJECTS[resolved.key] || MINOR_BODY_CATALOG.has(resolved.key);
+    // Catalog objects barely move in a night; their position at mid-range is used throughout
+    const midTime = sampleTimes[Math.floor(sampleTimes.length / 2)];
+    const fixedPosition = moving ? null : await getEquatorialCoordinates(resolved.key, midTime);
+    const positionAt: PositionAt = async date => fixedPosition ?? getEquatorialCoordinates(resolved.key, date, observer);
+
+    const checkLocalHorizon = hasLocalHorizon(profile);
+    const formatPoint = (date: Date, position: EquatorialCoordinates) => {
+      const altAz = convertToAltAz(position, observer, date);
+      const mass = airmass(altAz.altitude);
+      return {
+        time: date.toISOString(),
+        timeLocal: formatInTimeZone(date, timeZone),
+        altitudeDegrees: round(altAz.altitude, 2),
+        azimuthDegrees: round(altAz.azimuth, 2),
+        airmass: mass === null ? null : round(mass, 3),
+        ...(checkLocalHorizon && { aboveLocalHorizon: isAboveLocalHorizon(profile, altAz) }),
+      };
+    };
+
+    const positions = await Promise.all(sampleTimes.map(positionAt));
+    const samples = sampleTimes.map((date, i) => formatPoint(date, positions[i]));
+
+    // Meridian crossings: the hour angle passes 0h (upper) or 12h (lower) between two samples
+    const meridianCrossings = [];
+    for (const [type, referenceHours] of [['upper', 0], ['lower', 12]] as const) {
+      let previous = relativeHourAngle(positions[0], observer, sampleTimes[0], referenceHours);
+      for (let i = 1; i < sampleTimes.length; i++) {
+        const current = relativeHourAngle(positions[i], observer, sampleTimes[i], referenceHours);
+        // A jump from +12h to -12h is the wrap-around on the opposite side, not a crossing
+        if (previous < 0 && current >= 0 && current - previous < 12) {
+          const time = await this.refineCrossing(positionAt, observer, sampleTimes[i - 1].getTime(), sampleTimes[i].getTime(), referenceHours);
+          meridianCrossings.push({ type, ...formatPoint(time, await positionAt(time)) });
+        }
+        previous = current;
+      }
+    }
+    meridianCrossings.sort((a, b) => a.time.localeCompare(b.time));
+
+    // Maximum altitude: refine around the highest sample; at the range edges it stays on the edge
+    let best = 0;
+    samples.forEach((sample, i) => {
+      if (sample.altitudeDegrees > samples[best].altitudeDegrees) best = i;
+    });
+    let maxTime = sampleTimes[best];
+    const atRangeEdge = best === 0 || best === sampleTimes.length - 1;
+    if (!atRangeEdge) {
+      maxTime = await this.refineMaximum(positionAt, observer, sampleTimes[best - 1].getTime(), sampleTimes[best + 1].getTime());
+    }
+    const maxAltitude = formatPoint(maxTime, await positionAt(maxTime));
+
+    const samplesAbove = samples.filter(s => s.altitudeDegrees > 0).length;
+    return {
+      object: objectName,
+      status: 'Success',
+      ...(resolved.matchedBy !== 'exact' && { resolvedAs: resolved.displayName, matchedBy: resolved.matchedBy }),
+      maxAltitude: { ...maxAltitude, atRangeEdge },
+      meridianCrossings,
+      aboveHorizonSamples: samplesAbove,
+      ...(checkLocalHorizon && { aboveLocalHorizonSamples: samples.filter(s => s.aboveLocalHorizon).length }),
+      samples,
+    };
+  }
+
+  async execute(params: GetAltitudeCurveInput) {
+    let context: ObservationContext;
+    let window;
+    try {
+      context = resolveObservationContext(params);
+      window = this.resolveWindow(params, context);
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to compute altitude curve: ${error.message}`);
+    }
+
+    if ('error' in window) {
+      return { status: 'InvalidTimeRange', summaryMessage: window.error };
+    }
+
+    const { observer, profile, timeZone } = context;
+    const { start, end, source } = window;
+    const rangeHours = (end.getTime() - start.getTime()) / 3600000;
+    if (rangeHours > MAX_WINDOW_HOURS) {
+      return { status: 'InvalidTimeRange', summaryMessage: `The time range must be at most ${MAX_WINDOW_HOURS} hours long.` };
+    }
+
+    const stepMs = params.stepMinutes! * 60000;
+    const sampleTimes: Date[] = [];
+    for (let t = start.getTime(); t < end.getTime(); t += stepMs) {
+      sampleTimes.push(new Date(t));
+    }
+    sampleTimes.push(end);
+    if (sampleTimes.length > MAX_SAMPLES) {
+      return {
+        status: 'InvalidTimeRange',
+        summaryMessage: `A ${params.stepMinutes}-minute step gives ${sampleTimes.length} samples, more than the limit of ${MAX_SAMPLES}. Use a larger stepMinutes or a shorter time range.`,
+      };
+    }
+
+    try {
+      const curves = [];
+      for (const objectName of params.objects) {
+        try {
+          curves.push(await this.sampleObject(objectName, sampleTimes, observer, profile, timeZone));
+        } catch (error: any) {
+          if (isStructuredInputError(error)) {
+            curves.push({ object: objectName, ...error.toResponse() });
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      const formatTime = (date: Date) => ({ utc: date.toISOString(), local: formatInTimeZone(date, timeZone) });
+      const succeeded = curves.filter(c => c.status === 'Success').length;
+      return {
+        status: succeeded === curves.length ? 'Success' : succeeded > 0 ? 'PartialSuccess' : 'NoObjectsResolved',
+        observer: profile.name,
+        timeRange: {
+          source,
+          start: formatTime(start),
+          end: formatTime(end),
+          durationHours: round(rangeHours, 2),
+          stepMinutes: params.stepMinutes,
+        },
+        twilightPeriods: getSkyPhasePeriods(observer, start, end).map(period => ({
+          phase: period.phase,
+          start: formatTime(period.start),
+          end: formatTime(period.end),
+        })),
+        objects: curves,
+        summaryMessage: `Sampled ${succeeded} of ${curves.length} object(s) every ${params.stepMinutes} minutes from ${formatInTimeZone(start, timeZone)} to ${formatInTimeZone(end, timeZone)}.`,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to compute altitude curve: ${error.message}`);
+    }
+  }
+}
+
+export default GetAltitudeCurveTool;
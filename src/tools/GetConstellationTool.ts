@@ -0,0 +1,188 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import {
+  getEquatorialCoordinates,
+  resolveConstellationFigure,
+  EquatorialCoordinates,
+  StarRecord,
+} from '../utils/astronomy.js';
+import { STAR_CATALOG } from '../utils/catalogs.js';
+import { findConstellation, findConstellationAt, CONSTELLATIONS, ConstellationName } from '../utils/constellations.js';
+import { formatInTimeZone, DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+
+interface GetConstellationInput {
+  constellation?: string;
+  objectName?: string;
+  rightAscension?: number;
+  declination?: number;
+  brightestStarCount?: number;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function describeStar(star: StarRecord) {
+  return {
+    name: star.name!,
+    ...(star.magnitude !== undefined && { magnitude: round(star.magnitude, 2) }),
+    rightAscensionHours: round(star.rightAscension, 4),
+    declinationDegrees: round(star.declination, 3),
+  };
+}
+
+class GetConstellationTool extends MCPTool<GetConstellationInput> {
+  name = 'getConstellation';
+  description =
+    "Identifies the IAU constellation containing an object or a J2000 position, using the official boundaries (drawn in B1875 coordinates), or looks a constellation up by name. Returns its name, genitive and abbreviation, the stick figure as lines between catalog stars (names, magnitudes and positions, for describing asterisms and drawing charts), and its brightest stars. Use listCelestialObjects with the constellation filter to list everything inside a constellation.";
+
+  protected schema = {
+    constellation: {
+      type: z.string().optional(),
+      description: "Constellation name, genitive or IAU abbreviation (e.g. 'Cygnus', 'Cygni', 'Cyg'). Give this, objectName, or rightAscension and declination.",
+    },
+    objectName: {
+      type: z.string().optional(),
+      description: "Name of an object whose constellation to find (e.g. 'M57', 'Deneb', 'Mars').",
+    },
+    rightAscension: {
+      type: z.number().min(0).max(24).optional(),
+      description: 'Right ascension in hours (J2000), used with declination to find the constellation at a position.',
+    },
+    declination: {
+      type: z.number().min(-90).max(90).optional(),
+      description: 'Declination in degrees (J2000), used with rightAscension.',
+    },
+    brightestStarCount: {
+      type: z.number().int().min(0).max(50).optional().default(10),
+      description: 'Number of brightest catalog stars inside the boundaries to list. Default: 10.',
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + ' Sets the position of a solar system body or comet given as objectName.',
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+  };
+
+  /**
+   * The brightest cataloged stars inside a constellation's boundaries, brightest first
+   */
+  private brightestStars(constellation: ConstellationName, count: number): StarRecord[] {
+    if (count === 0) return [];
+    const seen = new Set<string>();
+    const stars: StarRecord[] = [];
+    for (const star of STAR_CATALOG.values()) {
+      // Several catalog keys can share one star; the Sun (HYG id 0) has no fixed position
+      if (star.magnitude === undefined || star.hygId === '0' || seen.has(star.name!)) continue;
+      seen.add(star.name!);
+      stars.push(star);
+    }
+    stars.sort((a, b) => a.magnitude! - b.magnitude!);
+
+    const inside: StarRecord[] = [];
+    for (const star of stars) {
+      if (findConstellationAt(star)?.abbreviation !== constellation.abbreviation) continue;
+      inside.push(star);
+      if (inside.length >= count) break;
+    }
+    return inside;
+  }
+
+  async execute(params: GetConstellationInput) {
+    const hasCoordinates = params.rightAscension !== undefined || params.declination !== undefined;
+    const givenInputs = [!!params.constellation, !!params.objectName, hasCoordinates].filter(Boolean).length;
+    if (givenInputs !== 1) {
+      return {
+        status: 'InvalidInput',
+        summaryMessage: 'Give exactly one of constellation, objectName, or rightAscension and declination.',
+      };
+    }
+    if (hasCoordinates && (params.rightAscension === undefined || params.declination === undefined)) {
+      return { status: 'InvalidInput', summaryMessage: 'Give both rightAscension (hours) and declination (degrees).' };
+    }
+
+    let context: ObservationContext;
+    let position: EquatorialCoordinates | undefined;
+    try {
+      context = resolveObservationContext({ dateTime: params.dateTime, timeZone: params.timeZone });
+      if (params.objectName) {
+        position = await getEquatorialCoordinates(params.objectName, context.date);
+      } else if (hasCoordinates) {
+        position = { rightAscension: params.rightAscension!, declination: params.declination! };
+      }
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return { ...(params.objectName && { object: params.objectName }), ...error.toResponse() };
+      }
+      throw new Error(`Failed to look up constellation: ${error.message}`);
+    }
+
+    let constellation: ConstellationName | undefined;
+    if (position) {
+      constellation = findConstellationAt(position);
+      if (!constellation) {
+        return {
+          status: 'BoundariesUnavailable',
+          summaryMessage: 'The constellation boundary table could not be loaded; see the server log.',
+        };
+      }
+    } else {
+      constellation = findConstellation(params.constellation!);
+      if (!constellation) {
+        return {
+          status: 'UnknownConstellation',
+          constellation: params.constellation,
+          summaryMessage: `Unknown constellation "${params.constellation}". Use an IAU name, genitive or three-letter abbreviation.`,
+          availableConstellations: CONSTELLATIONS.map(c => c.name),
+        };
+      }
+    }
+
+    try {
+      const figure = resolveConstellationFigure(constellation);
+      const brightest = this.brightestStars(constellation, params.brightestStarCount ?? 10);
+      const { date, timeZone } = context;
+
+      const lookup = position && {
+        ...(params.objectName && { object: params.objectName }),
+        rightAscensionHours: round(position.rightAscension, 4),
+        declinationDegrees: round(position.declination, 3),
+        frame: 'J2000',
+        ...(params.objectName && { time: date.toISOString(), timeLocal: formatInTimeZone(date, timeZone) }),
+      };
+      const where = params.objectName ?? (position ? `RA ${position.rightAscension.toFixed(2)}h, Dec ${position.declination.toFixed(2)}°` : undefined);
+
+      return {
+        status: 'Success',
+        ...(lookup && { position: lookup }),
+        constellation: {
+          abbreviation: constellation.abbreviation,
+          name: constellation.name,
+          genitive: constellation.genitive,
+        },
+        figure: {
+          lineCount: figure.length,
+          lines: figure.map(line => line.map(describeStar)),
+        },
+        brightestStars: brightest.map(describeStar),
+        summaryMessage:
+          (where ? `${where} is in ${constellation.name} (${constellation.abbreviation}).` : `${constellation.name} (${constellation.abbreviation}), genitive ${constellation.genitive}.`) +
+          (figure.length > 0
+            ? ` Its stick figure has ${figure.length} line${figure.length === 1 ? '' : 's'}.`
+            : ' No stick-figure stars were found in the loaded star catalog.') +
+          (brightest.length > 0 ? ` Brightest star: ${brightest[0].name}.` : ''),
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to look up constellation: ${error.message}`);
+    }
+  }
+}
+
+export default GetConstellationTool;
@@ -0,0 +1,54 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { getEquipmentProfile, computeOptics, EquipmentProfileError } from '../utils/equipment.js';
+
+interface GetEquipmentOpticsInput {
+  equipment: string;
+}
+
+class GetEquipmentOpticsTool extends MCPTool<GetEquipmentOpticsInput> {
+  name = 'getEquipmentOptics';
+  description = "Reports the optical figures derived from a saved equipment profile: effective focal length and focal ratio, limiting magnitude, resolving power (Dawes limit) and useful magnification range of the telescope; magnification, true field of view and exit pupil with the eyepiece; image scale and field of view of the camera; and the finder's field and limiting magnitude.";
+
+  protected schema = {
+    equipment: {
+      type: z.string().min(1),
+      description: "Name of a saved equipment profile (see listEquipmentProfiles)."
+    }
+  };
+
+  async execute(params: GetEquipmentOpticsInput) {
+    try {
+      const profile = getEquipmentProfile(params.equipment);
+      const optics = computeOptics(profile);
+
+      const highlights: string[] = [];
+      if (optics.eyepiece) {
+        highlights.push(`${optics.eyepiece.magnification}x with a ${optics.eyepiece.trueFovDegrees}° true field and ${optics.eyepiece.exitPupilMm} mm exit pupil`);
+      }
+      if (optics.camera) {
+        highlights.push(`${optics.camera.imageScaleArcsecPerPixel}"/pixel over ${optics.camera.fovWidthDegrees}° x ${optics.camera.fovHeightDegrees}°`);
+      }
+      if (optics.telescope) {
+        highlights.push(`limiting magnitude about ${optics.telescope.limitingMagnitude}`);
+      }
+      if (optics.finder) {
+        highlights.push(`finder field ${optics.finder.trueFovDegrees}°`);
+      }
+
+      return {
+        status: 'Success',
+        profile,
+        optics,
+        summaryMessage: `${profile.name}: ${highlights.join('; ')}.`
+      };
+    } catch (error: any) {
+      if (error instanceof EquipmentProfileError) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to compute equipment optics: ${error.message}`);
+    }
+  }
+}
+
+export default GetEquipmentOpticsTool;
@@ -0,0 +1,148 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { formatInTimeZone, DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { getLunarEphemeris, findTerminatorFeatures, getLunarFeatures } from '../utils/moon.js';
+
+interface GetLunarReportInput {
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+  terminatorWindowDegrees?: number;
+  maxFeatures?: number;
+}
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+class GetLunarReportTool extends MCPTool<GetLunarReportInput> {
+  name = 'getLunarReport';
+  description =
+    "Returns a lunar observing report for the observer's location and time: the Moon's age and phase, topocentric and geocentric distance and apparent diameter, libration in longitude and latitude (which limb regions are tilted into view), the position angle of the bright limb, the Sun's selenographic colongitude, and named craters, maria and mountains near the terminator where low sunlight shows the most relief.";
+
+  protected schema = {
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION,
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+    terminatorWindowDegrees: {
+      type: z.number().min(0.5).max(30).optional().default(5),
+      description: 'How far from the terminator a feature may lie to be listed, in degrees of selenographic arc (about 30 km per degree). Default: 5.',
+    },
+    maxFeatures: {
+      type: z.number().int().min(1).max(100).optional().default(20),
+      description: 'Maximum number of terminator features to list, closest to the terminator first. Default: 20.',
+    },
+  };
+
+  async execute(params: GetLunarReportInput) {
+    let context: ObservationContext;
+    try {
+      context = resolveObservationContext(params);
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return error.toResponse();
+      }
+      throw error;
+    }
+
+    try {
+      const { date, observer, profile, timeZone } = context;
+      const windowDegrees = params.terminatorWindowDegrees ?? 5;
+      const ephemeris = getLunarEphemeris(observer, date);
+      const features = findTerminatorFeatures(ephemeris, windowDegrees);
+      const listed = features.slice(0, params.maxFeatures ?? 20);
+
+      const librationLongitude = ephemeris.libration.longitude;
+      const librationLatitude = ephemeris.libration.latitude;
+      const favoredLimbs = [
+        librationLatitude >= 0 ? 'north' : 'south',
+        librationLongitude >= 0 ? 'east' : 'west',
+      ];
+      const aboveHorizon = ephemeris.altitude > 0;
+      const illuminatedPercent = round(ephemeris.illuminatedFraction * 100, 1);
+
+      let summaryMessage =
+        `${ephemeris.phaseName}, ${ephemeris.ageDays.toFixed(1)} days old and ${illuminatedPercent}% illuminated. ` +
+        `Colongitude ${ephemeris.colongitude.toFixed(1)}°; libration favors the ${favoredLimbs.join(' and ')} limbs.`;
+      if (listed.length > 0) {
+        summaryMessage += ` Near the terminator: ${listed.slice(0, 5).map(feature => feature.name).join(', ')}.`;
+      } else if (getLunarFeatures().length === 0) {
+        summaryMessage += ' The lunar feature list is unavailable, so no terminator features are listed.';
+      } else {
+        summaryMessage += ' No listed features lie near the terminator.';
+      }
+      if (!aboveHorizon) {
+        summaryMessage += ' The Moon is below the horizon at this time.';
+      }
+
+      return {
+        observer: profile.name,
+        dateTime: date.toISOString(),
+        dateTimeLocal: formatInTimeZone(date, timeZone),
+        timeZone,
+        age: {
+          days: round(ephemeris.ageDays, 2),
+          previousNewMoon: ephemeris.previousNewMoon.toISOString(),
+          previousNewMoonLocal: formatInTimeZone(ephemeris.previousNewMoon, timeZone),
+        },
+        phase: {
+          name: ephemeris.phaseName,
+          illuminatedPercent,
+          waxing: ephemeris.waxing,
+          elongationDegrees: round(ephemeris.elongation, 2),
+        },
+        position: {
+          altitudeDegrees: round(ephemeris.altitude, 2),
+          azimuthDegrees: round(ephemeris.azimuth, 2),
+          aboveHorizon,
+        },
+        distance: {
+          topocentricKm: Math.round(ephemeris.topocentricDistanceKm),
+          geocentricKm: Math.round(ephemeris.geocentricDistanceKm),
+        },
+        apparentDiameter: {
+          topocentricArcmin: round(ephemeris.topocentricDiameter * 60, 2),
+          geocentricArcmin: round(ephemeris.geocentricDiameter * 60, 2),
+        },
+        libration: {
+          longitudeDegrees: round(librationLongitude, 2),
+          latitudeDegrees: round(librationLatitude, 2),
+          note: `Positive longitude tilts the east limb (Mare Crisium side) toward the Earth; positive latitude tilts the north limb. The ${favoredLimbs.join(' and ')} limb regions are favorably placed.`,
+        },
+        brightLimbPositionAngleDegrees: round(ephemeris.brightLimbPositionAngle, 1),
+        colongitudeDegrees: round(ephemeris.colongitude, 2),
+        subsolarLatitudeDegrees: round(ephemeris.subsolarPoint.latitude, 2),
+        terminatorFeatures: {
+          windowDegrees,
+          totalFound: features.length,
+          features: listed.map(feature => ({
+            name: feature.name,
+            type: feature.type,
+            latitudeDegrees: feature.latitude,
+            longitudeDegrees: feature.longitude,
+            diameterKm: feature.diameterKm,
+            terminator: feature.terminator,
+            sunAltitudeDegrees: round(feature.sunAltitude, 2),
+            illuminated: feature.illuminated,
+          })),
+        },
+        summaryMessage,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get lunar report: ${error.message}`);
+    }
+  }
+}
+
+export default GetLunarReportTool;
@@ -0,0 +1,121 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { formatInTimeZone, DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { getNightTimeline, TwilightPhase, TimeInterval } from '../utils/night.js';
+
+interface GetNightInfoInput {
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+class GetNightInfoTool extends MCPTool<GetNightInfoInput> {
+  name = 'getNightInfo';
+  description =
+    "Returns the twilight and darkness timeline for a night at the observer's location: sunset and sunrise, civil (-6°), nautical (-12°) and astronomical (-18°) dusk and dawn, the length of true darkness, moonrise/moonset, and the 'moonless dark' intervals when the Sun is below -18° and the Moon is below the horizon. At high latitudes, phases that never end or never begin are reported with an explicit flag instead of times.";
+
+  protected schema = {
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + ' The night containing or following this time is described.',
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+  };
+
+  private formatTime(date: Date | null, timeZone: string) {
+    if (!date) return null;
+    return { utc: date.toISOString(), local: formatInTimeZone(date, timeZone) };
+  }
+
+  private formatPhase(phase: TwilightPhase, timeZone: string, startLabel: string, endLabel: string) {
+    let note: string | undefined;
+    if (phase.condition === 'SunAlwaysAbove') {
+      note = 'The Sun stays above this altitude all night; this phase never begins.';
+    } else if (phase.condition === 'SunAlwaysBelow') {
+      note = 'The Sun stays below this altitude all day; this phase lasts the whole period.';
+    } else if (!phase.occurs) {
+      note = 'Only one crossing occurs on this night.';
+    }
+    return {
+      occurs: phase.occurs,
+      ...(phase.condition && { condition: phase.condition }),
+      [startLabel]: this.formatTime(phase.start, timeZone),
+      [endLabel]: this.formatTime(phase.end, timeZone),
+      ...(note && { note }),
+    };
+  }
+
+  private durationHours(interval: TimeInterval) {
+    return parseFloat(((interval.end.getTime() - interval.start.getTime()) / 3600000).toFixed(2));
+  }
+
+  async execute(params: GetNightInfoInput) {
+    let context: ObservationContext;
+    try {
+      context = resolveObservationContext(params);
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return error.toResponse();
+      }
+      throw error;
+    }
+
+    try {
+      const { date, observer, profile, timeZone } = context;
+      const night = getNightTimeline(observer, date);
+      const moonlessHours = night.moonlessDarkness.reduce((sum, interval) => sum + this.durationHours(interval), 0);
+
+      return {
+        observer: profile.name,
+        location: `${profile.latitude.toFixed(4)}°, ${profile.longitude.toFixed(4)}°`,
+        timeZone,
+        night: {
+          solarNoon: this.formatTime(night.solarNoon, timeZone),
+          solarMidnight: this.formatTime(night.solarMidnight, timeZone),
+          nextSolarNoon: this.formatTime(night.nextSolarNoon, timeZone),
+        },
+        sun: this.formatPhase(night.sun, timeZone, 'sunset', 'sunrise'),
+        civilTwilight: this.formatPhase(night.civil, timeZone, 'dusk', 'dawn'),
+        nauticalTwilight: this.formatPhase(night.nautical, timeZone, 'dusk', 'dawn'),
+        astronomicalTwilight: this.formatPhase(night.astronomical, timeZone, 'dusk', 'dawn'),
+        darkness: night.darkness
+          ? {
+              occurs: true,
+              start: this.formatTime(night.darkness.start, timeZone),
+              end: this.formatTime(night.darkness.end, timeZone),
+              durationHours: this.durationHours(night.darkness),
+            }
+          : {
+              occurs: false,
+              durationHours: 0,
+              note: 'The Sun does not reach -18° on this night; the sky never gets fully dark.',
+            },
+        moon: {
+          rise: this.formatTime(night.moonRiseSet.rise, timeZone),
+          set: this.formatTime(night.moonRiseSet.set, timeZone),
+        },
+        moonlessDarkness: {
+          totalHours: parseFloat(moonlessHours.toFixed(2)),
+          intervals: night.moonlessDarkness.map(interval => ({
+            start: this.formatTime(interval.start, timeZone),
+            end: this.formatTime(interval.end, timeZone),
+            durationHours: this.durationHours(interval),
+          })),
+        },
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get night information: ${error.message}`);
+    }
+  }
+}
+
+export default GetNightInfoTool;
@@ -0,0 +1,188 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { formatInTimeZone, DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { hasLocalHorizon, isAboveLocalHorizon } from '../utils/horizon.js';
+import {
+  findSatellites,
+  findSatellitePasses,
+  PassPoint,
+  SatellitePass,
+  SATELLITE_CATALOG,
+  SATELLITE_VISIBILITY_SUN_ALTITUDE,
+} from '../utils/satellites.js';
+
+interface GetSatellitePassesInput {
+  satellite: string;
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+  days?: number;
+  minAltitude?: number;
+  visibleOnly?: boolean;
+  maxSatellites?: number;
+}
+
+// Element sets older than this give pass times that can be off by minutes
+const STALE_TLE_DAYS = 14;
+
+class GetSatellitePassesTool extends MCPTool<GetSatellitePassesInput> {
+  name = 'getSatellitePasses';
+  description =
+    "Lists upcoming passes of an artificial satellite (e.g. the ISS) over the observer, propagated with SGP4 from TLE files in the data directory. Each pass gives rise, culmination and set times with azimuths and altitudes, and whether it is visible to the eye: the satellite sunlit while the observer's sky is dark (Sun below -6°) and clear of the observer profile's local horizon.";
+
+  protected schema = {
+    satellite: {
+      type: z.string(),
+      description: "Satellite name as it appears in the TLE file (e.g. 'ISS (ZARYA)'), its NORAD catalog number (e.g. '25544'), or part of a name (e.g. 'starlink') to match several satellites.",
+    },
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + ' Passes are searched from this time on.',
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+    days: {
+      type: z.number().positive().max(10).optional().default(3),
+      description: 'Number of days to search. Default: 3.',
+    },
+    minAltitude: {
+      type: z.number().min(0).max(89).optional().default(10),
+      description: 'Skip passes whose highest point stays below this altitude in degrees. Default: 10.',
+    },
+    visibleOnly: {
+      type: z.boolean().optional().default(false),
+      description: 'Only list passes that are visible to the eye. Default: false.',
+    },
+    maxSatellites: {
+      type: z.number().int().positive().max(20).optional().default(5),
+      description: 'Maximum number of satellites to report when the name matches several. Default: 5.',
+    },
+  };
+
+  private formatPoint(point: PassPoint, timeZone: string) {
+    return {
+      time: point.time.toISOString(),
+      timeLocal: formatInTimeZone(point.time, timeZone),
+      altitudeDegrees: parseFloat(point.altitude.toFixed(1)),
+      azimuthDegrees: parseFloat(point.azimuth.toFixed(1)),
+    };
+  }
+
+  private formatPass(pass: SatellitePass, timeZone: string, checkLocalHorizon: boolean) {
+    const visible = pass.visibleStart !== null && pass.visibleEnd !== null;
+    return {
+      rise: this.formatPoint(pass.rise, timeZone),
+      culmination: this.formatPoint(pass.culmination, timeZone),
+      set: this.formatPoint(pass.set, timeZone),
+      maxAltitudeDegrees: parseFloat(pass.culmination.altitude.toFixed(1)),
+      durationMinutes: parseFloat(((pass.set.time.getTime() - pass.rise.time.getTime()) / 60000).toFixed(1)),
+      sunlitAtCulmination: pass.sunlitAtCulmination,
+      observerInDarkness: pass.observerInDarkness,
+      visible,
+      ...(visible && {
+        visibleFrom: this.formatPoint(pass.visibleStart!, timeZone),
+        visibleUntil: this.formatPoint(pass.visibleEnd!, timeZone),
+      }),
+      ...(checkLocalHorizon && {
+        localHorizon: {
+          clearFrom: this.formatPoint(pass.clearStart!, timeZone),
+          clearUntil: this.formatPoint(pass.clearEnd!, timeZone),
+        },
+      }),
+    };
+  }
+
+  async execute(params: GetSatellitePassesInput) {
+    let context: ObservationContext;
+    try {
+      context = resolveObservationContext(params);
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return { satellite: params.satellite, ...error.toResponse() };
+      }
+      throw error;
+    }
+
+    if (SATELLITE_CATALOG.size === 0) {
+      return {
+        status: 'NoSatelliteData',
+        satellite: params.satellite,
+        summaryMessage: "No TLE files were found. Place files with a .tle extension in the data directory (e.g. https://celestrak.org/NORAD/elements/gp.php?GROUP=stations&FORMAT=tle saved as data/stations.tle) or run 'npm run fetch-catalogs'.",
+      };
+    }
+
+    const matches = findSatellites(params.satellite);
+    if (matches.length === 0) {
+      return {
+        status: 'UnknownSatellite',
+        satellite: params.satellite,
+        summaryMessage: `No satellite named "${params.satellite}" was found in the loaded TLE files.`,
+      };
+    }
+
+    try {
+      const { date, observer, profile, timeZone } = context;
+      const end = new Date(date.getTime() + params.days! * 86400000);
+      const minAltitude = Math.max(params.minAltitude!, profile.horizonAltitude ?? 0);
+      const checkLocalHorizon = hasLocalHorizon(profile);
+      const isClear = checkLocalHorizon ? (point: PassPoint) => isAboveLocalHorizon(profile, point) : undefined;
+
+      const satellites = matches.slice(0, params.maxSatellites).map(record => {
+        let passes = findSatellitePasses(record, observer, date, end, minAltitude, isClear)
+          .map(pass => this.formatPass(pass, timeZone, checkLocalHorizon));
+        if (params.visibleOnly) {
+          passes = passes.filter(pass => pass.visible);
+        }
+        const tleAgeDays = (date.getTime() - record.epoch.getTime()) / 86400000;
+        return {
+          name: record.name,
+          catalogNumber: record.catalogNumber,
+          tleEpoch: record.epoch.toISOString(),
+          tleAgeDays: parseFloat(tleAgeDays.toFixed(1)),
+          ...(Math.abs(tleAgeDays) > STALE_TLE_DAYS && {
+            warning: `The element set is ${Math.abs(tleAgeDays).toFixed(0)} days from the search time; predicted times may be off by minutes. Refresh the TLE file.`,
+          }),
+          passCount: passes.length,
+          passes,
+        };
+      });
+
+      const totalPasses = satellites.reduce((sum, sat) => sum + sat.passCount, 0);
+      const clearOfHorizon = checkLocalHorizon ? ' that clear the local horizon' : '';
+      return {
+        status: totalPasses > 0 ? 'Success' : 'NoPassesFound',
+        observer: profile.name,
+        location: `${profile.latitude.toFixed(4)}°, ${profile.longitude.toFixed(4)}°`,
+        searchStart: date.toISOString(),
+        searchStartLocal: formatInTimeZone(date, timeZone),
+        searchEnd: end.toISOString(),
+        searchEndLocal: formatInTimeZone(end, timeZone),
+        filters: {
+          minAltitudeDegrees: minAltitude,
+          localHorizon: checkLocalHorizon,
+          visibleOnly: params.visibleOnly,
+          darknessSunAltitudeDegrees: SATELLITE_VISIBILITY_SUN_ALTITUDE,
+        },
+        ...(matches.length > satellites.length && {
+          note: `${matches.length} satellites match "${params.satellite}"; showing the first ${satellites.length}.`,
+        }),
+        satellites,
+        summaryMessage: totalPasses > 0
+          ? `Found ${totalPasses} pass(es) above ${minAltitude}°${clearOfHorizon} in the next ${params.days} day(s).`
+          : `No ${params.visibleOnly ? 'visible ' : ''}passes above ${minAltitude}°${clearOfHorizon} in the next ${params.days} day(s).`,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to compute satellite passes: ${error.message}`);
+    }
+  }
+}
+
+export default GetSatellitePassesTool;
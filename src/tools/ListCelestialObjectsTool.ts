@@ -1,9 +1,16 @@
 import { MCPTool } from 'mcp-framework';
 import { z } from 'zod';
-import { listCelestialObjects } from '../utils/astronomy.js';
+import { listCelestialObjects, getEquatorialCoordinates, EquatorialCoordinates } from '../utils/astronomy.js';
+import { DSO_CATALOG, STAR_CATALOG } from '../utils/catalogs.js';
+import { DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { findConstellation, findConstellationAt, ConstellationName } from '../utils/constellations.js';
 
 interface ListCelestialObjectsInput {
   category?: string;
+  constellation?: string;
+  dateTime?: string;
+  timeZone?: string;
 }
 
 class ListCelestialObjectsTool extends MCPTool<ListCelestialObjectsInput> {
@@ -13,13 +20,81 @@ class ListCelestialObjectsTool extends MCPTool<ListCelestialObjectsInput> {
   protected schema = {
     category: {
       type: z.string().optional(),
-      description: "Optional. Filters the list by category. Valid categories are: 'planets' (for Solar System objects like Sun, Moon, and planets), 'stars', 'messier' (for Messier objects), 'ic' (for Index Catalogue objects), 'ngc' (for New General Catalogue objects), 'dso' (for all Deep Sky Objects, including Messier, IC, NGC, and others), or 'all' (to list objects from all available categories). If omitted, defaults to 'all'."
+      description: "Optional. Filters the list by category. Valid categories are: 'planets' (for Solar System objects like Sun, Moon, and planets), 'stars', 'messier' (for Messier objects), 'ic' (for Index Catalogue objects), 'ngc' (for New General Catalogue objects), 'dso' (for all Deep Sky Objects, including Messier, IC, NGC, and others), 'asteroids' and 'comets' (minor bodies loaded from MPC orbit files in the data directory), or 'all' (to list objects from all available categories). If omitted, defaults to 'all'."
+    },
+    constellation: {
+      type: z.string().optional(),
+      description: "Optional. Only list objects inside this constellation's IAU boundaries, given by name, genitive or abbreviation (e.g. 'Cygnus', 'Cygni', 'Cyg'). Solar system bodies and minor bodies are placed by their position at the observation time."
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + " Only used when constellation is given."
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION
     }
   };
 
+  private async filterByConstellation(
+    categories: { category: string, objects: string[] }[],
+    constellation: ConstellationName,
+    date: Date
+  ): Promise<{ category: string, objects: string[] }[]> {
+
+    const filtered: { category: string, objects: string[] }[] = [];
+    for (const cat of categories) {
+      // Solar system and minor bodies move; stars and DSOs are tested at their stored J2000 position
+      const moving = cat.category === 'Solar System Objects' || cat.category === 'Asteroids' || cat.category === 'Comets';
+      const insideObjects: string[] = [];
+      for (const objectName of cat.objects) {
+        let coords: EquatorialCoordinates | undefined;
+        if (moving) {
+          try {
+            coords = await getEquatorialCoordinates(objectName, date);
+          } catch (e) {
+            // Objects without a position (e.g. Earth) are in no constellation
+          }
+        } else {
+          // Listed names are the catalog keys with the first letter capitalized
+          const key = objectName.toLowerCase();
+          coords = STAR_CATALOG.get(key) ?? DSO_CATALOG.get(key);
+        }
+        if (coords && findConstellationAt(coords)?.abbreviation === constellation.abbreviation) {
+          insideObjects.push(objectName);
+        }
+      }
+      filtered.push({ category: cat.category, objects: insideObjects });
+    }
+    return filtered;
+  }
+
   async execute(params: ListCelestialObjectsInput) {
     try {
-        const allCategoriesFromAstronomy = listCelestialObjects(); // Get all categories from astronomy.ts
+        let allCategoriesFromAstronomy = listCelestialObjects(); // Get all categories from astronomy.ts
+
+        let constellation: ConstellationName | undefined;
+        if (params.constellation) {
+            constellation = findConstellation(params.constellation);
+            if (!constellation) {
+                return {
+                    message: `Unknown constellation "${params.constellation}". Use an IAU name, genitive or three-letter abbreviation, e.g. 'Cygnus', 'Cygni' or 'Cyg'.`
+                };
+            }
+        }
+
+        if (constellation) {
+            let context: ObservationContext;
+            try {
+                context = resolveObservationContext(params);
+            } catch (error: any) {
+                if (isStructuredInputError(error)) {
+                    return error.toResponse();
+                }
+                throw error;
+            }
+            allCategoriesFromAstronomy = await this.filterByConstellation(allCategoriesFromAstronomy, constellation, context.date);
+        }
 
         let relevantCategories: { category: string, objects: string[] }[] = [];
 
@@ -55,18 +130,20 @@ class ListCelestialObjectsTool extends MCPTool<ListCelestialObjectsInput> {
                     }))
                 };
             } else {
-                // For specific categories like 'planets', 'stars', 'messier', 'ic', 'ngc'
+                // For specific categories like 'planets', 'stars', 'messier', 'ic', 'ngc', 'asteroids', 'comets'
                 const targetCategory = allCategoriesFromAstronomy.find(cat => {
                     if (requestedCategoryLower === 'planets' && cat.category === 'Solar System Objects') return true;
                     if (requestedCategoryLower === 'stars' && cat.category === 'Stars') return true;
                     if (requestedCategoryLower === 'messier' && cat.category === 'Messier Objects') return true;
                     if (requestedCategoryLower === 'ic' && cat.category === 'IC Objects') return true;
                     if (requestedCategoryLower === 'ngc' && cat.category === 'NGC Objects') return true;
+                    if (requestedCategoryLower === 'asteroids' && cat.category === 'Asteroids') return true;
+                    if (requestedCategoryLower === 'comets' && cat.category === 'Comets') return true;
                     return false;
                 });
 
                 if (!targetCategory) {
-                    const userFriendlyCategories = ['planets', 'stars', 'messier', 'ic', 'ngc', 'dso', 'all'];
+                    const userFriendlyCategories = ['planets', 'stars', 'messier', 'ic', 'ngc', 'dso', 'asteroids', 'comets', 'all'];
                     return {
                         message: `No objects found in category "${params.category}". Available categories: ${userFriendlyCategories.join(', ')}.`,
                         availableCategories: userFriendlyCategories
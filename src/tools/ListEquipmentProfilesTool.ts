@@ -0,0 +1,25 @@
+import { MCPTool } from 'mcp-framework';
+import { listEquipmentProfiles } from '../utils/equipment.js';
+
+interface ListEquipmentProfilesInput {}
+
+class ListEquipmentProfilesTool extends MCPTool<ListEquipmentProfilesInput> {
+  name = 'listEquipmentProfiles';
+  description = "Lists the saved equipment profiles (telescope, eyepiece, Barlow/reducer, finder and camera setups). A profile name can be passed as the 'equipment' parameter of getStarHoppingPath and getEquipmentOptics.";
+
+  protected schema = {};
+
+  async execute(_params: ListEquipmentProfilesInput) {
+    try {
+      const profiles = listEquipmentProfiles();
+      return {
+        profileCount: profiles.length,
+        profiles
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list equipment profiles: ${error.message}`);
+    }
+  }
+}
+
+export default ListEquipmentProfilesTool;
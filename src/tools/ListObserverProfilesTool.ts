@@ -0,0 +1,34 @@
+import { MCPTool } from 'mcp-framework';
+import { listObserverProfiles, getSelectedProfileName } from '../utils/observers.js';
+
+interface ListObserverProfilesInput {}
+
+class ListObserverProfilesTool extends MCPTool<ListObserverProfilesInput> {
+  name = 'listObserverProfiles';
+  description = "Lists the saved observer profiles (observing sites) and shows which one is currently selected. The selected profile is used by all tools when no 'observer' parameter is given.";
+
+  protected schema = {};
+
+  async execute(_params: ListObserverProfilesInput) {
+    try {
+      const selected = getSelectedProfileName();
+      const profiles = listObserverProfiles();
+      return {
+        selected,
+        profileCount: profiles.length,
+        profiles: profiles.map(profile => ({
+          ...profile,
+          // The full horizon profile can run to hundreds of points; summarize it
+          ...(profile.horizon && {
+            horizon: { source: profile.horizon.source, pointCount: profile.horizon.points.length }
+          }),
+          isSelected: profile.name.toLowerCase() === selected.toLowerCase()
+        }))
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list observer profiles: ${error.message}`);
+    }
+  }
+}
+
+export default ListObserverProfilesTool;
@@ -0,0 +1,365 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import * as Astronomy from 'astronomy-engine';
+import {
+  getEquatorialCoordinates,
+  getMinorBodyCoordinates,
+  toApparentCoordinates,
+  convertToAltAz,
+  calculateAngularSeparation,
+  getObjectCategory,
+  getSolarSystemBody,
+  EquatorialCoordinates,
+  Observer,
+  ObjectCategory,
+  OBJECT_CATEGORIES,
+} from '../utils/astronomy.js';
+import { DSO_CATALOG, STAR_CATALOG, SOLAR_SYSTEM_OBJECTS } from '../utils/catalogs.js';
+import { listMinorBodies } from '../utils/minorBodies.js';
+import {
+  parseObservationTime,
+  formatInTimeZone,
+  DATE_TIME_PARAM_DESCRIPTION,
+  TIME_ZONE_PARAM_DESCRIPTION,
+} from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { findNightWindow, TWILIGHT_ALTITUDES } from '../utils/night.js';
+import { localHorizonAltitude } from '../utils/horizon.js';
+import { listParam } from '../utils/params.js';
+
+interface PlanObservingSessionInput {
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+  startTime?: string;
+  endTime?: string;
+  minAltitude?: number;
+  maxMagnitude?: number;
+  types?: string[];
+  includeStars?: boolean;
+  maxResults?: number;
+  sampleMinutes?: number;
+}
+
+interface Candidate {
+  name: string;
+  commonName?: string;
+  type?: string;
+  category: ObjectCategory;
+  magnitude?: number;
+  // Apparent coordinates per sample for moving bodies, or a single fixed position
+  positions: EquatorialCoordinates[];
+}
+
+// Maximum session window, to bound the amount of sampling
+const MAX_WINDOW_HOURS = 48;
+
+// Categories excluded by default: the Sun is never a night target, and 'other' covers OpenNGC
+// duplicates ('Dup'), non-existent objects ('NonEx') and unclassified entries
+const EXCLUDED_CATEGORIES: ObjectCategory[] = ['sun', 'other'];
+
+class PlanObservingSessionTool extends MCPTool<PlanObservingSessionInput> {
+  name = 'planObservingSession';
+  description =
+    "Plans an observing session: scans the deep sky, star and solar system catalogs and returns a ranked list of targets for a time window (default: tonight's astronomical dusk to dawn). Objects hidden by the observer's local horizon profile are treated as not observable. For each target it reports the best time (highest altitude in the window), the time spent above the altitude limit and the separation from the Moon.";
+
+  protected schema = {
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + ' The session covers the night containing or following this time.',
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+    startTime: {
+      type: z.string().optional(),
+      description: 'Optional. Start of a custom session window (same formats as dateTime). Must be given together with endTime.',
+    },
+    endTime: {
+      type: z.string().optional(),
+      description: 'Optional. End of a custom session window (same formats as dateTime). Must be given together with startTime.',
+    },
+    minAltitude: {
+      type: z.number().min(0).max(89).optional().default(30),
+      description: 'Minimum altitude in degrees for an object to count as observable. Default: 30.',
+    },
+    maxMagnitude: {
+      type: z.number().optional().default(10),
+      description: 'Faintest (largest) magnitude to include. Objects without a known magnitude are excluded. Default: 10.',
+    },
+    types: {
+      type: listParam(z.enum(OBJECT_CATEGORIES as [ObjectCategory, ...ObjectCategory[]])),
+      description: `Optional. Comma-separated object categories to include (e.g. 'galaxy, planetaryNebula'): ${OBJECT_CATEGORIES.join(', ')}. Defaults to all except the Sun.`,
+    },
+    includeStars: {
+      type: z.boolean().optional().default(false),
+      description: "Include individual stars from the star catalog. Default: false (stars are only included when 'star' is listed in types).",
+    },
+    maxResults: {
+      type: z.number().int().positive().max(200).optional().default(20),
+      description: 'Maximum number of targets to return. Default: 20.',
+    },
+    sampleMinutes: {
+      type: z.number().min(1).max(60).optional().default(10),
+      description: 'Sampling step in minutes used to evaluate altitudes through the window. Default: 10.',
+    },
+  };
+
+  /**
+   * Resolve the session window: explicit start/end, or the night around the reference time.
+   * Falls back to nautical, then civil, darkness where astronomical night does not occur.
+   */
+  private resolveWindow(params: PlanObservingSessionInput, context: ObservationContext) {
+    if (params.startTime || params.endTime) {
+      if (!params.startTime || !params.endTime) {
+        return { error: 'Both startTime and endTime must be given for a custom session window.' };
+      }
+      const start = parseObservationTime(params.startTime, { timeZone: context.timeZone }).date;
+      const end = parseObservationTime(params.endTime, { timeZone: context.timeZone }).date;
+      if (end.getTime() <= start.getTime()) {
+        return { error: 'endTime must be after startTime.' };
+      }
+      return { start, end, source: 'custom' };
+    }
+
+    for (const kind of ['astronomical', 'nautical', 'civil'] as const) {
+      const night = findNightWindow(context.observer, context.date, TWILIGHT_ALTITUDES[kind]);
+      if (night) {
+        return { start: night.start, end: night.end, source: `${kind} dusk to dawn` };
+      }
+    }
+    return {
+      error: 'The Sun does not set far enough for a dark window at this location and date. Provide startTime and endTime for a custom window.',
+    };
+  }
+
+  private async collectCandidates(params: PlanObservingSessionInput, observer: Observer, sampleTimes: Date[], midTime: Date): Promise<Candidate[]> {
+    const allowed = new Set<ObjectCategory>(
+      params.types && params.types.length > 0
+        ? (params.types as ObjectCategory[])
+        : OBJECT_CATEGORIES.filter(c => !EXCLUDED_CATEGORIES.includes(c) && (c !== 'star' || params.includeStars))
+    );
+    const candidates: Candidate[] = [];
+    const seenPositions = new Set<string>();
+
+    const addFixed = (entry: EquatorialCoordinates) => {
+      const name = entry.name ?? '';
+      const category = getObjectCategory(name, entry.type);
+      if (!allowed.has(category)) return;
+      if (entry.magnitude === undefined || entry.magnitude > params.maxMagnitude!) return;
+
+      // Catalogs store some objects under several keys (e.g. M31 and NGC224); keep the first
+      const positionKey = `${entry.rightAscension.toFixed(5)},${entry.declination.toFixed(5)}`;
+      if (seenPositions.has(positionKey)) return;
+      seenPositions.add(positionKey);
+
+      candidates.push({
+        name,
+        commonName: entry.commonName || undefined,
+        type: entry.type,
+        category,
+        magnitude: entry.magnitude,
+        positions: [toApparentCoordinates(entry, midTime)],
+      });
+    };
+
+    // Messier keys first so the duplicate check keeps the familiar designation
+    const dsoEntries = Array.from(DSO_CATALOG.entries()).sort(
+      ([a], [b]) => Number(!/^m\d+$/.test(a)) - Number(!/^m\d+$/.test(b))
+    );
+    for (const [, entry] of dsoEntries) addFixed(entry);
+    for (const entry of STAR_CATALOG.values()) addFixed(entry);
+
+    for (const bodyName of Object.keys(SOLAR_SYSTEM_OBJECTS)) {
+      const body = getSolarSystemBody(bodyName);
+      if (!body || body === Astronomy.Body.Earth) continue;
+      const category = getObjectCategory(bodyName);
+      if (!allowed.has(category)) continue;
+
+      const magnitude = Astronomy.Illumination(body, midTime).mag;
+      if (magnitude > params.maxMagnitude!) continue;
+
+      const positions: EquatorialCoordinates[] = [];
+      for (const t of sampleTimes) {
+        positions.push(toApparentCoordinates(await getEquatorialCoordinates(bodyName, t, observer), t));
+      }
+
+      candidates.push({
+        name: bodyName.charAt(0).toUpperCase() + bodyName.slice(1),
+        type: category === 'moon' ? 'Moon' : 'Planet',
+        category,
+        magnitude,
+        positions,
+      });
+    }
+
+    // Comets and asteroids barely move during a session; their position at mid-session, seen from
+    // the observer's site, is used throughout
+    for (const kind of ['asteroid', 'comet'] as const) {
+      if (!allowed.has(kind)) continue;
+      for (const body of listMinorBodies(kind)) {
+        const position = getMinorBodyCoordinates(body, midTime, observer);
+        if (position.magnitude === undefined || position.magnitude > params.maxMagnitude!) continue;
+        candidates.push({
+          name: body.name,
+          type: kind === 'comet' ? 'Comet' : 'Asteroid',
+          category: kind,
+          magnitude: position.magnitude,
+          positions: [toApparentCoordinates(position, midTime)],
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  async execute(params: PlanObservingSessionInput) {
+    let context: ObservationContext;
+    let window;
+    try {
+      context = resolveObservationContext(params);
+      window = this.resolveWindow(params, context);
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to plan observing session: ${error.message}`);
+    }
+
+    if ('error' in window) {
+      return { status: 'NoSessionWindow', summaryMessage: window.error };
+    }
+
+    const { observer, profile, timeZone } = context;
+    const { start, end, source } = window;
+    const windowHours = (end.getTime() - start.getTime()) / 3600000;
+    if (windowHours > MAX_WINDOW_HOURS) {
+      return { status: 'NoSessionWindow', summaryMessage: `Session window must be at most ${MAX_WINDOW_HOURS} hours long.` };
+    }
+
+    const stepMs = params.sampleMinutes! * 60000;
+    const sampleTimes: Date[] = [];
+    for (let t = start.getTime(); t <= end.getTime(); t += stepMs) {
+      sampleTimes.push(new Date(t));
+    }
+    const midTime = new Date((start.getTime() + end.getTime()) / 2);
+
+    // Per-sample local apparent sidereal time and Moon position, shared by all candidates
+    const localSiderealHours = sampleTimes.map(t => Astronomy.SiderealTime(t) + observer.longitude / 15);
+    const moonPositions = await Promise.all(sampleTimes.map(t => getEquatorialCoordinates('moon', t, observer)));
+    const moonApparent = moonPositions.map((m, i) => toApparentCoordinates(m, sampleTimes[i]));
+    const moonIllumination = Astronomy.Illumination(Astronomy.Body.Moon, midTime).phase_fraction;
+
+    const minAltitude = Math.max(params.minAltitude!, profile.horizonAltitude ?? 0);
+    const latRad = observer.latitude * Astronomy.DEG2RAD;
+    const sinLat = Math.sin(latRad);
+    const cosLat = Math.cos(latRad);
+    // Azimuth (north through east) from the hour angle and declination, for the local horizon profile
+    const azimuthOf = (hourAngle: number, decRad: number) => {
+      const azimuth = Math.atan2(-Math.sin(hourAngle) * Math.cos(decRad), Math.sin(decRad) * cosLat - Math.cos(decRad) * Math.cos(hourAngle) * sinLat);
+      return (azimuth * Astronomy.RAD2DEG + 360) % 360;
+    };
+
+    const candidates = await this.collectCandidates(params, observer, sampleTimes, midTime);
+    const ranked = [];
+
+    for (const candidate of candidates) {
+      // Quick rejection: a fixed object that never culminates above the limit
+      if (candidate.positions.length === 1) {
+        const maxPossibleAltitude = 90 - Math.abs(observer.latitude - candidate.positions[0].declination);
+        if (maxPossibleAltitude < minAltitude) continue;
+      }
+
+      // Geometric altitude from the hour angle; refraction is irrelevant above the altitude limit
+      let bestIndex = -1;
+      let bestAltitude = -90;
+      let samplesAbove = 0;
+      for (let i = 0; i < sampleTimes.length; i++) {
+        const pos = candidate.positions.length === 1 ? candidate.positions[0] : candidate.positions[i];
+        const hourAngle = (localSiderealHours[i] - pos.rightAscension) * Astronomy.HOUR2RAD;
+        const decRad = pos.declination * Astronomy.DEG2RAD;
+        const sinAlt = sinLat * Math.sin(decRad) + cosLat * Math.cos(decRad) * Math.cos(hourAngle);
+        const altitude = Math.asin(Math.max(-1, Math.min(1, sinAlt))) * Astronomy.RAD2DEG;
+        // Samples hidden behind the local horizon profile neither count nor make the best time
+        const hidden = !!profile.horizon && altitude <= localHorizonAltitude(profile, azimuthOf(hourAngle, decRad));
+        if (hidden) continue;
+        if (altitude >= minAltitude) samplesAbove++;
+        if (altitude > bestAltitude) {
+          bestAltitude = altitude;
+          bestIndex = i;
+        }
+      }
+      if (samplesAbove === 0) continue;
+
+      const bestTime = sampleTimes[bestIndex];
+      const bestPosition = candidate.positions.length === 1 ? candidate.positions[0] : candidate.positions[bestIndex];
+      const altAz = convertToAltAz(bestPosition, observer, bestTime);
+      const moonAltitude = convertToAltAz(moonApparent[bestIndex], observer, bestTime).altitude;
+      const moonSeparation = candidate.category === 'moon'
+        ? null
+        : calculateAngularSeparation(bestPosition, moonApparent[bestIndex]);
+      const hoursAboveLimit = Math.min(samplesAbove * stepMs / 3600000, windowHours);
+
+      // Score out of 100: altitude, time available, and Moon interference (weighted by illumination)
+      const moonPenalty = moonSeparation === null || moonAltitude <= 0
+        ? 0
+        : moonIllumination * Math.max(0, 1 - moonSeparation / 90);
+      const score =
+        40 * (bestAltitude / 90) +
+        40 * (hoursAboveLimit / windowHours) +
+        20 * (1 - moonPenalty);
+
+      ranked.push({
+        name: candidate.name,
+        ...(candidate.commonName && { commonName: candidate.commonName }),
+        type: candidate.type,
+        category: candidate.category,
+        ...(candidate.magnitude !== undefined && { magnitude: parseFloat(candidate.magnitude.toFixed(2)) }),
+        bestTime: bestTime.toISOString(),
+        bestTimeLocal: formatInTimeZone(bestTime, timeZone),
+        maxAltitudeDegrees: parseFloat(altAz.altitude.toFixed(1)),
+        azimuthAtBestDegrees: parseFloat(altAz.azimuth.toFixed(1)),
+        hoursAboveMinAltitude: parseFloat(hoursAboveLimit.toFixed(2)),
+        moonSeparationDegrees: moonSeparation === null ? null : parseFloat(moonSeparation.toFixed(1)),
+        moonAboveHorizonAtBest: moonAltitude > 0,
+        score: parseFloat(score.toFixed(1)),
+      });
+    }
+
+    ranked.sort((a, b) => b.score - a.score || (a.magnitude ?? Infinity) - (b.magnitude ?? Infinity));
+    const targets = ranked.slice(0, params.maxResults);
+
+    return {
+      status: targets.length > 0 ? 'Success' : 'NoTargetsFound',
+      observer: profile.name,
+      window: {
+        source,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        startLocal: formatInTimeZone(start, timeZone),
+        endLocal: formatInTimeZone(end, timeZone),
+        durationHours: parseFloat(windowHours.toFixed(2)),
+      },
+      filters: {
+        minAltitudeDegrees: minAltitude,
+        maxMagnitude: params.maxMagnitude,
+        types: params.types ?? 'all',
+      },
+      moonIlluminationPercent: parseFloat((moonIllumination * 100).toFixed(1)),
+      candidatesConsidered: candidates.length,
+      targetsAboveLimit: ranked.length,
+      targets,
+      summaryMessage: targets.length > 0
+        ? `Found ${ranked.length} target(s) above ${minAltitude}° between ${formatInTimeZone(start, timeZone)} and ${formatInTimeZone(end, timeZone)}; showing the top ${targets.length}.`
+        : `No targets matching the filters rise above ${minAltitude}° during the session window.`,
+    };
+  }
+}
+
+export default PlanObservingSessionTool;
@@ -0,0 +1,279 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Astronomy from 'astronomy-engine';
+import {
+  getEquatorialCoordinates,
+  getSolarSystemBody,
+  resolveConstellationFigure,
+  EquatorialCoordinates,
+} from '../utils/astronomy.js';
+import { SOLAR_SYSTEM_OBJECTS } from '../utils/catalogs.js';
+import { formatInTimeZone, DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { getEquipmentProfile, computeOptics } from '../utils/equipment.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+import { CONSTELLATIONS } from '../utils/constellations.js';
+import {
+  renderFinderChart,
+  ChartBody,
+  ChartConstellationLine,
+  ChartField,
+  ChartHopStar,
+  ChartOrientation,
+  CHART_ORIENTATIONS,
+} from '../utils/finderChart.js';
+import { listParam } from '../utils/params.js';
+import { DATA_DIR } from '../config.js';
+
+interface RenderFinderChartInput {
+  targetObjectName: string;
+  fieldDegrees?: number;
+  limitingMagnitude?: number;
+  dsoMagnitudeLimit?: number;
+  orientation?: ChartOrientation;
+  fovCirclesDegrees?: number[];
+  equipment?: string[];
+  hopPath?: string[];
+  constellationLines?: boolean;
+  sizePixels?: number;
+  outputPath?: string;
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+// Mean radii in km, for drawing the Sun and Moon to scale
+const BODY_RADII_KM: Record<string, number> = {
+  sun: 695700,
+  moon: 1737.4,
+};
+
+class RenderFinderChartTool extends MCPTool<RenderFinderChartInput> {
+  name = 'renderFinderChart';
+  description =
+    "Draws a printable finder chart as SVG, centered on a target: stars sized by magnitude down to a limiting magnitude, deep sky objects with symbols by type and true-size outlines from their catalog axes, the Sun, Moon and planets, constellation stick figures, field of view circles for given eyepieces or equipment profiles, and optionally the star-hop route from getStarHoppingPath. The chart can be drawn north up, mirror-reversed (star diagonal on an SCT or refractor) or inverted (Newtonian). The SVG is saved to a file when outputPath is given, and returned inline otherwise.";
+
+  protected schema = {
+    targetObjectName: {
+      type: z.string(),
+      description: 'Name of the object at the center of the chart (e.g. "M13", "Albireo", "Jupiter").',
+    },
+    fieldDegrees: {
+      type: z.number().min(0.1).max(60).optional().default(5),
+      description: 'Width (and height) of the square chart in degrees. Default: 5.',
+    },
+    limitingMagnitude: {
+      type: z.number().min(0).max(16).optional().default(9),
+      description: 'Faintest star magnitude to plot. Default: 9.',
+    },
+    dsoMagnitudeLimit: {
+      type: z.number().optional(),
+      description: 'Optional. Faintest deep sky object magnitude to plot. Objects without a catalog magnitude are always plotted. Default: no limit.',
+    },
+    orientation: {
+      type: z.enum(CHART_ORIENTATIONS as [ChartOrientation, ...ChartOrientation[]]).optional().default('northUp'),
+      description: "'northUp' (north up, east left: naked eye, binoculars), 'mirrored' (north up, east right: the mirror image in a star diagonal on an SCT or refractor) or 'inverted' (south up: rotated 180° as in a Newtonian or straight-through finder). Default: 'northUp'.",
+    },
+    fovCirclesDegrees: {
+      type: listParam(z.coerce.number().positive()),
+      description: "Optional. Comma-separated true fields of view in degrees to draw as circles around the target, e.g. '1.0, 0.4' for two eyepieces.",
+    },
+    equipment: {
+      type: listParam(z.string()),
+      description: 'Optional. Comma-separated names of saved equipment profiles (see listEquipmentProfiles) whose fields are drawn around the target: eyepiece and finder fields as circles, camera fields as rectangles.',
+    },
+    hopPath: {
+      type: listParam(z.string()),
+      description: "Optional. Comma-separated star names of a star-hop route in order (e.g. 'Albireo, Sulafat'), as returned by getStarHoppingPath: the startStar name followed by each hopSequence toStar name. Drawn as a numbered line ending at the target.",
+    },
+    constellationLines: {
+      type: z.boolean().optional().default(true),
+      description: 'Draw the constellation stick figures crossing the chart, in light gray beneath the stars. Default: true.',
+    },
+    sizePixels: {
+      type: z.number().int().min(300).max(3000).optional().default(800),
+      description: 'Width of the chart area in pixels; text and symbols scale with it. Default: 800.',
+    },
+    outputPath: {
+      type: z.string().optional(),
+      description: 'Optional. File to save the SVG to (".svg" is appended when missing): an absolute path, or a path relative to the data directory. Without it, the SVG is returned inline.',
+    },
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + ' Sets the positions of the Sun, Moon and planets.',
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+  };
+
+  /**
+   * Field outlines from explicit sizes and from every instrument of the given equipment profiles
+   * @throws EquipmentProfileError for an unknown profile
+   */
+  private resolveFields(params: RenderFinderChartInput): ChartField[] {
+    const fields: ChartField[] = (params.fovCirclesDegrees ?? []).map(fov => ({
+      label: `${parseFloat(fov.toFixed(3))}°`,
+      widthDegrees: fov,
+    }));
+    for (const name of params.equipment ?? []) {
+      const profile = getEquipmentProfile(name);
+      const optics = computeOptics(profile);
+      if (optics.eyepiece) {
+        fields.push({ label: `${profile.name} eyepiece ${optics.eyepiece.magnification}×`, widthDegrees: optics.eyepiece.trueFovDegrees });
+      }
+      if (optics.camera) {
+        fields.push({
+          label: `${profile.name} camera`,
+          widthDegrees: optics.camera.fovWidthDegrees,
+          heightDegrees: optics.camera.fovHeightDegrees,
+        });
+      }
+      if (optics.finder) {
+        fields.push({ label: `${profile.name} finder`, widthDegrees: optics.finder.trueFovDegrees });
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * Sun, Moon and planets as seen from the observer's site; the chart only draws those in the field
+   */
+  private async solarSystemBodies(context: ObservationContext): Promise<ChartBody[]> {
+    const bodies: ChartBody[] = [];
+    for (const bodyName of Object.keys(SOLAR_SYSTEM_OBJECTS)) {
+      const body = getSolarSystemBody(bodyName);
+      if (!body || body === Astronomy.Body.Earth) continue;
+      const position = await getEquatorialCoordinates(bodyName, context.date, context.observer);
+      const radiusKm = BODY_RADII_KM[bodyName];
+      bodies.push({
+        name: bodyName.charAt(0).toUpperCase() + bodyName.slice(1),
+        position,
+        ...(radiusKm !== undefined && position.distanceAU !== undefined && {
+          diameterDegrees: 2 * Math.asin(radiusKm / (position.distanceAU * Astronomy.KM_PER_AU)) * Astronomy.RAD2DEG,
+        }),
+      });
+    }
+    return bodies;
+  }
+
+  /**
+   * Stick-figure lines of every constellation; the chart only draws the segments crossing it
+   */
+  private constellationLines(): ChartConstellationLine[] {
+    return CONSTELLATIONS.flatMap(constellation =>
+      resolveConstellationFigure(constellation).map(stars => ({ constellation: constellation.name, stars }))
+    );
+  }
+
+  async execute(params: RenderFinderChartInput) {
+    let context: ObservationContext;
+    let fields: ChartField[];
+    let target: EquatorialCoordinates;
+    const hopPath: ChartHopStar[] = [];
+    try {
+      context = resolveObservationContext(params);
+      fields = this.resolveFields(params);
+      target = await getEquatorialCoordinates(params.targetObjectName, context.date, context.observer);
+      for (const name of params.hopPath ?? []) {
+        hopPath.push({ name, position: await getEquatorialCoordinates(name, context.date, context.observer) });
+      }
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return { targetObjectName: params.targetObjectName, ...error.toResponse() };
+      }
+      throw new Error(`Failed to render finder chart: ${error.message}`);
+    }
+
+    const { date, profile, timeZone } = context;
+    const fieldDegrees = params.fieldDegrees ?? 5;
+    const limitingMagnitude = params.limitingMagnitude ?? 9;
+    const orientation = params.orientation ?? 'northUp';
+
+    let chart;
+    try {
+      chart = renderFinderChart({
+        center: target,
+        targetName: params.targetObjectName,
+        fieldDegrees,
+        limitingMagnitude,
+        dsoMagnitudeLimit: params.dsoMagnitudeLimit,
+        orientation,
+        sizePixels: params.sizePixels ?? 800,
+        fields,
+        bodies: await this.solarSystemBodies(context),
+        hopPath,
+        constellationLines: (params.constellationLines ?? true) ? this.constellationLines() : [],
+        caption: `${formatInTimeZone(date, timeZone)} · ${profile.name}`,
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to render finder chart: ${error.message}`);
+    }
+
+    let summaryMessage =
+      `Finder chart for ${params.targetObjectName}: ${fieldDegrees}° field with ${chart.starCount} stars to magnitude ${limitingMagnitude}, ` +
+      `${chart.deepSkyObjectCount} deep sky object${chart.deepSkyObjectCount === 1 ? '' : 's'}` +
+      (fields.length > 0 ? ` and ${fields.length} field of view outline${fields.length === 1 ? '' : 's'}` : '') + '.';
+    if (chart.hopStarsOutsideField.length > 0) {
+      summaryMessage += ` Hop stars outside the chart: ${chart.hopStarsOutsideField.join(', ')}; widen fieldDegrees to show the whole route.`;
+    }
+
+    const result = {
+      targetObjectName: params.targetObjectName,
+      center: {
+        rightAscension: `${target.rightAscension.toFixed(4)}h`,
+        declination: `${target.declination.toFixed(4)}°`,
+      },
+      fieldDegrees,
+      limitingMagnitude,
+      orientation,
+      starCount: chart.starCount,
+      deepSkyObjectCount: chart.deepSkyObjectCount,
+      solarSystemBodyCount: chart.bodyCount,
+      constellations: chart.constellations,
+      fieldsOfView: fields.map(field => ({
+        label: field.label,
+        widthDegrees: field.widthDegrees,
+        ...(field.heightDegrees !== undefined && { heightDegrees: field.heightDegrees }),
+      })),
+      ...(hopPath.length > 0 && { hopStarsOutsideField: chart.hopStarsOutsideField }),
+    };
+
+    if (params.outputPath) {
+      // Relative paths go to the data directory, like horizon files; the server's working directory is arbitrary
+      const filePath = path.resolve(DATA_DIR, params.outputPath.toLowerCase().endsWith('.svg') ? params.outputPath : `${params.outputPath}.svg`);
+      try {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, chart.svg, 'utf8');
+      } catch (error: any) {
+        return {
+          ...result,
+          status: 'WriteFailed',
+          summaryMessage: `Could not save the finder chart to ${filePath}: ${error.message}`,
+        };
+      }
+      return {
+        ...result,
+        status: 'Success',
+        filePath,
+        summaryMessage: `${summaryMessage} Saved to ${filePath}.`,
+      };
+    }
+
+    return {
+      ...result,
+      status: 'Success',
+      svg: chart.svg,
+      summaryMessage,
+    };
+  }
+}
+
+export default RenderFinderChartTool;
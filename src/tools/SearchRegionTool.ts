@@ -0,0 +1,284 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import * as Astronomy from 'astronomy-engine';
+import {
+  getEquatorialCoordinates,
+  getMinorBodyCoordinates,
+  calculateAngularSeparation,
+  calculateBearing,
+  getObjectCategory,
+  getSolarSystemBody,
+  EquatorialCoordinates,
+  Observer,
+  ObjectCategory,
+  OBJECT_CATEGORIES,
+  STAR_INDEX,
+  DSO_INDEX,
+} from '../utils/astronomy.js';
+import { SOLAR_SYSTEM_OBJECTS } from '../utils/catalogs.js';
+import { getMinorBodyPosition, listMinorBodies } from '../utils/minorBodies.js';
+import { formatInTimeZone, DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION } from '../utils/observers.js';
+import { listParam } from '../utils/params.js';
+import { resolveObservationContext, isStructuredInputError, ObservationContext } from '../utils/context.js';
+
+interface SearchRegionInput {
+  center?: string;
+  rightAscension?: number;
+  declination?: number;
+  radiusDegrees?: number;
+  types?: string[];
+  maxMagnitude?: number;
+  sortBy?: 'separation' | 'magnitude' | 'name';
+  limit?: number;
+  offset?: number;
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+interface RegionMatch {
+  name: string;
+  commonName?: string;
+  type?: string;
+  category: ObjectCategory;
+  magnitude?: number;
+  position: EquatorialCoordinates;
+  separation: number;
+}
+
+// 'other' covers OpenNGC duplicates ('Dup'), non-existent objects ('NonEx') and unclassified entries
+const EXCLUDED_CATEGORIES: ObjectCategory[] = ['other'];
+
+// Catalog entries closer than this to a named center are the center object itself
+const SAME_OBJECT_DEGREES = 1 / 3600;
+
+// Largest shift between geocentric and topocentric positions, reached by the Moon
+const MAX_PARALLAX_DEGREES = 1.05;
+
+class SearchRegionTool extends MCPTool<SearchRegionInput> {
+  name = 'searchRegion';
+  description =
+    "Cone search: lists the stars, deep sky objects and solar system bodies within a radius of a center, given as an object name or as J2000 right ascension and declination. Solar system bodies, comets and asteroids are placed as seen from the observer's site. Each result gives its separation from the center, position angle (measured from north through east), magnitude and type. Results can be filtered by type and magnitude, sorted, and paged.";
+
+  protected schema = {
+    center: {
+      type: z.string().optional(),
+      description: "Name of the object at the center of the search (e.g. 'M31', 'Vega', 'Jupiter'). Give either this or rightAscension and declination.",
+    },
+    rightAscension: {
+      type: z.number().min(0).max(24).optional(),
+      description: 'Right ascension of the center in hours (J2000), used with declination instead of center.',
+    },
+    declination: {
+      type: z.number().min(-90).max(90).optional(),
+      description: 'Declination of the center in degrees (J2000), used with rightAscension instead of center.',
+    },
+    radiusDegrees: {
+      type: z.number().positive().max(90).optional().default(2),
+      description: 'Search radius in degrees. Default: 2.',
+    },
+    types: {
+      type: listParam(z.enum(OBJECT_CATEGORIES as [ObjectCategory, ...ObjectCategory[]])),
+      description: `Optional. Comma-separated object categories to include (e.g. 'galaxy, globularCluster'): ${OBJECT_CATEGORIES.join(', ')}. Defaults to all except 'other' (OpenNGC duplicates and non-existent entries).`,
+    },
+    maxMagnitude: {
+      type: z.number().optional(),
+      description: 'Optional. Faintest (largest) magnitude to include. When set, objects without a known magnitude are excluded.',
+    },
+    sortBy: {
+      type: z.enum(['separation', 'magnitude', 'name']).optional().default('separation'),
+      description: "Sort order: 'separation' (nearest first), 'magnitude' (brightest first) or 'name'. Default: separation.",
+    },
+    limit: {
+      type: z.number().int().positive().max(200).optional().default(50),
+      description: 'Maximum number of results to return. Default: 50.',
+    },
+    offset: {
+      type: z.number().int().min(0).optional().default(0),
+      description: 'Number of results to skip, for paging through large result sets. Default: 0.',
+    },
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION + ' Sets the positions of solar system bodies and of a moving center object.',
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
+  };
+
+  private async collectMatches(
+    center: EquatorialCoordinates,
+    params: SearchRegionInput,
+    allowed: Set<ObjectCategory>,
+    date: Date,
+    observer: Observer,
+    excludeCenter: boolean
+  ): Promise<RegionMatch[]> {
+    const radius = params.radiusDegrees!;
+    const matches: RegionMatch[] = [];
+
+    const addMatch = (match: RegionMatch) => {
+      if (!allowed.has(match.category)) return;
+      if (params.maxMagnitude !== undefined && !(match.magnitude !== undefined && match.magnitude <= params.maxMagnitude)) return;
+      // A star center has moved from its catalog position by proper motion, so match it by name too
+      if (excludeCenter && (match.separation < SAME_OBJECT_DEGREES || match.name === center.name)) return;
+      matches.push(match);
+    };
+
+    // Catalog positions are J2000, like the center; proper motion is negligible at search scales
+    if (allowed.has('star')) {
+      for (const { item, separation } of STAR_INDEX.queryCone(center, radius, params.maxMagnitude)) {
+        addMatch({
+          name: item.name!,
+          type: item.type,
+          category: 'star',
+          magnitude: item.magnitude,
+          position: item,
+          separation,
+        });
+      }
+    }
+    for (const { item, separation } of DSO_INDEX.queryCone(center, radius)) {
+      addMatch({
+        name: item.name!,
+        commonName: item.commonName || undefined,
+        type: item.type,
+        category: getObjectCategory(item.name!, item.type),
+        magnitude: item.magnitude,
+        position: item,
+        separation,
+      });
+    }
+
+    for (const bodyName of Object.keys(SOLAR_SYSTEM_OBJECTS)) {
+      const body = getSolarSystemBody(bodyName);
+      if (!body || body === Astronomy.Body.Earth) continue;
+      const category = getObjectCategory(bodyName);
+      if (!allowed.has(category)) continue;
+      const position = await getEquatorialCoordinates(bodyName, date, observer);
+      const separation = calculateAngularSeparation(center, position);
+      if (separation > radius) continue;
+      addMatch({
+        name: bodyName.charAt(0).toUpperCase() + bodyName.slice(1),
+        type: category === 'sun' ? 'Sun' : category === 'moon' ? 'Moon' : 'Planet',
+        category,
+        magnitude: Astronomy.Illumination(body, date).mag,
+        position,
+        separation,
+      });
+    }
+
+    for (const kind of ['asteroid', 'comet'] as const) {
+      if (!allowed.has(kind)) continue;
+      for (const body of listMinorBodies(kind)) {
+        // Only bodies near the cone geocentrically can fall inside it from the site
+        if (calculateAngularSeparation(center, getMinorBodyPosition(body, date)) > radius + MAX_PARALLAX_DEGREES) continue;
+        const position = getMinorBodyCoordinates(body, date, observer);
+        const separation = calculateAngularSeparation(center, position);
+        if (separation > radius) continue;
+        addMatch({
+          name: body.name,
+          type: kind === 'comet' ? 'Comet' : 'Asteroid',
+          category: kind,
+          magnitude: position.magnitude,
+          position,
+          separation,
+        });
+      }
+    }
+
+    return matches;
+  }
+
+  async execute(params: SearchRegionInput) {
+    let context: ObservationContext;
+    let center: EquatorialCoordinates;
+    const hasCoordinates = params.rightAscension !== undefined || params.declination !== undefined;
+    if (params.center && hasCoordinates) {
+      return { status: 'InvalidCenter', summaryMessage: 'Give either center or rightAscension and declination, not both.' };
+    }
+    if (!params.center && (params.rightAscension === undefined || params.declination === undefined)) {
+      return { status: 'InvalidCenter', summaryMessage: 'Give a center object name, or both rightAscension (hours) and declination (degrees).' };
+    }
+
+    try {
+      context = resolveObservationContext({ observer: params.observer, dateTime: params.dateTime, timeZone: params.timeZone });
+      center = params.center
+        ? await getEquatorialCoordinates(params.center, context.date, context.observer)
+        : { rightAscension: params.rightAscension!, declination: params.declination! };
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return { center: params.center, ...error.toResponse() };
+      }
+      throw new Error(`Failed to search region: ${error.message}`);
+    }
+
+    const { date, observer, profile, timeZone } = context;
+    const allowed = new Set<ObjectCategory>(
+      params.types && params.types.length > 0
+        ? (params.types as ObjectCategory[])
+        : OBJECT_CATEGORIES.filter(c => !EXCLUDED_CATEGORIES.includes(c))
+    );
+    const matches = await this.collectMatches(center, params, allowed, date, observer, !!params.center);
+
+    if (params.sortBy === 'magnitude') {
+      matches.sort((a, b) => (a.magnitude ?? Infinity) - (b.magnitude ?? Infinity) || a.separation - b.separation);
+    } else if (params.sortBy === 'name') {
+      matches.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    } else {
+      matches.sort((a, b) => a.separation - b.separation);
+    }
+
+    const page = matches.slice(params.offset, params.offset! + params.limit!);
+    const results = page.map(match => {
+      const bearing = calculateBearing(center, match.position);
+      return {
+        name: match.name,
+        ...(match.commonName && { commonName: match.commonName }),
+        type: match.type,
+        category: match.category,
+        ...(match.magnitude !== undefined && { magnitude: parseFloat(match.magnitude.toFixed(2)) }),
+        rightAscensionHours: parseFloat(match.position.rightAscension.toFixed(4)),
+        declinationDegrees: parseFloat(match.position.declination.toFixed(3)),
+        separationDegrees: parseFloat(match.separation.toFixed(3)),
+        positionAngleDegrees: bearing.degrees,
+        direction: bearing.cardinal,
+      };
+    });
+    const nextOffset = params.offset! + page.length;
+
+    return {
+      status: matches.length > 0 ? 'Success' : 'NoObjectsFound',
+      center: {
+        ...(params.center && { object: params.center }),
+        rightAscensionHours: parseFloat(center.rightAscension.toFixed(4)),
+        declinationDegrees: parseFloat(center.declination.toFixed(3)),
+        frame: 'J2000',
+      },
+      radiusDegrees: params.radiusDegrees,
+      observer: profile.name,
+      time: date.toISOString(),
+      timeLocal: formatInTimeZone(date, timeZone),
+      filters: {
+        types: params.types ?? 'all',
+        ...(params.maxMagnitude !== undefined && { maxMagnitude: params.maxMagnitude }),
+      },
+      sortBy: params.sortBy,
+      totalResults: matches.length,
+      offset: params.offset,
+      results,
+      ...(nextOffset < matches.length && { nextOffset }),
+      summaryMessage: matches.length > 0
+        ? `Found ${matches.length} object(s) within ${params.radiusDegrees}° of ${params.center ?? 'the given position'}; showing ${results.length} from offset ${params.offset}.`
+        : `No objects matching the filters within ${params.radiusDegrees}° of ${params.center ?? 'the given position'}.`,
+    };
+  }
+}
+
+export default SearchRegionTool;
@@ -0,0 +1,36 @@
+import { MCPTool } from 'mcp-framework';
+import { z } from 'zod';
+import { selectObserverProfile, ObserverProfileError } from '../utils/observers.js';
+
+interface SelectObserverProfileInput {
+  name: string;
+}
+
+class SelectObserverProfileTool extends MCPTool<SelectObserverProfileInput> {
+  name = 'selectObserverProfile';
+  description = "Selects the observer profile used by all tools when no 'observer' parameter is given. Select 'default' to return to the built-in site from src/config.ts.";
+
+  protected schema = {
+    name: {
+      type: z.string().min(1),
+      description: "Name of the profile to select (see listObserverProfiles)."
+    }
+  };
+
+  async execute(params: SelectObserverProfileInput) {
+    try {
+      const profile = selectObserverProfile(params.name);
+      return {
+        status: 'Selected',
+        profile
+      };
+    } catch (error: any) {
+      if (error instanceof ObserverProfileError) {
+        return error.toResponse();
+      }
+      throw new Error(`Failed to select observer profile: ${error.message}`);
+    }
+  }
+}
+
+export default SelectObserverProfileTool;
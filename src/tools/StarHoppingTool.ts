@@ -1,26 +1,37 @@
 import { MCPTool } from 'mcp-framework';
 import { z } from 'zod';
-import { OBSERVER_CONFIG } from '../config.js';
 import {
   getEquatorialCoordinates,
   convertToAltAz,
-  STAR_CATALOG,
+  STAR_INDEX,
   EquatorialCoordinates,
   HorizontalCoordinates,
   Observer,
   calculateAngularSeparation,
   calculateBearing,
-  SOLAR_SYSTEM_OBJECTS,
-  COMMON_NAMES,
-  DSO_CATALOG,
 } from '../utils/astronomy.js';
+import { SOLAR_SYSTEM_OBJECTS, COMMON_NAMES, DSO_CATALOG } from '../utils/catalogs.js';
+import { STAR_HOP_CONFIG } from '../config.js';
+import { findStarHopRoutes, StarHopRoute } from '../utils/starHop.js';
+import { DATE_TIME_PARAM_DESCRIPTION, TIME_ZONE_PARAM_DESCRIPTION } from '../utils/time.js';
+import { OBSERVER_PARAM_DESCRIPTION, ObserverProfile } from '../utils/observers.js';
+import { EQUIPMENT_PARAM_DESCRIPTION, EquipmentInstrument, getEquipmentFov, getEquipmentProfile } from '../utils/equipment.js';
+import { ObjectNotFoundError } from '../utils/nameResolver.js';
+import { isAboveLocalHorizon, localHorizonAltitude } from '../utils/horizon.js';
+import { resolveObservationContext, isStructuredInputError } from '../utils/context.js';
 
 interface StarHoppingInput {
   targetObjectName: string;
-  fovDegrees: number;
+  fovDegrees?: number;
+  equipment?: string;
+  instrument?: EquipmentInstrument;
   maxHopMagnitude?: number;
   initialSearchRadiusDegrees?: number;
   startStarMagnitudeThreshold?: number;
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+  alternativeRoutes?: number;
 }
 
 interface CelestialObjectData extends EquatorialCoordinates {
@@ -31,7 +42,7 @@ interface CelestialObjectData extends EquatorialCoordinates {
 class StarHoppingTool extends MCPTool<StarHoppingInput> {
   name = 'getStarHoppingPath';
   description =
-    'Calculates a star hopping path from a bright start star to a target celestial object. Each hop is within the specified Field of View (FOV).';
+    'Calculates a star hopping path from a bright start star to a target celestial object. Each hop is within the specified Field of View (FOV), and only stars clear of the observer\'s local horizon are used. The route is found by a graph search over several candidate start stars and minimizes a cost favoring few, bright and short hops; alternative routes can be requested. Visibility is evaluated at the current system time unless an observation time is given.';
 
   protected schema = {
     targetObjectName: {
@@ -40,8 +51,16 @@ class StarHoppingTool extends MCPTool<StarHoppingInput> {
         'The name or catalog identifier of the celestial object to find (e.g., "M13", "Andromeda Galaxy", "Mars").',
     },
     fovDegrees: {
-      type: z.number().positive(),
-      description: "The Field of View (FOV) of the user's equipment in degrees.",
+      type: z.number().positive().optional(),
+      description: "The Field of View (FOV) of the user's equipment in degrees. Optional when an equipment profile is given, or when the observer profile has a default equipment FOV.",
+    },
+    equipment: {
+      type: z.string().optional(),
+      description: EQUIPMENT_PARAM_DESCRIPTION + ' Used when fovDegrees is not given.',
+    },
+    instrument: {
+      type: z.enum(['eyepiece', 'camera', 'finder']).optional(),
+      description: "Optional. Which instrument of the equipment profile to hop with. Default: the eyepiece, then the camera, then the finder.",
     },
     maxHopMagnitude: {
       type: z.number().optional().default(8.0),
@@ -56,6 +75,22 @@ class StarHoppingTool extends MCPTool<StarHoppingInput> {
       type: z.number().optional().default(3.5),
       description: 'The maximum (dimmest) magnitude for a star to be a good, bright "starting star." Default: 3.5.',
     },
+    alternativeRoutes: {
+      type: z.number().int().min(0).max(4).optional().default(0),
+      description: 'Number of alternative routes to return besides the best one. Alternatives share no stars with earlier routes. Default: 0.',
+    },
+    observer: {
+      type: z.string().optional(),
+      description: OBSERVER_PARAM_DESCRIPTION,
+    },
+    dateTime: {
+      type: z.string().optional(),
+      description: DATE_TIME_PARAM_DESCRIPTION,
+    },
+    timeZone: {
+      type: z.string().optional(),
+      description: TIME_ZONE_PARAM_DESCRIPTION,
+    },
   };
 
   private formatCoordsForOutput(coords: EquatorialCoordinates) {
@@ -72,213 +107,193 @@ class StarHoppingTool extends MCPTool<StarHoppingInput> {
     };
   }
 
+  /**
+   * Field of view from the explicit parameter, the equipment profile, or the observer's default equipment
+   * @throws EquipmentProfileError for an unknown profile or a missing instrument
+   */
+  private resolveFieldOfView(params: StarHoppingInput, profile: ObserverProfile): { fovDegrees: number; source: string } | null {
+    if (params.fovDegrees !== undefined) {
+      return { fovDegrees: params.fovDegrees, source: 'fovDegrees parameter' };
+    }
+    if (params.equipment) {
+      const equipment = getEquipmentProfile(params.equipment);
+      const { fovDegrees, instrument } = getEquipmentFov(equipment, params.instrument);
+      return { fovDegrees, source: `${instrument} of equipment profile "${equipment.name}"` };
+    }
+    if (profile.defaultEquipment?.fovDegrees !== undefined) {
+      return { fovDegrees: profile.defaultEquipment.fovDegrees, source: `default equipment of observer profile "${profile.name}"` };
+    }
+    return null;
+  }
+
   async execute(params: StarHoppingInput) {
-    const date = new Date();
-    const observer: Observer = {
-      latitude: OBSERVER_CONFIG.latitude,
-      longitude: OBSERVER_CONFIG.longitude,
-      elevation: OBSERVER_CONFIG.altitude,
-      temperature: OBSERVER_CONFIG.temperature,
-      pressure: OBSERVER_CONFIG.pressure,
-    };
+    let date: Date;
+    let observer: Observer;
+    let profile: ObserverProfile;
+    let fieldOfView: { fovDegrees: number; source: string } | null;
+    try {
+      ({ date, observer, profile } = resolveObservationContext(params));
+      fieldOfView = this.resolveFieldOfView(params, profile);
+    } catch (error: any) {
+      if (isStructuredInputError(error)) {
+        return { targetObjectName: params.targetObjectName, ...error.toResponse() };
+      }
+      throw error;
+    }
+
+    if (!fieldOfView) {
+      return {
+        targetObjectName: params.targetObjectName,
+        status: 'MissingFieldOfView',
+        summaryMessage: 'Give fovDegrees or an equipment profile, or save a default equipment FOV in the observer profile.',
+      };
+    }
+    const { fovDegrees } = fieldOfView;
 
     let targetEquatorial: EquatorialCoordinates;
     try {
-      targetEquatorial = await getEquatorialCoordinates(params.targetObjectName, date);
+      targetEquatorial = await getEquatorialCoordinates(params.targetObjectName, date, observer);
     } catch (error: any) {
       return {
         targetObjectName: params.targetObjectName,
         status: 'TargetNotFound',
+        ...(error instanceof ObjectNotFoundError && { suggestions: error.suggestions }),
         summaryMessage: `Target object "${params.targetObjectName}" not found in catalogs. ${error.message}`,
       };
     }
 
     const targetAltAz = convertToAltAz(targetEquatorial, observer, date);
-    if (targetAltAz.altitude <= 0) {
+    if (!isAboveLocalHorizon(profile, targetAltAz)) {
+      const hiddenByLocalHorizon = targetAltAz.altitude > 0;
       return {
         targetObjectName: params.targetObjectName,
         targetCoordinates: {
           ...this.formatCoordsForOutput(targetEquatorial),
           ...this.formatAltAzForOutput(targetAltAz),
         },
-        fieldOfViewDegrees: params.fovDegrees,
+        fieldOfViewDegrees: fovDegrees,
+        fieldOfViewSource: fieldOfView.source,
         status: 'TargetNotVisible',
-        summaryMessage: `Target "${params.targetObjectName}" is currently below the horizon.`,
+        ...(hiddenByLocalHorizon && { hiddenByLocalHorizon: true }),
+        summaryMessage: hiddenByLocalHorizon
+          ? `Target "${params.targetObjectName}" is above the horizon but hidden by the local horizon (clear above ${localHorizonAltitude(profile, targetAltAz.azimuth).toFixed(1)}° at this azimuth) at ${date.toISOString()}.`
+          : `Target "${params.targetObjectName}" is below the horizon at ${date.toISOString()}.`,
       };
     }
 
-    const targetData: CelestialObjectData = {
-      ...targetEquatorial,
-      id: params.targetObjectName.toLowerCase(),
-      altAz: targetAltAz,
-    };
-
     // Starting Star Selection
-    let potentialStartStars: CelestialObjectData[] = [];
-    // The above block was removed because it allowed non-star targets (like DSOs)
-    // to be considered as starting stars if they had a magnitude, which is incorrect.
-    // Starting stars must be actual stars from the STAR_CATALOG.
-    for (const [starId, starEq] of STAR_CATALOG.entries()) {
-      if (starEq.magnitude === undefined || starEq.magnitude > params.startStarMagnitudeThreshold!) {
-        continue;
-      }
-      const separation = calculateAngularSeparation(starEq, targetEquatorial);
-      if (separation > params.initialSearchRadiusDegrees!) {
+    // Starting stars must be actual stars from the STAR_CATALOG, not DSOs with a magnitude.
+    const potentialStartStars: CelestialObjectData[] = [];
+    // Intermediate hops may not stray much further from the target than the start stars
+    const hopStars: CelestialObjectData[] = [];
+    const hopRegionRadius = params.initialSearchRadiusDegrees! + fovDegrees;
+    const maxMagnitude = Math.max(params.maxHopMagnitude!, params.startStarMagnitudeThreshold!);
+    for (const { key: starId, item: starEq, separation } of STAR_INDEX.queryCone(targetEquatorial, hopRegionRadius, maxMagnitude)) {
+      if (starEq.magnitude === undefined) {
         continue;
       }
+      // Stars hidden by the local horizon cannot be used to hop from
       const starAltAz = convertToAltAz(starEq, observer, date);
-      if (starAltAz.altitude <= 0) {
+      if (!isAboveLocalHorizon(profile, starAltAz)) {
         continue;
       }
-      potentialStartStars.push({ ...starEq, id: starId, altAz: starAltAz });
+      const star = { ...starEq, id: starId, altAz: starAltAz };
+      if (starEq.magnitude <= params.maxHopMagnitude!) {
+        hopStars.push(star);
+      }
+      if (starEq.magnitude <= params.startStarMagnitudeThreshold! && separation <= params.initialSearchRadiusDegrees!) {
+        potentialStartStars.push(star);
+      }
     }
 
+    const targetCoordinates = {
+      ...this.formatCoordsForOutput(targetEquatorial),
+      ...this.formatAltAzForOutput(targetAltAz),
+    };
+
     if (potentialStartStars.length === 0) {
       return {
         targetObjectName: params.targetObjectName,
-        targetCoordinates: {
-          ...this.formatCoordsForOutput(targetEquatorial),
-          ...this.formatAltAzForOutput(targetAltAz),
-        },
-        fieldOfViewDegrees: params.fovDegrees,
+        targetCoordinates,
+        fieldOfViewDegrees: fovDegrees,
+        fieldOfViewSource: fieldOfView.source,
         status: 'NoStartingStarFound',
         summaryMessage: `No suitable starting star found within ${params.initialSearchRadiusDegrees}° of "${params.targetObjectName}" and brighter than magnitude ${params.startStarMagnitudeThreshold}.`,
       };
     }
 
     potentialStartStars.sort((a, b) => (a.magnitude ?? Infinity) - (b.magnitude ?? Infinity));
-    const startStar = potentialStartStars[0];
+    const startStars = potentialStartStars.slice(0, STAR_HOP_CONFIG.maxStartStars);
 
-    const initialSeparationToTarget = calculateAngularSeparation(startStar, targetEquatorial);
+    const routes = findStarHopRoutes(startStars, hopStars, targetEquatorial, fovDegrees, 1 + params.alternativeRoutes!);
 
-    const baseResponse = {
-      targetObjectName: params.targetObjectName,
-      targetCoordinates: {
-        ...this.formatCoordsForOutput(targetEquatorial),
-        ...this.formatAltAzForOutput(targetAltAz),
-      },
-      fieldOfViewDegrees: params.fovDegrees,
-      startStar: {
-        name: startStar.name!,
-        magnitude: startStar.magnitude!,
-        ...this.formatCoordsForOutput(startStar),
-      },
-    };
-
-    if (initialSeparationToTarget <= params.fovDegrees) {
-      const bearingToTarget = calculateBearing(startStar, targetEquatorial);
+    if (routes.length === 0) {
       return {
-        ...baseResponse,
-        hopSequence: [],
-        finalStep: {
-          fromStar: { name: startStar.name!, magnitude: startStar.magnitude! },
-          message: `The target ${params.targetObjectName} should be within your FOV, approx ${initialSeparationToTarget.toFixed(1)}° towards ${bearingToTarget.cardinal} (Bearing: ${bearingToTarget.degrees}°) from ${startStar.name}.`,
-        },
-        status: 'TargetInStartFOV',
-        summaryMessage: `Target "${params.targetObjectName}" is already within FOV of the starting star "${startStar.name}".`,
+        targetObjectName: params.targetObjectName,
+        targetCoordinates,
+        fieldOfViewDegrees: fovDegrees,
+        fieldOfViewSource: fieldOfView.source,
+        startStarsTried: startStars.map(star => ({
+          name: star.name!,
+          magnitude: star.magnitude!,
+          separationDegrees: parseFloat(calculateAngularSeparation(star, targetEquatorial).toFixed(1)),
+        })),
+        status: 'PathNotFound',
+        summaryMessage: `No chain of visible stars brighter than magnitude ${params.maxHopMagnitude}, each within ${fovDegrees}° of the next, links any of the ${startStars.length} brightest start star(s) to "${params.targetObjectName}". Try a wider field of view or a fainter maxHopMagnitude.`,
       };
     }
 
-    // Star Hopping Algorithm
-    const hopSequence: any[] = [];
-    let currentHopStar = startStar;
-    let currentDistanceToTarget = initialSeparationToTarget;
-    const visitedStarIds = new Set<string>([startStar.id]);
-
-    for (let hopNum = 1; hopNum <= 20; hopNum++) { // Max 20 hops to prevent infinite loops
-      let bestNextHop: CelestialObjectData | null = null;
-      let smallestDistToTargetForNextHop = currentDistanceToTarget;
-
-      for (const [candidateId, candidateEq] of STAR_CATALOG.entries()) {
-        if (visitedStarIds.has(candidateId) || candidateId === targetData.id) {
-          continue; // Skip already visited or the target itself as an intermediate hop
-        }
-        if (candidateEq.magnitude === undefined || candidateEq.magnitude > params.maxHopMagnitude!) {
-          continue;
-        }
-
-        const hopSeparation = calculateAngularSeparation(currentHopStar, candidateEq);
-        if (hopSeparation > params.fovDegrees) {
-          continue;
-        }
-
-        const candidateDistToTarget = calculateAngularSeparation(candidateEq, targetEquatorial);
-        if (candidateDistToTarget >= currentDistanceToTarget) { // Must be closer to target
-          continue;
-        }
-        
-        const candidateAltAz = convertToAltAz(candidateEq, observer, date);
-        if (candidateAltAz.altitude <= 0) {
-          continue;
-        }
-
-        // Prefer candidate that makes most progress towards target
-        if (candidateDistToTarget < smallestDistToTargetForNextHop) {
-          smallestDistToTargetForNextHop = candidateDistToTarget;
-          bestNextHop = { ...candidateEq, id: candidateId }; // altAz is checked for visibility but not stored in the hop object
-        }
-      }
+    const [bestRoute, ...alternatives] = routes.map(route => this.formatRoute(route, params.targetObjectName, targetEquatorial));
+    const hopCount = bestRoute.hopSequence.length;
 
-      if (bestNextHop) {
-        const bearingToNextHop = calculateBearing(currentHopStar, bestNextHop);
-        const hopDistance = calculateAngularSeparation(currentHopStar, bestNextHop);
-
-        hopSequence.push({
-          hopNumber: hopNum,
-          fromStar: { name: currentHopStar.name!, magnitude: currentHopStar.magnitude! },
-          toStar: {
-            name: bestNextHop.name!,
-            magnitude: bestNextHop.magnitude!,
-            ...this.formatCoordsForOutput(bestNextHop),
-          },
-          direction: `towards ${bearingToNextHop.cardinal} (Bearing: ${bearingToNextHop.degrees}°)`,
-          angularDistanceDegrees: parseFloat(hopDistance.toFixed(1)),
-        });
-
-        currentHopStar = bestNextHop;
-        currentDistanceToTarget = smallestDistToTargetForNextHop;
-        visitedStarIds.add(currentHopStar.id);
+    return {
+      targetObjectName: params.targetObjectName,
+      targetCoordinates,
+      fieldOfViewDegrees: fovDegrees,
+      fieldOfViewSource: fieldOfView.source,
+      ...bestRoute,
+      ...(params.alternativeRoutes! > 0 && { alternativeRoutes: alternatives }),
+      status: hopCount === 0 ? 'TargetInStartFOV' : 'Success',
+      summaryMessage: hopCount === 0
+        ? `Target "${params.targetObjectName}" is already within FOV of the starting star "${bestRoute.startStar.name}".`
+        : `Successfully found a path with ${hopCount} hop(s) to "${params.targetObjectName}".` +
+          (params.alternativeRoutes! > 0 ? ` ${alternatives.length} alternative route(s) found.` : ''),
+    };
+  }
 
-        if (currentDistanceToTarget <= params.fovDegrees) {
-          const bearingToTarget = calculateBearing(currentHopStar, targetEquatorial);
-          return {
-            ...baseResponse,
-            hopSequence,
-            finalStep: {
-              fromStar: { name: currentHopStar.name!, magnitude: currentHopStar.magnitude! },
-              message: `The target ${params.targetObjectName} should now be within your FOV, approx ${currentDistanceToTarget.toFixed(1)}° towards ${bearingToTarget.cardinal} (Bearing: ${bearingToTarget.degrees}°) from ${currentHopStar.name}.`,
-            },
-            status: 'Success',
-            summaryMessage: `Successfully found a path with ${hopSequence.length} hop(s) to "${params.targetObjectName}".`,
-          };
-        }
-      } else {
-        // No suitable next hop found
-        const bearingToTarget = calculateBearing(currentHopStar, targetEquatorial);
-        return {
-          ...baseResponse,
-          hopSequence,
-          finalStep: {
-            fromStar: { name: currentHopStar.name!, magnitude: currentHopStar.magnitude! },
-            message: `Pathfinding stopped. Target ${params.targetObjectName} is approx ${currentDistanceToTarget.toFixed(1)}° towards ${bearingToTarget.cardinal} (Bearing: ${bearingToTarget.degrees}°) from ${currentHopStar.name}, but no further hops could be found.`,
-          },
-          status: 'PathNotFound',
-          summaryMessage: `Could not find a complete hopping path to "${params.targetObjectName}". Path generated with ${hopSequence.length} hop(s).`,
-        };
-      }
-    }
+  private formatRoute(route: StarHopRoute<CelestialObjectData>, targetName: string, targetEquatorial: EquatorialCoordinates) {
+    const [startStar, ...hops] = route.stars;
+    const hopSequence = hops.map((toStar, index) => {
+      const fromStar = route.stars[index];
+      const bearingToNextHop = calculateBearing(fromStar, toStar);
+      const hopDistance = calculateAngularSeparation(fromStar, toStar);
+      return {
+        hopNumber: index + 1,
+        fromStar: { name: fromStar.name!, magnitude: fromStar.magnitude! },
+        toStar: {
+          name: toStar.name!,
+          magnitude: toStar.magnitude!,
+          ...this.formatCoordsForOutput(toStar),
+        },
+        direction: `towards ${bearingToNextHop.cardinal} (Bearing: ${bearingToNextHop.degrees}°)`,
+        angularDistanceDegrees: parseFloat(hopDistance.toFixed(1)),
+      };
+    });
 
-    // Max hops reached
-    const bearingToTarget = calculateBearing(currentHopStar, targetEquatorial);
+    const lastStar = route.stars[route.stars.length - 1];
+    const bearingToTarget = calculateBearing(lastStar, targetEquatorial);
     return {
-      ...baseResponse,
+      startStar: {
+        name: startStar.name!,
+        magnitude: startStar.magnitude!,
+        ...this.formatCoordsForOutput(startStar),
+      },
       hopSequence,
       finalStep: {
-        fromStar: { name: currentHopStar.name!, magnitude: currentHopStar.magnitude! },
-        message: `Pathfinding stopped after maximum hops. Target ${params.targetObjectName} is approx ${currentDistanceToTarget.toFixed(1)}° towards ${bearingToTarget.cardinal} (Bearing: ${bearingToTarget.degrees}°) from ${currentHopStar.name}.`,
+        fromStar: { name: lastStar.name!, magnitude: lastStar.magnitude! },
+        message: `The target ${targetName} should ${hops.length > 0 ? 'now ' : ''}be within your FOV, approx ${route.finalSeparationDegrees.toFixed(1)}° towards ${bearingToTarget.cardinal} (Bearing: ${bearingToTarget.degrees}°) from ${lastStar.name}.`,
       },
-      status: 'PathNotFound',
-      summaryMessage: `Path to "${params.targetObjectName}" could not be completed within the maximum hop limit. Path generated with ${hopSequence.length} hop(s).`,
+      routeCost: parseFloat(route.cost.toFixed(2)),
     };
   }
 }
@@ -295,7 +310,8 @@ Example Usage:
     "fovDegrees": 5.0,
     "maxHopMagnitude": 8.0,
     "initialSearchRadiusDegrees": 25.0,
-    "startStarMagnitudeThreshold": 4.0
+    "startStarMagnitudeThreshold": 4.0,
+    "dateTime": "tonight 22:00"
   }
 }
 
@@ -328,6 +344,7 @@ Expected output structure:
     "fromStar": { "name": "HIP 81977", "magnitude": 5.3 },
     "message": "The target M13 should now be within your FOV, approx 0.8° towards WSW (Bearing: 240.0°) from HIP 81977."
   },
+  "routeCost": 2.64,
   "status": "Success",
   "summaryMessage": "Successfully found a path with 1 hop(s) to M13."
 }
@@ -335,6 +352,10 @@ Expected output structure:
 Status types:
 - Success
 - TargetNotFound
+- InvalidTime
+- InvalidObserver
+- InvalidEquipment
+- MissingFieldOfView
 - TargetNotVisible
 - NoStartingStarFound
 - TargetInStartFOV
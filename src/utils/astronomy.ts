@@ -5,9 +5,30 @@ import { dirname } from 'path';
 import { parse } from 'csv-parse/sync';
 import * as Astronomy from 'astronomy-engine';
 import { execSync } from 'child_process';
+import { MINOR_BODY_CONFIG } from '../config.js';
+import { resolveObjectName } from './nameResolver.js';
+import { DSO_CATALOG, STAR_CATALOG, STAR_SYSTEMS, COMMON_NAMES, SOLAR_SYSTEM_OBJECTS } from './catalogs.js';
+import { SkyIndex } from './skyIndex.js';
+import { ConstellationName, getConstellationFigure } from './constellations.js';
+import { MINOR_BODY_CATALOG, MinorBody, getMinorBodyPosition, listMinorBodies, loadCometElements, loadMPCORB } from './minorBodies.js';
 
 // No custom class needed - we'll use our own calculations for fixed stars
 
+/**
+ * Reference frame of a set of equatorial coordinates:
+ * - 'J2000':    mean equator and equinox of J2000 (astrometric, as stored in the catalogs)
+ * - 'apparent': true equator and equinox of date, including nutation and annual aberration
+ */
+export type CoordinateFrame = 'J2000' | 'apparent';
+
+/**
+ * Where a position is seen from:
+ * - 'geocentric':  the Earth's center
+ * - 'topocentric': the observer's site on the Earth's surface, including diurnal parallax
+ * Only matters for solar system bodies; stars and deep sky objects are too distant to show parallax.
+ */
+export type PositionCenter = 'geocentric' | 'topocentric';
+
 // Define interfaces for coordinates
 export interface EquatorialCoordinates {
   rightAscension: number; // in hours
@@ -16,6 +37,49 @@ export interface EquatorialCoordinates {
   name?: string;          // Canonical name (e.g., proper name, catalog ID like 'M31', 'HIP 12345')
   commonName?: string;    // Common name, if different from 'name' (used more for DSOs)
   type?: string;          // e.g., 'Star', 'Galaxy', 'Planet'
+  frame?: CoordinateFrame; // Treated as 'J2000' when unset (catalog entries)
+  epoch?: Date;           // Epoch the position applies to; catalog positions are epoch J2000 when unset
+  center?: PositionCenter; // Treated as 'geocentric' when unset
+  distanceAU?: number;    // Distance from the center, for solar system bodies
+  properMotionRA?: number;  // mu_alpha * cos(dec), in milliarcseconds per year
+  properMotionDec?: number; // in milliarcseconds per year
+}
+
+/**
+ * Deep sky object with the descriptive fields kept from the OpenNGC catalog
+ */
+export interface DeepSkyObject extends EquatorialCoordinates {
+  majorAxis?: number;           // Apparent major axis in arcminutes
+  minorAxis?: number;           // Apparent minor axis in arcminutes
+  positionAngle?: number;       // Position angle of the major axis in degrees, north through east
+  surfaceBrightness?: number;   // Mean surface brightness in mag/arcsec^2
+  constellation?: string;       // IAU constellation abbreviation, e.g. 'And'
+  hubbleType?: string;          // Morphological type of galaxies, e.g. 'Sb'
+  identifiers?: string[];       // Cross-identifications, e.g. 'PGC 002557', 'UGC 00454', '2MASX J00424433+4116074'
+  centralStarNames?: string[];  // Central star of a planetary nebula
+  centralStarMagnitude?: number; // V magnitude of the central star
+}
+
+/**
+ * Star with the physical data kept from the HYG database
+ */
+export interface StarRecord extends EquatorialCoordinates {
+  hygId?: string;
+  hip?: string;                 // Hipparcos catalog number
+  hd?: string;                  // Henry Draper catalog number
+  hr?: string;                  // Harvard Revised (Bright Star) catalog number
+  bayerFlamsteed?: string;      // HYG 'bf' designation, e.g. '58Alp Ori', 'Alp1Cen'
+  distanceParsecs?: number;
+  spectralType?: string;        // e.g. 'M1-2Ia-Iab'
+  colorIndex?: number;          // B-V color index
+  absoluteMagnitude?: number;
+  luminosity?: number;          // In solar luminosities
+  constellation?: string;       // IAU constellation abbreviation, e.g. 'Ori'
+  variableDesignation?: string; // Variable star designation, e.g. 'alf Ori'
+  variableMinMagnitude?: number; // Brightest magnitude of the variability range
+  variableMaxMagnitude?: number; // Faintest magnitude of the variability range
+  componentNumber?: number;     // Component within a multiple-star system (1 = primary)
+  primaryId?: string;           // hygId of the system's primary component
 }
 
 export interface HorizontalCoordinates {
@@ -31,25 +95,104 @@ export interface Observer {
   pressure: number; // in hPa
 }
 
-// Catalogs to store loaded data
-export const DSO_CATALOG: Map<string, EquatorialCoordinates> = new Map();
-export const STAR_CATALOG: Map<string, EquatorialCoordinates> = new Map();
-export const COMMON_NAMES: Map<string, string> = new Map(); // Maps common names to catalog IDs
-
-export const SOLAR_SYSTEM_OBJECTS: Record<string, boolean> = {
-  'sun': true,
-  'moon': true,
-  'mercury': true,
-  'venus': true,
-  'earth': true,
-  'mars': true,
-  'jupiter': true,
-  'saturn': true,
-  'uranus': true,
-  'neptune': true,
-  'pluto': true
+// Spatial indexes over the star and DSO catalogs for neighbourhood queries, built by initializeCatalogs
+export const STAR_INDEX = new SkyIndex<StarRecord>();
+export const DSO_INDEX = new SkyIndex<DeepSkyObject>();
+
+/**
+ * Broad object categories used for filtering, independent of catalog-specific type codes
+ */
+export type ObjectCategory =
+  | 'sun'
+  | 'moon'
+  | 'planet'
+  | 'star'
+  | 'doubleStar'
+  | 'galaxy'
+  | 'openCluster'
+  | 'globularCluster'
+  | 'nebula'
+  | 'planetaryNebula'
+  | 'supernovaRemnant'
+  | 'asteroid'
+  | 'comet'
+  | 'other';
+
+export const OBJECT_CATEGORIES: ObjectCategory[] = [
+  'sun', 'moon', 'planet', 'star', 'doubleStar', 'galaxy', 'openCluster',
+  'globularCluster', 'nebula', 'planetaryNebula', 'supernovaRemnant', 'asteroid', 'comet', 'other'
+];
+
+// OpenNGC type codes mapped to broad categories
+const OPENNGC_TYPE_CATEGORIES: Record<string, ObjectCategory> = {
+  '*': 'star',
+  '**': 'doubleStar',
+  '*Ass': 'openCluster',
+  'OCl': 'openCluster',
+  'GCl': 'globularCluster',
+  'Cl+N': 'nebula',
+  'G': 'galaxy',
+  'GPair': 'galaxy',
+  'GTrpl': 'galaxy',
+  'GGroup': 'galaxy',
+  'PN': 'planetaryNebula',
+  'HII': 'nebula',
+  'DrkN': 'nebula',
+  'EmN': 'nebula',
+  'Neb': 'nebula',
+  'RfN': 'nebula',
+  'SNR': 'supernovaRemnant'
 };
 
+/**
+ * Classify a catalog entry or solar system body into a broad category
+ * @param name Object name (used to recognise solar system bodies)
+ * @param type Catalog type, e.g. 'Star', 'G', 'OCl'
+ */
+export function getObjectCategory(name: string, type?: string): ObjectCategory {
+  const normalizedName = name.toLowerCase();
+  if (normalizedName === 'sun') return 'sun';
+  if (normalizedName === 'moon') return 'moon';
+  if (SOLAR_SYSTEM_OBJECTS[normalizedName]) return 'planet';
+  if (type === 'Star') return 'star';
+  if (type === 'Asteroid') return 'asteroid';
+  if (type === 'Comet') return 'comet';
+  return (type && OPENNGC_TYPE_CATEGORIES[type]) || 'other';
+}
+
+/**
+ * Parse an optional numeric catalog column, returning undefined for blanks
+ */
+function parseOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return undefined;
+  }
+  const parsed = parseFloat(String(value));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Split a comma-separated OpenNGC list column
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  const items = (value ?? '').split(',').map(item => item.trim()).filter(item => item !== '');
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Lookup keys for a cross-identifier. Zero-padded numbers also match without padding and
+ * without the space, so 'PGC 002557' is found as 'pgc 2557', 'pgc2557' and 'pgc002557'.
+ */
+function identifierAliases(identifier: string): string[] {
+  const lower = identifier.toLowerCase();
+  const numbered = lower.match(/^([a-z]+)\s*(0*(\d+))$/);
+  if (!numbered) {
+    return [lower];
+  }
+  const [, prefix, padded, digits] = numbered;
+  return [lower, `${prefix}${padded}`, `${prefix} ${digits}`, `${prefix}${digits}`];
+}
+
 /**
  * Load deep sky objects from CSV file
  * @param filePath Path to the DSO CSV file
@@ -166,25 +309,37 @@ export function loadDSOCatalog(filePath: string): void {
                 }
               }
 
-              DSO_CATALOG.set(name.toLowerCase(), {
+              // OpenNGC lists proper motion (mas/yr) for stars and some clusters
+              const properMotionRA = parseOptionalNumber(record['Pm-RA']);
+              const properMotionDec = parseOptionalNumber(record['Pm-Dec']);
+
+              const entry: DeepSkyObject = {
                 name: name, // Store original name
                 rightAscension: raHours,
                 declination: decDegrees,
                 commonName: commonName,
                 type: type,
-                magnitude: magnitude
-              });
+                magnitude: magnitude,
+                properMotionRA,
+                properMotionDec,
+                majorAxis: parseOptionalNumber(record.MajAx),
+                minorAxis: parseOptionalNumber(record.MinAx),
+                positionAngle: parseOptionalNumber(record.PosAng),
+                surfaceBrightness: parseOptionalNumber(record.SurfBr),
+                constellation: record.Const || undefined,
+                hubbleType: record.Hubble || undefined,
+                identifiers: parseList(record.Identifiers),
+                centralStarNames: parseList(record['Cstar Names']),
+                centralStarMagnitude: parseOptionalNumber(record['Cstar V-Mag'])
+              };
+              DSO_CATALOG.set(name.toLowerCase(), entry);
               
               // Also store it by Messier number if available
               if (record.M && record.M !== '') {
                 const messierNumber = parseInt(record.M, 10).toString();
                 const messierName = 'M' + messierNumber;
                 DSO_CATALOG.set(messierName.toLowerCase(), {
-                  rightAscension: raHours,
-                  declination: decDegrees,
-                  commonName: commonName,
-                  type: type,
-                  magnitude: magnitude,
+                  ...entry,
                   name: messierName // Store Messier name
                 });
               }
@@ -193,6 +348,16 @@ export function loadDSOCatalog(filePath: string): void {
               if (commonName) {
                 COMMON_NAMES.set(commonName.toLowerCase(), name.toLowerCase());
               }
+
+              // Cross-identifiers (PGC, UGC, 2MASX, ...) become lookup aliases. NGC/IC/Messier
+              // designations are skipped so they always resolve to their own catalog entry.
+              for (const identifier of entry.identifiers ?? []) {
+                for (const alias of identifierAliases(identifier)) {
+                  if (!/^(ngc|ic|m)\s?\d/.test(alias) && !COMMON_NAMES.has(alias)) {
+                    COMMON_NAMES.set(alias, name.toLowerCase());
+                  }
+                }
+              }
             }
           }
         }
@@ -314,11 +479,13 @@ export function loadStarCatalog(filePath: string): void {
           // Only keep stars that:
           // 1. Have a proper name, or
           // 2. Are bright enough to be seen with the naked eye (mag < 6.0), or
-          // 3. Have a Bayer/Flamsteed designation
+          // 3. Have a Bayer/Flamsteed designation, or
+          // 4. Are a component of a multiple-star system (kept for system listings only)
           const hasName = record.proper || record.bf;
           const isBright = record.mag !== undefined && parseFloat(record.mag) < 6.0;
+          const isComponent = record.comp_primary && record.comp_primary !== record.id;
           
-          if (hasName || isBright) {
+          if (hasName || isBright || isComponent) {
             return record;
           }
           return null; // Skip this record
@@ -330,6 +497,9 @@ export function loadStarCatalog(filePath: string): void {
         console.log(`Parsed ${records.length} HYG database records`);
         
         for (const record of records) {
+          const hasName = record.proper || record.bf;
+          const isBright = record.mag !== undefined && parseFloat(record.mag) < 6.0;
+
           // Get star name - prefer proper name, then Bayer/Flamsteed designation, then HD number
           let name = '';
           
@@ -347,6 +517,11 @@ export function loadStarCatalog(filePath: string): void {
             if (record.con && record.con.trim()) {
               name += ` in ${record.con.trim()}`;
             }
+          } else if (record.gl && record.gl.trim()) {
+            // Faint companions are often only in the Gliese catalog
+            name = record.gl.trim();
+          } else if (record.id) {
+            name = 'HYG ' + record.id;
           }
           
           if (!name) continue;
@@ -377,14 +552,56 @@ export function loadStarCatalog(filePath: string): void {
             }
           }
 
-          // Store the coordinates
-          STAR_CATALOG.set(name.toLowerCase(), {
+          // HYG uses 100000 pc for stars without a known distance
+          const distanceParsecs = parseOptionalNumber(record.dist);
+
+          const star: StarRecord = {
             name: name,
             rightAscension: raHours,
             declination: decDegrees,
             magnitude: magnitude, // Add parsed magnitude
-            type: 'Star'
-          });
+            type: 'Star',
+            // HYG proper motions are in mas/yr, with pmra already multiplied by cos(dec)
+            properMotionRA: parseOptionalNumber(record.pmra),
+            properMotionDec: parseOptionalNumber(record.pmdec),
+            hygId: record.id || undefined,
+            hip: record.hip || undefined,
+            hd: record.hd || undefined,
+            hr: record.hr || undefined,
+            bayerFlamsteed: record.bf || undefined,
+            distanceParsecs: distanceParsecs !== undefined && distanceParsecs > 0 && distanceParsecs < 100000 ? distanceParsecs : undefined,
+            spectralType: record.spect || undefined,
+            colorIndex: parseOptionalNumber(record.ci),
+            absoluteMagnitude: parseOptionalNumber(record.absmag),
+            luminosity: parseOptionalNumber(record.lum),
+            constellation: record.con || undefined,
+            variableDesignation: record.var || undefined,
+            variableMinMagnitude: parseOptionalNumber(record.var_min),
+            variableMaxMagnitude: parseOptionalNumber(record.var_max),
+            componentNumber: parseOptionalNumber(record.comp),
+            primaryId: record.comp_primary || undefined
+          };
+
+          // Group the components of multiple-star systems under their primary
+          if (star.primaryId && star.componentNumber !== undefined) {
+            const system = STAR_SYSTEMS.get(star.primaryId) ?? [];
+            system.push(star);
+            STAR_SYSTEMS.set(star.primaryId, system);
+          }
+
+          // Faint unnamed companions are only listed as system components
+          if (hasName || isBright) {
+            STAR_CATALOG.set(name.toLowerCase(), star);
+          }
+        }
+
+        // Single stars are listed as their own one-member "system"; drop those
+        for (const [primaryId, components] of STAR_SYSTEMS) {
+          if (components.length < 2) {
+            STAR_SYSTEMS.delete(primaryId);
+          } else {
+            components.sort((a, b) => (a.componentNumber ?? 0) - (b.componentNumber ?? 0));
+          }
         }
         
         console.log(`Loaded ${STAR_CATALOG.size} stars from HYG database`);
@@ -445,6 +662,9 @@ export function loadStarCatalog(filePath: string): void {
           magnitude = magVal;
         }
       }
+
+      const properMotionRA = parseOptionalNumber(record.pmra);
+      const properMotionDec = parseOptionalNumber(record.pmdec);
       
       // Store the coordinates under the primary name
       STAR_CATALOG.set(name.toLowerCase(), {
@@ -452,7 +672,9 @@ export function loadStarCatalog(filePath: string): void {
         rightAscension: raHours,
         declination: decDegrees,
         magnitude: magnitude,
-        type: 'Star'
+        type: 'Star',
+        properMotionRA,
+        properMotionDec
       });
       
       // Also store under alternative name if available
@@ -462,7 +684,9 @@ export function loadStarCatalog(filePath: string): void {
           rightAscension: raHours,
           declination: decDegrees,
           magnitude: magnitude,
-          type: 'Star'
+          type: 'Star',
+          properMotionRA,
+          properMotionDec
         });
       }
     }
@@ -539,6 +763,47 @@ export function initializeCatalogs(): void {
     console.warn('No DSO catalog file was successfully loaded, even after download attempt. DSO catalog will be empty or incomplete.');
     // DSO_CATALOG will remain as it is (likely empty).
   }
+
+  // --- Minor Bodies (optional) ---
+  // Asteroid and comet orbits are only loaded when the MPC files have been placed in the data directory
+  for (const file of ['MPCORB.DAT', 'mpcorb.dat']) {
+    const filePath = path.join(dataDir, file);
+    if (fs.existsSync(filePath)) {
+      console.log(`Loading asteroid orbits from ${filePath}`);
+      loadMPCORB(filePath, MINOR_BODY_CONFIG.maxAbsoluteMagnitude);
+      break;
+    }
+  }
+  const cometFile = path.join(dataDir, 'CometEls.txt');
+  if (fs.existsSync(cometFile)) {
+    console.log(`Loading comet orbits from ${cometFile}`);
+    loadCometElements(cometFile);
+  }
+
+  buildCatalogIndexes();
+}
+
+/**
+ * Rebuild STAR_INDEX and DSO_INDEX from the loaded catalogs. Each object is indexed once:
+ * star entries stored under an alternative name and NGC/IC entries duplicated under their
+ * Messier number are skipped in favor of a single key.
+ */
+export function buildCatalogIndexes(): void {
+  STAR_INDEX.clear();
+  for (const [key, star] of STAR_CATALOG) {
+    if (star.name && key !== star.name.toLowerCase()) continue;
+    STAR_INDEX.add(key, star);
+  }
+
+  // The Messier copy of an OpenNGC entry shares its position and is stored right after it
+  const dsoKeysByPosition = new Map<string, string>();
+  for (const [key, dso] of DSO_CATALOG) {
+    dsoKeysByPosition.set(`${dso.rightAscension}|${dso.declination}|${dso.type}`, key);
+  }
+  DSO_INDEX.clear();
+  for (const key of dsoKeysByPosition.values()) {
+    DSO_INDEX.add(key, DSO_CATALOG.get(key)!);
+  }
 }
 
 // Initialize catalogs on module import
@@ -546,48 +811,141 @@ initializeCatalogs();
 
 /**
  * Calculate solar system object positions using astronomy-engine
+ * Returns astrometric J2000 coordinates (light-time corrected, without aberration),
+ * the same frame as the star and DSO catalogs.
+ * @param observer When given, the position is topocentric (as seen from the observer's site,
+ *                 including parallax); otherwise it is geocentric (as seen from the Earth's center)
  */
-function getSolarSystemCoordinates(name: string, date: Date): EquatorialCoordinates {
-  // Create a default observer for equatorial coordinates (geocentric)
-  const defaultObserver = new Astronomy.Observer(0, 0, 0);
-  
-  // Handle special case for sun and moon
-  if (name === 'sun') {
-    const equ = Astronomy.Equator(Astronomy.Body.Sun, date, defaultObserver, false, true);
-    return {
-      rightAscension: equ.ra,
-      declination: equ.dec
-    };
-  } else if (name === 'moon') {
-    const equ = Astronomy.Equator(Astronomy.Body.Moon, date, defaultObserver, false, true);
-    return {
-      rightAscension: equ.ra,
-      declination: equ.dec
+function getSolarSystemCoordinates(name: string, date: Date, observer?: Observer): EquatorialCoordinates {
+  const body = getSolarSystemBody(name);
+  if (!body) {
+    throw new Error(`Unknown solar system object: ${name}`);
+  }
+  if (body === Astronomy.Body.Earth) {
+    throw new Error('The Earth has no position in its own sky');
+  }
+
+  // Astronomy.Equator always corrects for the observer's position on the Earth's surface,
+  // so the geocentric position comes from the geocentric vector instead
+  const equ = observer
+    ? Astronomy.Equator(
+        body,
+        date,
+        new Astronomy.Observer(observer.latitude, observer.longitude, observer.elevation),
+        false,
+        false
+      )
+    : Astronomy.EquatorFromVector(Astronomy.GeoVector(body, date, false));
+
+  return {
+    rightAscension: equ.ra,
+    declination: equ.dec,
+    frame: 'J2000',
+    center: observer ? 'topocentric' : 'geocentric',
+    epoch: date,
+    distanceAU: equ.dist
+  };
+}
+
+/**
+ * Map a solar system object name (e.g. 'jupiter') to its astronomy-engine Body
+ * @returns null for names that are not solar system bodies
+ */
+export function getSolarSystemBody(name: string): Astronomy.Body | null {
+  const normalizedName = name.toLowerCase();
+  if (!SOLAR_SYSTEM_OBJECTS[normalizedName]) {
+    return null;
+  }
+  const bodyName = normalizedName.charAt(0).toUpperCase() + normalizedName.slice(1);
+  return bodyName in Astronomy.Body ? Astronomy.Body[bodyName as keyof typeof Astronomy.Body] : null;
+}
+
+// Julian years per millisecond, for proper motion propagation
+const JULIAN_YEAR_MS = 365.25 * 86400000;
+const J2000_EPOCH_MS = Date.UTC(2000, 0, 1, 12, 0, 0);
+const MAS_TO_RAD = Math.PI / (180 * 3600 * 1000);
+
+/**
+ * Carry a catalog position from epoch J2000 to the given date using its proper motion.
+ * The result stays in the J2000 frame; only the epoch changes.
+ */
+export function applyProperMotion(coords: EquatorialCoordinates, date: Date): EquatorialCoordinates {
+  if (coords.frame === 'apparent' || coords.epoch) {
+    return coords; // Already a position for a specific date
+  }
+  const pmRA = coords.properMotionRA ?? 0;
+  const pmDec = coords.properMotionDec ?? 0;
+  if (pmRA === 0 && pmDec === 0) {
+    return { ...coords, frame: 'J2000', epoch: date };
+  }
+
+  const years = (date.getTime() - J2000_EPOCH_MS) / JULIAN_YEAR_MS;
+  const ra = coords.rightAscension * Astronomy.HOUR2RAD;
+  const dec = coords.declination * Astronomy.DEG2RAD;
+
+  // Move along the tangent plane so the result stays well-behaved near the poles
+  const p = [Math.cos(dec) * Math.cos(ra), Math.cos(dec) * Math.sin(ra), Math.sin(dec)];
+  const eRA = [-Math.sin(ra), Math.cos(ra), 0];
+  const eDec = [-Math.sin(dec) * Math.cos(ra), -Math.sin(dec) * Math.sin(ra), Math.cos(dec)];
+  const dRA = pmRA * MAS_TO_RAD * years;
+  const dDec = pmDec * MAS_TO_RAD * years;
+  const x = p[0] + dRA * eRA[0] + dDec * eDec[0];
+  const y = p[1] + dRA * eRA[1] + dDec * eDec[1];
+  const z = p[2] + dRA * eRA[2] + dDec * eDec[2];
+
+  let raHours = Math.atan2(y, x) * Astronomy.RAD2HOUR;
+  if (raHours < 0) raHours += 24;
+  const decDegrees = Math.atan2(z, Math.sqrt(x * x + y * y)) * Astronomy.RAD2DEG;
+
+  return { ...coords, rightAscension: raHours, declination: decDegrees, frame: 'J2000', epoch: date };
+}
+
+// Precession/nutation matrix and Earth velocity only depend on the date; cache the last one
+// since tools convert many objects for the same instant.
+let apparentPlaceCache: { time: number; rotation: Astronomy.RotationMatrix; earthVelocity: number[] } | null = null;
+
+function getApparentPlaceTerms(date: Date) {
+  if (!apparentPlaceCache || apparentPlaceCache.time !== date.getTime()) {
+    const earth = Astronomy.BaryState(Astronomy.Body.Earth, date);
+    apparentPlaceCache = {
+      time: date.getTime(),
+      rotation: Astronomy.Rotation_EQJ_EQD(date),
+      earthVelocity: [earth.vx / Astronomy.C_AUDAY, earth.vy / Astronomy.C_AUDAY, earth.vz / Astronomy.C_AUDAY]
     };
   }
+  return apparentPlaceCache;
+}
 
-  // Convert name to Body enum for planets
-  // Capitalize first letter to match Body enum format
-  const bodyName = name.charAt(0).toUpperCase() + name.slice(1);
-  let body;
-  
-  try {
-    // Use bracket notation with type checking
-    if (bodyName in Astronomy.Body) {
-      body = Astronomy.Body[bodyName as keyof typeof Astronomy.Body];
-    } else {
-      throw new Error(`Unknown solar system object: ${name}`);
-    }
-  } catch (e) {
-    throw new Error(`Unknown solar system object: ${name}`);
+/**
+ * Convert J2000 coordinates to apparent coordinates of date: proper motion (catalog objects),
+ * annual aberration, then precession and nutation to the true equator and equinox of date.
+ */
+export function toApparentCoordinates(coords: EquatorialCoordinates, date: Date): EquatorialCoordinates {
+  if (coords.frame === 'apparent') {
+    return coords;
   }
-  
-  // Get equatorial coordinates using astronomy-engine
-  const equ = Astronomy.Equator(body, date, defaultObserver, false, true);
-  
+  const astrometric = applyProperMotion(coords, date);
+  const { rotation, earthVelocity } = getApparentPlaceTerms(date);
+
+  const ra = astrometric.rightAscension * Astronomy.HOUR2RAD;
+  const dec = astrometric.declination * Astronomy.DEG2RAD;
+  let x = Math.cos(dec) * Math.cos(ra) + earthVelocity[0];
+  let y = Math.cos(dec) * Math.sin(ra) + earthVelocity[1];
+  let z = Math.sin(dec) + earthVelocity[2];
+  const length = Math.sqrt(x * x + y * y + z * z);
+  x /= length;
+  y /= length;
+  z /= length;
+
+  const ofDate = Astronomy.RotateVector(rotation, new Astronomy.Vector(x, y, z, Astronomy.MakeTime(date)));
+  const equ = Astronomy.EquatorFromVector(ofDate);
+
   return {
+    ...astrometric,
     rightAscension: equ.ra,
-    declination: equ.dec
+    declination: equ.dec,
+    frame: 'apparent',
+    epoch: date
   };
 }
 
@@ -595,15 +953,18 @@ function getSolarSystemCoordinates(name: string, date: Date): EquatorialCoordina
  * Get equatorial coordinates for a celestial object at a specific time
  * @param objectName Name of the celestial object
  * @param date Date and time of observation
- * @returns Equatorial coordinates (right ascension and declination)
+ * @param observer Observer location; when given, solar system bodies, comets and asteroids are
+ *                 positioned as seen from this site instead of from the Earth's center
+ * @returns Astrometric J2000 coordinates (right ascension and declination) for the epoch of date.
+ *          Use toApparentCoordinates for the apparent place of date.
  */
-export async function getEquatorialCoordinates(objectName: string, date: Date): Promise<EquatorialCoordinates> {
-  // Normalize object name to lowercase for case-insensitive matching
-  const normalizedName = objectName.toLowerCase();
+export async function getEquatorialCoordinates(objectName: string, date: Date, observer?: Observer): Promise<EquatorialCoordinates> {
+  // Resolve aliases, designation variants and typos to a catalog key (throws ObjectNotFoundError)
+  const normalizedName = resolveObjectName(objectName).key;
   
   // Handle solar system objects
   if (SOLAR_SYSTEM_OBJECTS[normalizedName]) {
-    return getSolarSystemCoordinates(normalizedName, date);
+    return getSolarSystemCoordinates(normalizedName, date, observer);
   }
   
   // Check if it's a common name (like "Andromeda Galaxy" instead of "M31")
@@ -611,31 +972,164 @@ export async function getEquatorialCoordinates(objectName: string, date: Date):
     const catalogName = COMMON_NAMES.get(normalizedName)!;
     const dsoObject = DSO_CATALOG.get(catalogName);
     if (dsoObject) {
-      return dsoObject;
+      return applyProperMotion(dsoObject, date);
     }
   }
   
   // Check for direct matches in catalogs
   if (STAR_CATALOG.has(normalizedName)) {
-    return STAR_CATALOG.get(normalizedName)!;
+    return applyProperMotion(STAR_CATALOG.get(normalizedName)!, date);
   }
   
   if (DSO_CATALOG.has(normalizedName)) {
-    return DSO_CATALOG.get(normalizedName)!;
+    return applyProperMotion(DSO_CATALOG.get(normalizedName)!, date);
+  }
+
+  // Comets and asteroids loaded from MPC orbit files
+  if (MINOR_BODY_CATALOG.has(normalizedName)) {
+    return getMinorBodyCoordinates(MINOR_BODY_CATALOG.get(normalizedName)!, date, observer);
   }
   
   // If we reach here, the object is not recognized
   throw new Error(`Unknown celestial object: ${objectName}. Try running 'npm run fetch-catalogs' to download more complete star and deep sky object databases.`);
 }
 
+/**
+ * Catalog key for an object name, falling back to the plain lowercase name when it cannot be resolved
+ */
+function findCatalogKey(objectName: string): string {
+  try {
+    return resolveObjectName(objectName).key;
+  } catch (error) {
+    return objectName.toLowerCase();
+  }
+}
+
+/**
+ * Look up the full catalog record of a deep sky object by name, common name or cross-identifier
+ * @returns undefined when the name does not refer to a deep sky object
+ */
+export function getDeepSkyObject(objectName: string): DeepSkyObject | undefined {
+  const normalizedName = findCatalogKey(objectName);
+  if (COMMON_NAMES.has(normalizedName)) {
+    const dsoObject = DSO_CATALOG.get(COMMON_NAMES.get(normalizedName)!);
+    if (dsoObject) {
+      return dsoObject;
+    }
+  }
+  if (STAR_CATALOG.has(normalizedName)) {
+    return undefined;
+  }
+  return DSO_CATALOG.get(normalizedName);
+}
+
+/**
+ * Look up the full catalog record of a star by name
+ * @returns undefined when the name does not refer to a cataloged star
+ */
+export function getStarRecord(objectName: string): StarRecord | undefined {
+  const normalizedName = findCatalogKey(objectName);
+  if (COMMON_NAMES.has(normalizedName) && DSO_CATALOG.has(COMMON_NAMES.get(normalizedName)!)) {
+    return undefined;
+  }
+  return STAR_CATALOG.get(normalizedName);
+}
+
+/**
+ * All components of the multiple-star system a star belongs to, primary first
+ * @returns An empty array for single stars
+ */
+export function getStarSystem(star: StarRecord): StarRecord[] {
+  return star.primaryId ? STAR_SYSTEMS.get(star.primaryId) ?? [] : [];
+}
+
+/**
+ * Catalog stars of a constellation's stick figure, one array per polyline.
+ * Lines are split where a star is missing from the loaded catalog, and pieces
+ * shorter than two stars are dropped.
+ */
+export function resolveConstellationFigure(constellation: ConstellationName): StarRecord[][] {
+  const lines: StarRecord[][] = [];
+  for (const designations of getConstellationFigure(constellation)) {
+    let current: StarRecord[] = [];
+    for (const designation of designations) {
+      let star: StarRecord | undefined;
+      try {
+        const resolved = resolveObjectName(designation);
+        if (resolved.matchedBy !== 'fuzzy') star = STAR_CATALOG.get(resolved.key);
+      } catch {
+        // Not in the loaded catalog; the line breaks here
+      }
+      if (star) {
+        current.push(star);
+        continue;
+      }
+      if (current.length >= 2) lines.push(current);
+      current = [];
+    }
+    if (current.length >= 2) lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Astrometric J2000 position of a comet or asteroid from its Keplerian orbit
+ * @param observer When given, the geocentric position is shifted for parallax to the observer's site
+ */
+export function getMinorBodyCoordinates(body: MinorBody, date: Date, observer?: Observer): EquatorialCoordinates {
+  const position = getMinorBodyPosition(body, date);
+  let rightAscension = position.rightAscension;
+  let declination = position.declination;
+  let distanceAU = position.distanceAU;
+
+  if (observer) {
+    // Subtract the observer's offset from the Earth's center (J2000 equator) from the geocentric vector
+    const time = Astronomy.MakeTime(date);
+    const site = Astronomy.ObserverVector(
+      time,
+      new Astronomy.Observer(observer.latitude, observer.longitude, observer.elevation),
+      false
+    );
+    const ra = rightAscension * Astronomy.HOUR2RAD;
+    const dec = declination * Astronomy.DEG2RAD;
+    const equ = Astronomy.EquatorFromVector(new Astronomy.Vector(
+      distanceAU * Math.cos(dec) * Math.cos(ra) - site.x,
+      distanceAU * Math.cos(dec) * Math.sin(ra) - site.y,
+      distanceAU * Math.sin(dec) - site.z,
+      time
+    ));
+    rightAscension = equ.ra;
+    declination = equ.dec;
+    distanceAU = equ.dist;
+  }
+
+  return {
+    rightAscension,
+    declination,
+    magnitude: position.magnitude,
+    name: body.name,
+    type: body.kind === 'comet' ? 'Comet' : 'Asteroid',
+    frame: 'J2000',
+    center: observer ? 'topocentric' : 'geocentric',
+    epoch: date,
+    distanceAU
+  };
+}
+
 /**
  * Convert equatorial coordinates to horizontal (altitude-azimuth) coordinates using astronomy-engine
+ * J2000 coordinates are first converted to the apparent place of date, which is what
+ * Astronomy.Horizon expects. Solar system bodies should be given topocentric coordinates
+ * (getEquatorialCoordinates with the same observer); geocentric ones put the Moon up to a
+ * degree too high.
  */
 export function convertToAltAz(
   coords: EquatorialCoordinates,
   observer: Observer,
   date: Date
 ): HorizontalCoordinates {
+  const apparent = toApparentCoordinates(coords, date);
+
   // We already have an astroObserver defined above
   
   // Determine refraction mode - must be one of the preset strings
@@ -653,8 +1147,8 @@ export function convertToAltAz(
   const hor = Astronomy.Horizon(
     date,
     astroObserver,
-    coords.rightAscension,
-    coords.declination,
+    apparent.rightAscension,
+    apparent.declination,
     refraction
   );
   
@@ -666,14 +1160,14 @@ export function convertToAltAz(
 
 /**
  * List all celestial objects from catalogs
- * @param category Optional category filter ('stars', 'planets', 'dso', or 'all')
+ * @param category Optional category filter ('stars', 'planets', 'dso', 'asteroids', 'comets', or 'all')
  * @returns Array of objects grouped by category
  */
 /**
  * Get additional information about a celestial object
  */
 export function getObjectDetails(objectName: string, date: Date, observer: Observer): any {
-  const normalizedName = objectName.toLowerCase();
+  const normalizedName = findCatalogKey(objectName);
   
   // Create astronomy-engine Observer reference for this function
   let astroObserver = new Astronomy.Observer(
@@ -700,9 +1194,20 @@ export function getObjectDetails(objectName: string, date: Date, observer: Obser
       equatorialCoords = DSO_CATALOG.get(catalogName)!;
     }
   }
+
+  // Comets and asteroids move slowly enough that their position at the observation
+  // time gives rise/set times good to a few minutes
+  let minorBody = null;
+  if (!equatorialCoords && MINOR_BODY_CATALOG.has(normalizedName)) {
+    minorBody = MINOR_BODY_CATALOG.get(normalizedName)!;
+    equatorialCoords = getMinorBodyCoordinates(minorBody, date, observer);
+  }
   
-  // If we found coordinates for a star or DSO, calculate rise/set times
+  // If we found coordinates for a star, DSO or minor body, calculate rise/set times
   if (equatorialCoords && !isSolarSystemObject) {
+    // DefineStar expects J2000 coordinates; carry them to the date so proper motion is included
+    equatorialCoords = applyProperMotion(equatorialCoords, date);
+
     // Create a "star" body dynamically using Astronomy.DefineStar
     const tempStarName = "Star1"; // Use one of the predefined star slots
     
@@ -761,11 +1266,21 @@ export function getObjectDetails(objectName: string, date: Date, observer: Obser
         }
     }
 
+    let distance = null;
+    if (minorBody) {
+      const position = getMinorBodyPosition(minorBody, date);
+      distance = {
+        au: position.distanceAU,
+        km: position.distanceAU * Astronomy.KM_PER_AU
+      };
+    }
+
     return {
       riseTime: riseDate,
       transitTime: transitAstroEvent ? { time: transitAstroEvent.time, hor: transitAstroEvent.hor } : null,
       setTime: setDate,
-      isFixedObject: true,
+      distance,
+      isFixedObject: !distance,
       isCircumpolar: isCircumpolar,
       alwaysAboveHorizon: alwaysAboveHorizon,
       alwaysBelowHorizon: alwaysBelowHorizon
@@ -902,35 +1417,10 @@ export function findNearbyStars(
   maxDistance: number, // in degrees
   date: Date
 ): { name: string, coords: EquatorialCoordinates }[] {
-  const nearbyStars: { name: string, coords: EquatorialCoordinates }[] = [];
-  
-  // Convert max distance from degrees to radians
-  const maxDistRad = maxDistance * (Math.PI / 180);
-  
-  // Search through star catalog
-  for (const [name, coords] of STAR_CATALOG.entries()) {
+  return STAR_INDEX.queryCone(targetCoords, maxDistance)
     // Skip the target star itself
-    if (name.toLowerCase() === targetCoords.name?.toLowerCase()) {
-      continue;
-    }
-    
-    // Calculate angular distance using spherical law of cosines
-    const sinDec1 = Math.sin(targetCoords.declination * (Math.PI / 180));
-    const cosDec1 = Math.cos(targetCoords.declination * (Math.PI / 180));
-    const sinDec2 = Math.sin(coords.declination * (Math.PI / 180));
-    const cosDec2 = Math.cos(coords.declination * (Math.PI / 180));
-    const deltaRA = (coords.rightAscension - targetCoords.rightAscension) * (Math.PI / 180);
-    
-    // Angular distance in radians
-    const angularDistance = Math.acos(sinDec1 * sinDec2 + cosDec1 * cosDec2 * Math.cos(deltaRA));
-    
-    // If the distance is within the maxDistance, add to results
-    if (angularDistance <= maxDistRad) {
-      nearbyStars.push({ name, coords });
-    }
-  }
-  
-  return nearbyStars;
+    .filter(match => match.key !== targetCoords.name?.toLowerCase())
+    .map(match => ({ name: match.key, coords: match.item }));
 }
 
 /**
@@ -1026,6 +1516,27 @@ export function listCelestialObjects(category: string = 'all'): { category: stri
         });
     }
   }
+
+  // Minor bodies are only listed when MPC orbit files are present
+  if (category === 'all' || category === 'asteroids') {
+    const asteroidNames = listMinorBodies('asteroid').map(body => body.name).sort();
+    if (asteroidNames.length > 0) {
+      result.push({
+        category: 'Asteroids',
+        objects: asteroidNames
+      });
+    }
+  }
+
+  if (category === 'all' || category === 'comets') {
+    const cometNames = listMinorBodies('comet').map(body => body.name).sort();
+    if (cometNames.length > 0) {
+      result.push({
+        category: 'Comets',
+        objects: cometNames
+      });
+    }
+  }
   
   return result;
 }
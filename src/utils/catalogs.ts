@@ -0,0 +1,23 @@
+import type { DeepSkyObject, StarRecord } from './astronomy.js';
+
+// Catalogs to store loaded data, filled by initializeCatalogs in astronomy.ts. They live apart from
+// the loaders so the name resolver can read them without importing astronomy.ts.
+export const DSO_CATALOG: Map<string, DeepSkyObject> = new Map();
+export const STAR_CATALOG: Map<string, StarRecord> = new Map();
+// Components of multiple-star systems from HYG, keyed by the hygId of the primary
+export const STAR_SYSTEMS: Map<string, StarRecord[]> = new Map();
+export const COMMON_NAMES: Map<string, string> = new Map(); // Maps common names to catalog IDs
+
+export const SOLAR_SYSTEM_OBJECTS: Record<string, boolean> = {
+  'sun': true,
+  'moon': true,
+  'mercury': true,
+  'venus': true,
+  'earth': true,
+  'mars': true,
+  'jupiter': true,
+  'saturn': true,
+  'uranus': true,
+  'neptune': true,
+  'pluto': true
+};
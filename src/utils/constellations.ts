@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import { parse } from 'csv-parse/sync';
+import * as Astronomy from 'astronomy-engine';
+import { CONSTELLATION_BOUNDARIES_FILE, CONSTELLATION_LINES_FILE } from '../config.js';
+
+/**
+ * IAU constellation names, abbreviations and genitive forms
+ */
+export interface ConstellationName {
+  abbreviation: string; // IAU three-letter abbreviation, e.g. 'Lyr'
+  name: string;         // e.g. 'Lyra'
+  genitive: string;     // e.g. 'Lyrae', as used in Bayer and Flamsteed designations
+}
+
+export const CONSTELLATIONS: ConstellationName[] = [
+  { abbreviation: 'And', name: 'Andromeda', genitive: 'Andromedae' },
+  { abbreviation: 'Ant', name: 'Antlia', genitive: 'Antliae' },
+  { abbreviation: 'Aps', name: 'Apus', genitive: 'Apodis' },
+  { abbreviation: 'Aqr', name: 'Aquarius', genitive: 'Aquarii' },
+  { abbreviation: 'Aql', name: 'Aquila', genitive: 'Aquilae' },
+  { abbreviation: 'Ara', name: 'Ara', genitive: 'Arae' },
+  { abbreviation: 'Ari', name: 'Aries', genitive: 'Arietis' },
+  { abbreviation: 'Aur', name: 'Auriga', genitive: 'Aurigae' },
+  { abbreviation: 'Boo', name: 'Boötes', genitive: 'Boötis' },
+  { abbreviation: 'Cae', name: 'Caelum', genitive: 'Caeli' },
+  { abbreviation: 'Cam', name: 'Camelopardalis', genitive: 'Camelopardalis' },
+  { abbreviation: 'Cnc', name: 'Cancer', genitive: 'Cancri' },
+  { abbreviation: 'CVn', name: 'Canes Venatici', genitive: 'Canum Venaticorum' },
+  { abbreviation: 'CMa', name: 'Canis Major', genitive: 'Canis Majoris' },
+  { abbreviation: 'CMi', name: 'Canis Minor', genitive: 'Canis Minoris' },
+  { abbreviation: 'Cap', name: 'Capricornus', genitive: 'Capricorni' },
+  { abbreviation: 'Car', name: 'Carina', genitive: 'Carinae' },
+  { abbreviation: 'Cas', name: 'Cassiopeia', genitive: 'Cassiopeiae' },
+  { abbreviation: 'Cen', name: 'Centaurus', genitive: 'Centauri' },
+  { abbreviation: 'Cep', name: 'Cepheus', genitive: 'Cephei' },
+  { abbreviation: 'Cet', name: 'Cetus', genitive: 'Ceti' },
+  { abbreviation: 'Cha', name: 'Chamaeleon', genitive: 'Chamaeleontis' },
+  { abbreviation: 'Cir', name: 'Circinus', genitive: 'Circini' },
+  { abbreviation: 'Col', name: 'Columba', genitive: 'Columbae' },
+  { abbreviation: 'Com', name: 'Coma Berenices', genitive: 'Comae Berenices' },
+  { abbreviation: 'CrA', name: 'Corona Australis', genitive: 'Coronae Australis' },
+  { abbreviation: 'CrB', name: 'Corona Borealis', genitive: 'Coronae Borealis' },
+  { abbreviation: 'Crv', name: 'Corvus', genitive: 'Corvi' },
+  { abbreviation: 'Crt', name: 'Crater', genitive: 'Crateris' },
+  { abbreviation: 'Cru', name: 'Crux', genitive: 'Crucis' },
+  { abbreviation: 'Cyg', name: 'Cygnus', genitive: 'Cygni' },
+  { abbreviation: 'Del', name: 'Delphinus', genitive: 'Delphini' },
+  { abbreviation: 'Dor', name: 'Dorado', genitive: 'Doradus' },
+  { abbreviation: 'Dra', name: 'Draco', genitive: 'Draconis' },
+  { abbreviation: 'Equ', name: 'Equuleus', genitive: 'Equulei' },
+  { abbreviation: 'Eri', name: 'Eridanus', genitive: 'Eridani' },
+  { abbreviation: 'For', name: 'Fornax', genitive: 'Fornacis' },
+  { abbreviation: 'Gem', name: 'Gemini', genitive: 'Geminorum' },
+  { abbreviation: 'Gru', name: 'Grus', genitive: 'Gruis' },
+  { abbreviation: 'Her', name: 'Hercules', genitive: 'Herculis' },
+  { abbreviation: 'Hor', name: 'Horologium', genitive: 'Horologii' },
+  { abbreviation: 'Hya', name: 'Hydra', genitive: 'Hydrae' },
+  { abbreviation: 'Hyi', name: 'Hydrus', genitive: 'Hydri' },
+  { abbreviation: 'Ind', name: 'Indus', genitive: 'Indi' },
+  { abbreviation: 'Lac', name: 'Lacerta', genitive: 'Lacertae' },
+  { abbreviation: 'Leo', name: 'Leo', genitive: 'Leonis' },
+  { abbreviation: 'LMi', name: 'Leo Minor', genitive: 'Leonis Minoris' },
+  { abbreviation: 'Lep', name: 'Lepus', genitive: 'Leporis' },
+  { abbreviation: 'Lib', name: 'Libra', genitive: 'Librae' },
+  { abbreviation: 'Lup', name: 'Lupus', genitive: 'Lupi' },
+  { abbreviation: 'Lyn', name: 'Lynx', genitive: 'Lyncis' },
+  { abbreviation: 'Lyr', name: 'Lyra', genitive: 'Lyrae' },
+  { abbreviation: 'Men', name: 'Mensa', genitive: 'Mensae' },
+  { abbreviation: 'Mic', name: 'Microscopium', genitive: 'Microscopii' },
+  { abbreviation: 'Mon', name: 'Monoceros', genitive: 'Monocerotis' },
+  { abbreviation: 'Mus', name: 'Musca', genitive: 'Muscae' },
+  { abbreviation: 'Nor', name: 'Norma', genitive: 'Normae' },
+  { abbreviation: 'Oct', name: 'Octans', genitive: 'Octantis' },
+  { abbreviation: 'Oph', name: 'Ophiuchus', genitive: 'Ophiuchi' },
+  { abbreviation: 'Ori', name: 'Orion', genitive: 'Orionis' },
+  { abbreviation: 'Pav', name: 'Pavo', genitive: 'Pavonis' },
+  { abbreviation: 'Peg', name: 'Pegasus', genitive: 'Pegasi' },
+  { abbreviation: 'Per', name: 'Perseus', genitive: 'Persei' },
+  { abbreviation: 'Phe', name: 'Phoenix', genitive: 'Phoenicis' },
+  { abbreviation: 'Pic', name: 'Pictor', genitive: 'Pictoris' },
+  { abbreviation: 'Psc', name: 'Pisces', genitive: 'Piscium' },
+  { abbreviation: 'PsA', name: 'Piscis Austrinus', genitive: 'Piscis Austrini' },
+  { abbreviation: 'Pup', name: 'Puppis', genitive: 'Puppis' },
+  { abbreviation: 'Pyx', name: 'Pyxis', genitive: 'Pyxidis' },
+  { abbreviation: 'Ret', name: 'Reticulum', genitive: 'Reticuli' },
+  { abbreviation: 'Sge', name: 'Sagitta', genitive: 'Sagittae' },
+  { abbreviation: 'Sgr', name: 'Sagittarius', genitive: 'Sagittarii' },
+  { abbreviation: 'Sco', name: 'Scorpius', genitive: 'Scorpii' },
+  { abbreviation: 'Scl', name: 'Sculptor', genitive: 'Sculptoris' },
+  { abbreviation: 'Sct', name: 'Scutum', genitive: 'Scuti' },
+  { abbreviation: 'Ser', name: 'Serpens', genitive: 'Serpentis' },
+  { abbreviation: 'Sex', name: 'Sextans', genitive: 'Sextantis' },
+  { abbreviation: 'Tau', name: 'Taurus', genitive: 'Tauri' },
+  { abbreviation: 'Tel', name: 'Telescopium', genitive: 'Telescopii' },
+  { abbreviation: 'Tri', name: 'Triangulum', genitive: 'Trianguli' },
+  { abbreviation: 'TrA', name: 'Triangulum Australe', genitive: 'Trianguli Australis' },
+  { abbreviation: 'Tuc', name: 'Tucana', genitive: 'Tucanae' },
+  { abbreviation: 'UMa', name: 'Ursa Major', genitive: 'Ursae Majoris' },
+  { abbreviation: 'UMi', name: 'Ursa Minor', genitive: 'Ursae Minoris' },
+  { abbreviation: 'Vel', name: 'Vela', genitive: 'Velorum' },
+  { abbreviation: 'Vir', name: 'Virgo', genitive: 'Virginis' },
+  { abbreviation: 'Vol', name: 'Volans', genitive: 'Volantis' },
+  { abbreviation: 'Vul', name: 'Vulpecula', genitive: 'Vulpeculae' }
+];
+
+// Lowercase abbreviation, name and genitive (with and without diacritics) to the entry
+const CONSTELLATION_LOOKUP: Map<string, ConstellationName> = new Map();
+for (const constellation of CONSTELLATIONS) {
+  for (const form of [constellation.abbreviation, constellation.name, constellation.genitive]) {
+    const key = form.toLowerCase();
+    CONSTELLATION_LOOKUP.set(key, constellation);
+    CONSTELLATION_LOOKUP.set(key.normalize('NFD').replace(/[\u0300-\u036f]/g, ''), constellation);
+  }
+}
+
+/**
+ * Find a constellation by IAU abbreviation, name or genitive (case-insensitive)
+ */
+export function findConstellation(text: string): ConstellationName | undefined {
+  return CONSTELLATION_LOOKUP.get(text.trim().toLowerCase().replace(/\s+/g, ' '));
+}
+
+/**
+ * One strip of the IAU boundary table: the area north of decLow between raLow and raHigh,
+ * in B1875 coordinates, not already claimed by an earlier strip
+ */
+interface BoundaryStrip {
+  raLow: number;  // hours
+  raHigh: number; // hours
+  decLow: number; // degrees
+  constellation: ConstellationName;
+}
+
+let boundaryStrips: BoundaryStrip[] | null = null;
+
+/**
+ * IAU boundary strips from the bundled table, loaded once.
+ * Returns an empty list when the file is missing or unreadable.
+ */
+function getBoundaryStrips(): BoundaryStrip[] {
+  if (boundaryStrips) return boundaryStrips;
+  try {
+    const records = parse(fs.readFileSync(CONSTELLATION_BOUNDARIES_FILE, 'utf8'), {
+      columns: true,
+      comment: '#',
+      skip_empty_lines: true,
+      trim: true
+    }) as any[];
+    boundaryStrips = records
+      .map(record => ({
+        raLow: parseFloat(record.raLow),
+        raHigh: parseFloat(record.raHigh),
+        decLow: parseFloat(record.decLow),
+        constellation: findConstellation(record.constellation)!
+      }))
+      .filter(strip => strip.constellation && [strip.raLow, strip.raHigh, strip.decLow].every(Number.isFinite));
+  } catch (error: any) {
+    console.error(`Could not load constellation boundaries from ${CONSTELLATION_BOUNDARIES_FILE}: ${error.message}`);
+    boundaryStrips = [];
+  }
+  return boundaryStrips;
+}
+
+// The boundaries were drawn along the B1875.0 equator and hour circles; this rotates J2000 into that frame
+let b1875Rotation: Astronomy.RotationMatrix | null = null;
+
+/**
+ * The constellation containing a J2000 position
+ * @returns undefined only when the boundary table could not be loaded
+ */
+export function findConstellationAt(coords: { rightAscension: number; declination: number }): ConstellationName | undefined {
+  if (!b1875Rotation) {
+    b1875Rotation = Astronomy.Rotation_EQJ_EQD(new Astronomy.AstroTime(-45655.74141261017));
+  }
+  const time = new Astronomy.AstroTime(0);
+  const j2000 = new Astronomy.Spherical(coords.declination, coords.rightAscension * 15, 1);
+  const b1875 = Astronomy.EquatorFromVector(Astronomy.RotateVector(b1875Rotation, Astronomy.VectorFromSphere(j2000, time)));
+
+  return getBoundaryStrips().find(strip =>
+    strip.decLow <= b1875.dec && strip.raLow <= b1875.ra && b1875.ra < strip.raHigh
+  )?.constellation;
+}
+
+let figureLines: Map<string, string[][]> | null = null;
+
+/**
+ * Stick-figure polylines of a constellation as star designations, e.g. [['alp Lyr', 'eps1 Lyr']].
+ * Stars of neighbouring constellations keep their own constellation.
+ * Returns an empty list when the constellation has no figure or the file is unreadable.
+ */
+export function getConstellationFigure(constellation: ConstellationName): string[][] {
+  if (!figureLines) {
+    figureLines = new Map();
+    try {
+      const records = parse(fs.readFileSync(CONSTELLATION_LINES_FILE, 'utf8'), {
+        columns: true,
+        comment: '#',
+        skip_empty_lines: true,
+        trim: true
+      }) as any[];
+      for (const record of records) {
+        const owner = findConstellation(record.constellation ?? '');
+        if (!owner || !record.stars) continue;
+        const line = (record.stars as string)
+          .split('-')
+          .map(star => star.trim())
+          .filter(star => star.length > 0)
+          .map(star => star.includes(' ') ? star : `${star} ${owner.abbreviation}`);
+        if (line.length < 2) continue;
+        if (!figureLines.has(owner.abbreviation)) figureLines.set(owner.abbreviation, []);
+        figureLines.get(owner.abbreviation)!.push(line);
+      }
+    } catch (error: any) {
+      console.error(`Could not load constellation figures from ${CONSTELLATION_LINES_FILE}: ${error.message}`);
+    }
+  }
+  return figureLines.get(constellation.abbreviation) ?? [];
+}
@@ -0,0 +1,52 @@
+import { Observer } from './astronomy.js';
+import { EquipmentProfileError } from './equipment.js';
+import { ObjectNotFoundError } from './nameResolver.js';
+import { ObserverProfile, ObserverProfileError, resolveObserver } from './observers.js';
+import { parseObservationTime, TimeParseError } from './time.js';
+
+/**
+ * Where and when a tool call is evaluated
+ */
+export interface ObservationContext {
+  date: Date;
+  timeZone: string;
+  profile: ObserverProfile;
+  observer: Observer;
+}
+
+export interface ObservationContextInput {
+  observer?: string;
+  dateTime?: string;
+  timeZone?: string;
+}
+
+/**
+ * Resolve the observer profile and observation time shared by all tools.
+ * Named local times are interpreted in the explicit timeZone parameter,
+ * falling back to the observer profile's time zone.
+ * @throws ObserverProfileError | TimeParseError
+ */
+export function resolveObservationContext(params: ObservationContextInput): ObservationContext {
+  const { profile, observer } = resolveObserver(params.observer);
+  const parsed = parseObservationTime(params.dateTime, { timeZone: params.timeZone ?? profile.timeZone });
+  return {
+    date: parsed.date,
+    timeZone: parsed.timeZone,
+    profile,
+    observer
+  };
+}
+
+/**
+ * Errors that tools report as a structured response rather than a failure
+ */
+export type StructuredInputError = TimeParseError | ObserverProfileError | ObjectNotFoundError | EquipmentProfileError;
+
+export function isStructuredInputError(error: unknown): error is StructuredInputError {
+  return (
+    error instanceof TimeParseError ||
+    error instanceof ObserverProfileError ||
+    error instanceof ObjectNotFoundError ||
+    error instanceof EquipmentProfileError
+  );
+}
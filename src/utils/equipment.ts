@@ -0,0 +1,293 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EQUIPMENT_PROFILES_FILE } from '../config.js';
+
+/**
+ * Named equipment setup persisted in the equipment profile store: a telescope with an
+ * optional eyepiece, Barlow or reducer, finder and camera
+ */
+export interface EquipmentProfile {
+  name: string;
+  telescope?: {
+    apertureMm: number;
+    focalLengthMm: number;
+  };
+  eyepiece?: {
+    focalLengthMm: number;
+    apparentFovDegrees: number;
+  };
+  barlowFactor?: number; // Focal length multiplier: above 1 for a Barlow, below 1 for a focal reducer
+  finder?: {
+    apertureMm: number;
+    magnification: number;
+    fovDegrees: number;   // True field of view
+  };
+  camera?: {
+    pixelSizeMicrons: number;
+    resolutionX: number;  // Pixels along the long side
+    resolutionY: number;
+  };
+  notes?: string;
+}
+
+/**
+ * Optical figures derived from an equipment profile
+ */
+export interface EquipmentOptics {
+  telescope?: {
+    apertureMm: number;
+    effectiveFocalLengthMm: number; // Including the Barlow or reducer
+    focalRatio: number;
+    limitingMagnitude: number;      // Visual, under a dark sky
+    dawesLimitArcsec: number;
+    minUsefulMagnification: number; // Exit pupil of 7 mm
+    maxUsefulMagnification: number; // 2x the aperture in mm
+  };
+  eyepiece?: {
+    magnification: number;
+    trueFovDegrees: number;
+    exitPupilMm: number;
+  };
+  camera?: {
+    imageScaleArcsecPerPixel: number;
+    sensorWidthMm: number;
+    sensorHeightMm: number;
+    fovWidthDegrees: number;
+    fovHeightDegrees: number;
+  };
+  finder?: {
+    magnification: number;
+    trueFovDegrees: number;
+    exitPupilMm: number;
+    limitingMagnitude: number;
+  };
+}
+
+export type EquipmentInstrument = 'eyepiece' | 'camera' | 'finder';
+
+interface EquipmentProfileStore {
+  profiles: Record<string, EquipmentProfile>;
+}
+
+export type EquipmentProfileErrorCode = 'UNKNOWN_EQUIPMENT' | 'INVALID_EQUIPMENT' | 'EQUIPMENT_EXISTS' | 'NO_FIELD_OF_VIEW';
+
+export class EquipmentProfileError extends Error {
+  code: EquipmentProfileErrorCode;
+  profileName: string;
+
+  constructor(code: EquipmentProfileErrorCode, profileName: string, message: string) {
+    super(message);
+    this.name = 'EquipmentProfileError';
+    this.code = code;
+    this.profileName = profileName;
+  }
+
+  /**
+   * Structured form returned to MCP clients instead of a bare error string
+   */
+  toResponse() {
+    return {
+      status: 'InvalidEquipment',
+      error: {
+        code: this.code,
+        equipment: this.profileName,
+        message: this.message
+      },
+      availableEquipment: listEquipmentProfiles().map(p => p.name)
+    };
+  }
+}
+
+// Exit pupil of a dark-adapted eye, which sets the lowest useful magnification
+const EYE_PUPIL_MM = 7;
+const ARCSEC_PER_RADIAN = 206265;
+
+function profileKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function readStore(): EquipmentProfileStore {
+  if (!fs.existsSync(EQUIPMENT_PROFILES_FILE)) {
+    return { profiles: {} };
+  }
+  try {
+    const raw = JSON.parse(fs.readFileSync(EQUIPMENT_PROFILES_FILE, 'utf8'));
+    return { profiles: raw.profiles && typeof raw.profiles === 'object' ? raw.profiles : {} };
+  } catch (error) {
+    console.error(`Failed to read equipment profiles from ${EQUIPMENT_PROFILES_FILE}: ${error}. No equipment profiles are available.`);
+    return { profiles: {} };
+  }
+}
+
+function writeStore(store: EquipmentProfileStore): void {
+  fs.mkdirSync(path.dirname(EQUIPMENT_PROFILES_FILE), { recursive: true });
+  // Write to a temporary file first so a crash cannot leave a truncated store behind
+  const tmpFile = `${EQUIPMENT_PROFILES_FILE}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(store, null, 2) + '\n', 'utf8');
+  fs.renameSync(tmpFile, EQUIPMENT_PROFILES_FILE);
+}
+
+function validateProfile(profile: EquipmentProfile): void {
+  const problems: string[] = [];
+  if (!profile.name || !profile.name.trim()) problems.push('name must not be empty');
+  if (!profile.telescope && !profile.finder) problems.push('a telescope or a finder is required');
+  if (!profile.telescope && (profile.eyepiece || profile.camera || profile.barlowFactor !== undefined)) {
+    problems.push('an eyepiece, camera or Barlow/reducer requires a telescope');
+  }
+  if (profile.eyepiece && !(profile.eyepiece.apparentFovDegrees > 0 && profile.eyepiece.apparentFovDegrees < 180)) {
+    problems.push('eyepiece apparent field of view must be between 0 and 180 degrees');
+  }
+  if (profile.barlowFactor !== undefined && !(profile.barlowFactor > 0)) problems.push('barlowFactor must be positive');
+  if (problems.length > 0) {
+    throw new EquipmentProfileError('INVALID_EQUIPMENT', profile.name, `Invalid equipment profile: ${problems.join('; ')}.`);
+  }
+}
+
+/**
+ * List all saved equipment profiles
+ */
+export function listEquipmentProfiles(): EquipmentProfile[] {
+  return Object.values(readStore().profiles);
+}
+
+/**
+ * Look up an equipment profile by name (case-insensitive)
+ * @throws EquipmentProfileError when no such profile exists
+ */
+export function getEquipmentProfile(name: string): EquipmentProfile {
+  const profile = readStore().profiles[profileKey(name)];
+  if (!profile) {
+    throw new EquipmentProfileError('UNKNOWN_EQUIPMENT', name, `Unknown equipment profile "${name}".`);
+  }
+  return profile;
+}
+
+/**
+ * Create or replace a named equipment profile
+ * @param overwrite Replace an existing profile with the same name
+ */
+export function saveEquipmentProfile(profile: EquipmentProfile, overwrite: boolean = false): EquipmentProfile {
+  validateProfile(profile);
+  const key = profileKey(profile.name);
+  const store = readStore();
+  if (store.profiles[key] && !overwrite) {
+    throw new EquipmentProfileError('EQUIPMENT_EXISTS', profile.name, `Equipment profile "${profile.name}" already exists. Set overwrite to replace it.`);
+  }
+  const stored: EquipmentProfile = { ...profile, name: profile.name.trim() };
+  store.profiles[key] = stored;
+  writeStore(store);
+  return stored;
+}
+
+/**
+ * Remove an equipment profile
+ */
+export function deleteEquipmentProfile(name: string): EquipmentProfile {
+  const key = profileKey(name);
+  const store = readStore();
+  const deleted = store.profiles[key];
+  if (!deleted) {
+    throw new EquipmentProfileError('UNKNOWN_EQUIPMENT', name, `Unknown equipment profile "${name}".`);
+  }
+  delete store.profiles[key];
+  writeStore(store);
+  return deleted;
+}
+
+/**
+ * Approximate visual limiting magnitude of an aperture under a dark sky
+ */
+export function limitingMagnitudeForAperture(apertureMm: number): number {
+  return 2.7 + 5 * Math.log10(apertureMm);
+}
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+/**
+ * Derive magnification, true field, exit pupil, limiting magnitude and image scale
+ */
+export function computeOptics(profile: EquipmentProfile): EquipmentOptics {
+  const optics: EquipmentOptics = {};
+
+  if (profile.telescope) {
+    const { apertureMm, focalLengthMm } = profile.telescope;
+    const effectiveFocalLength = focalLengthMm * (profile.barlowFactor ?? 1);
+    optics.telescope = {
+      apertureMm,
+      effectiveFocalLengthMm: round(effectiveFocalLength, 1),
+      focalRatio: round(effectiveFocalLength / apertureMm, 2),
+      limitingMagnitude: round(limitingMagnitudeForAperture(apertureMm), 1),
+      dawesLimitArcsec: round(116 / apertureMm, 2),
+      minUsefulMagnification: round(apertureMm / EYE_PUPIL_MM, 1),
+      maxUsefulMagnification: round(2 * apertureMm, 0),
+    };
+
+    if (profile.eyepiece) {
+      const magnification = effectiveFocalLength / profile.eyepiece.focalLengthMm;
+      optics.eyepiece = {
+        magnification: round(magnification, 1),
+        trueFovDegrees: round(profile.eyepiece.apparentFovDegrees / magnification, 3),
+        exitPupilMm: round(apertureMm / magnification, 2),
+      };
+    }
+
+    if (profile.camera) {
+      const { pixelSizeMicrons, resolutionX, resolutionY } = profile.camera;
+      const imageScale = ARCSEC_PER_RADIAN * (pixelSizeMicrons / 1000) / effectiveFocalLength;
+      optics.camera = {
+        imageScaleArcsecPerPixel: round(imageScale, 3),
+        sensorWidthMm: round(resolutionX * pixelSizeMicrons / 1000, 2),
+        sensorHeightMm: round(resolutionY * pixelSizeMicrons / 1000, 2),
+        fovWidthDegrees: round(resolutionX * imageScale / 3600, 3),
+        fovHeightDegrees: round(resolutionY * imageScale / 3600, 3),
+      };
+    }
+  }
+
+  if (profile.finder) {
+    const { apertureMm, magnification, fovDegrees } = profile.finder;
+    optics.finder = {
+      magnification,
+      trueFovDegrees: fovDegrees,
+      exitPupilMm: round(apertureMm / magnification, 2),
+      limitingMagnitude: round(limitingMagnitudeForAperture(apertureMm), 1),
+    };
+  }
+
+  return optics;
+}
+
+/**
+ * Field of view of one instrument of a profile, for tools that need a single FOV (e.g. star hopping).
+ * Without an instrument, the eyepiece is used, then the camera's short side, then the finder.
+ * @throws EquipmentProfileError when the profile has no such instrument
+ */
+export function getEquipmentFov(profile: EquipmentProfile, instrument?: EquipmentInstrument): { fovDegrees: number; instrument: EquipmentInstrument } {
+  const optics = computeOptics(profile);
+  const fields: Record<EquipmentInstrument, number | undefined> = {
+    eyepiece: optics.eyepiece?.trueFovDegrees,
+    camera: optics.camera && Math.min(optics.camera.fovWidthDegrees, optics.camera.fovHeightDegrees),
+    finder: optics.finder?.trueFovDegrees,
+  };
+  for (const candidate of instrument ? [instrument] : (['eyepiece', 'camera', 'finder'] as const)) {
+    const fovDegrees = fields[candidate];
+    if (fovDegrees !== undefined) {
+      return { fovDegrees, instrument: candidate };
+    }
+  }
+  throw new EquipmentProfileError(
+    'NO_FIELD_OF_VIEW',
+    profile.name,
+    instrument
+      ? `Equipment profile "${profile.name}" has no ${instrument}.`
+      : `Equipment profile "${profile.name}" has no eyepiece, camera or finder to derive a field of view from.`
+  );
+}
+
+/**
+ * Parameter description shared by every tool that accepts an equipment profile
+ */
+export const EQUIPMENT_PARAM_DESCRIPTION =
+  'Optional. Name of a saved equipment profile (see listEquipmentProfiles) whose field of view is used.';
@@ -0,0 +1,469 @@
+import * as Astronomy from 'astronomy-engine';
+import { EVENTS_CONFIG } from '../config.js';
+import { Observer, StarRecord, STAR_INDEX, applyProperMotion } from './astronomy.js';
+import { toAstronomyObserver } from './night.js';
+import { getPlanetaryEphemeris } from './planets.js';
+
+export type SkyEventType =
+  | 'conjunction'
+  | 'occultation'
+  | 'opposition'
+  | 'greatestElongation'
+  | 'season'
+  | 'apsis'
+  | 'lunarEclipse'
+  | 'solarEclipse';
+
+export const SKY_EVENT_TYPES: SkyEventType[] = [
+  'conjunction',
+  'occultation',
+  'opposition',
+  'greatestElongation',
+  'season',
+  'apsis',
+  'lunarEclipse',
+  'solarEclipse'
+];
+
+/**
+ * An astronomical event. Date values in details are event times (contacts, phases).
+ */
+export interface SkyEvent {
+  type: SkyEventType;
+  time: Date;
+  title: string;
+  bodies: string[];
+  details: Record<string, unknown>;
+}
+
+export interface EventSearchOptions {
+  types: SkyEventType[];
+  maxSeparation: number;           // Closest approaches wider than this (degrees) are not reported
+  occultationMagnitudeLimit: number;
+}
+
+const PLANETS = [
+  Astronomy.Body.Mercury,
+  Astronomy.Body.Venus,
+  Astronomy.Body.Mars,
+  Astronomy.Body.Jupiter,
+  Astronomy.Body.Saturn,
+  Astronomy.Body.Uranus,
+  Astronomy.Body.Neptune
+];
+const OUTER_PLANETS = PLANETS.slice(2);
+const INNER_PLANETS = PLANETS.slice(0, 2);
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+// Separation sampling step; the Moon moves about half a degree an hour
+const SAMPLE_STEP_MS = HOUR_MS;
+const MOON_RADIUS_KM = 1737.4;
+
+type Target = {
+  name: string;
+  body?: Astronomy.Body;
+  magnitude?: number;
+  direction: (t: Date) => Astronomy.Vector; // Geocentric astrometric direction, EQJ
+};
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+function starVector(star: StarRecord, date: Date): Astronomy.Vector {
+  const position = applyProperMotion(star, date);
+  const ra = position.rightAscension * 15 * Astronomy.DEG2RAD;
+  const dec = position.declination * Astronomy.DEG2RAD;
+  return new Astronomy.Vector(Math.cos(dec) * Math.cos(ra), Math.cos(dec) * Math.sin(ra), Math.sin(dec), Astronomy.MakeTime(date));
+}
+
+function bodyTarget(body: Astronomy.Body): Target {
+  return { name: body, body, direction: t => Astronomy.GeoVector(body, t, false) };
+}
+
+/**
+ * Bright stars close enough to the ecliptic to be approached by planets or occulted by the Moon
+ * @param maxEclipticLatitude Maximum distance from the ecliptic in degrees
+ */
+function eclipticStars(maxMagnitude: number, maxEclipticLatitude: number, date: Date): StarRecord[] {
+  return STAR_INDEX.queryBox(0, 24, -23.5 - maxEclipticLatitude, 23.5 + maxEclipticLatitude, maxMagnitude)
+    .map(entry => entry.item)
+    // HYG lists the Sun as star 0
+    .filter(star => star.hygId !== '0')
+    .filter(star => Math.abs(Astronomy.Ecliptic(starVector(star, date)).elat) <= maxEclipticLatitude);
+}
+
+/**
+ * Altitude of a body above the observer's horizon, in degrees
+ */
+function altitudeOf(body: Astronomy.Body, date: Date, observer: Astronomy.Observer): number {
+  const equ = Astronomy.Equator(body, date, observer, true, true);
+  return Astronomy.Horizon(date, observer, equ.ra, equ.dec, 'normal').altitude;
+}
+
+/**
+ * Minimize a function over [low, high] by golden-section search
+ */
+function minimize(f: (t: number) => number, low: number, high: number, precision: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = low;
+  let b = high;
+  while (b - a > precision) {
+    const c = b - ratio * (b - a);
+    const d = a + ratio * (b - a);
+    if (f(c) < f(d)) b = d; else a = c;
+  }
+  return (a + b) / 2;
+}
+
+/**
+ * Close approaches between pairs of targets: local minima of the geocentric separation
+ */
+function findConjunctions(start: Date, end: Date, observer: Astronomy.Observer, maxSeparation: number): SkyEvent[] {
+  const mid = new Date((start.getTime() + end.getTime()) / 2);
+  const moon = bodyTarget(Astronomy.Body.Moon);
+  const planets = PLANETS.map(bodyTarget);
+  const stars: Target[] = eclipticStars(EVENTS_CONFIG.conjunctionStarMagnitude, 10, mid).map(star => {
+    const vector = starVector(star, mid);
+    return { name: star.name ?? 'star', magnitude: star.magnitude, direction: () => vector };
+  });
+
+  const pairs: [Target, Target][] = [];
+  planets.forEach(planet => pairs.push([moon, planet]));
+  planets.forEach((a, i) => planets.slice(i + 1).forEach(b => pairs.push([a, b])));
+  planets.forEach(planet => stars.forEach(star => pairs.push([planet, star])));
+
+  // Sample each body once per step; the pairs share the samples
+  const times: number[] = [];
+  for (let t = start.getTime() - SAMPLE_STEP_MS; t <= end.getTime() + SAMPLE_STEP_MS; t += SAMPLE_STEP_MS) times.push(t);
+  const samples = new Map<Target, Astronomy.Vector[]>();
+  for (const target of [moon, ...planets, ...stars]) {
+    samples.set(target, times.map(t => target.direction(new Date(t))));
+  }
+
+  const events: SkyEvent[] = [];
+  for (const [a, b] of pairs) {
+    const separations = times.map((_, i) => Astronomy.AngleBetween(samples.get(a)![i], samples.get(b)![i]));
+    // Allow for the motion between samples when screening candidates
+    const margin = a === moon ? 0.6 : 0.1;
+    for (let i = 1; i < separations.length - 1; i++) {
+      if (!(separations[i] <= separations[i - 1] && separations[i] < separations[i + 1])) continue;
+      if (separations[i] > maxSeparation + margin) continue;
+      const separationAt = (t: number) => Astronomy.AngleBetween(a.direction(new Date(t)), b.direction(new Date(t)));
+      const time = minimize(separationAt, times[i - 1], times[i + 1], 60000);
+      const separation = separationAt(time);
+      if (separation > maxSeparation || time < start.getTime() || time > end.getTime()) continue;
+
+      const date = new Date(Math.round(time));
+      const sunDirection = Astronomy.GeoVector(Astronomy.Body.Sun, date, false);
+      const details: Record<string, unknown> = {
+        separationDegrees: round(separation, 2),
+        solarElongationDegrees: round(Astronomy.AngleBetween(a.direction(date), sunDirection), 1),
+        sunAltitudeDegrees: round(altitudeOf(Astronomy.Body.Sun, date, observer), 1)
+      };
+      if (a.body) details.altitudeDegrees = round(altitudeOf(a.body, date, observer), 1);
+      if (a === moon && b.body) {
+        // The Moon's parallax shifts it by up to a degree against the planets
+        const moonTopo = Astronomy.Equator(Astronomy.Body.Moon, date, observer, false, false).vec;
+        const planetTopo = Astronomy.Equator(b.body, date, observer, false, false).vec;
+        details.topocentricSeparationDegrees = round(Astronomy.AngleBetween(moonTopo, planetTopo), 2);
+      }
+      if (b.magnitude !== undefined) details.starMagnitude = b.magnitude;
+      events.push({
+        type: 'conjunction',
+        time: date,
+        title: `${a.name} ${separation.toFixed(1)}° from ${b.name}`,
+        bodies: [a.name, b.name],
+        details
+      });
+    }
+  }
+  return events;
+}
+
+/**
+ * Position angle of b as seen from a, in degrees from north through east
+ */
+function positionAngle(a: Astronomy.Vector, b: Astronomy.Vector): number {
+  const from = Astronomy.EquatorFromVector(a);
+  const to = Astronomy.EquatorFromVector(b);
+  const deltaRa = (to.ra - from.ra) * 15 * Astronomy.DEG2RAD;
+  const dec1 = from.dec * Astronomy.DEG2RAD;
+  const dec2 = to.dec * Astronomy.DEG2RAD;
+  const angle = Math.atan2(
+    Math.sin(deltaRa) * Math.cos(dec2),
+    Math.cos(dec1) * Math.sin(dec2) - Math.sin(dec1) * Math.cos(dec2) * Math.cos(deltaRa)
+  ) * Astronomy.RAD2DEG;
+  return (angle + 360) % 360;
+}
+
+/**
+ * Lunar occultations of stars seen from the observer's site, with disappearance and reappearance
+ * times. Only occultations with the Moon above the horizon at either contact are reported.
+ */
+function findOccultations(start: Date, end: Date, observer: Astronomy.Observer, magnitudeLimit: number): SkyEvent[] {
+  const mid = new Date((start.getTime() + end.getTime()) / 2);
+  // The Moon strays up to 5.3° from the ecliptic, plus parallax and its radius
+  const stars = eclipticStars(magnitudeLimit, 7, mid);
+  if (stars.length === 0) return [];
+
+  const moonTimes: number[] = [];
+  for (let t = start.getTime() - SAMPLE_STEP_MS; t <= end.getTime() + SAMPLE_STEP_MS; t += SAMPLE_STEP_MS) moonTimes.push(t);
+  const moonSamples = moonTimes.map(t => Astronomy.GeoVector(Astronomy.Body.Moon, new Date(t), false));
+
+  // Topocentric separation minus the Moon's topocentric radius: negative while the star is hidden
+  const moonAt = (t: number) => Astronomy.Equator(Astronomy.Body.Moon, new Date(t), observer, false, false);
+  const overlap = (starVec: Astronomy.Vector, t: number) => {
+    const moon = moonAt(t);
+    const radius = Math.asin(MOON_RADIUS_KM / (moon.dist * Astronomy.KM_PER_AU)) * Astronomy.RAD2DEG;
+    return Astronomy.AngleBetween(moon.vec, starVec) - radius;
+  };
+  const contact = (starVec: Astronomy.Vector, low: number, high: number) => {
+    const hiddenAtLow = overlap(starVec, low) < 0;
+    while (high - low > 1000) {
+      const midpoint = (low + high) / 2;
+      if ((overlap(starVec, midpoint) < 0) === hiddenAtLow) low = midpoint; else high = midpoint;
+    }
+    return new Date(Math.round((low + high) / 2));
+  };
+  const limbAt = (starVec: Astronomy.Vector, date: Date) => {
+    const moon = moonAt(date.getTime()).vec;
+    const sun = Astronomy.Equator(Astronomy.Body.Sun, date, observer, false, false).vec;
+    const difference = Math.abs(positionAngle(moon, starVec) - positionAngle(moon, sun)) % 360;
+    return Math.min(difference, 360 - difference) < 90 ? 'bright' : 'dark';
+  };
+
+  const events: SkyEvent[] = [];
+  for (const star of stars) {
+    const starVec = starVector(star, mid);
+    for (let i = 1; i < moonSamples.length - 1; i++) {
+      const separation = Astronomy.AngleBetween(moonSamples[i], starVec);
+      if (separation > 1.6) continue;
+      if (!(separation <= Astronomy.AngleBetween(moonSamples[i - 1], starVec) &&
+        separation < Astronomy.AngleBetween(moonSamples[i + 1], starVec))) continue;
+
+      // Scan the site's view around the geocentric closest approach for the two contacts
+      const stepMs = 2 * 60000;
+      let disappearance: Date | null = null;
+      let reappearance: Date | null = null;
+      let previous = overlap(starVec, moonTimes[i] - 2 * HOUR_MS);
+      for (let t = moonTimes[i] - 2 * HOUR_MS + stepMs; t <= moonTimes[i] + 2 * HOUR_MS; t += stepMs) {
+        const current = overlap(starVec, t);
+        if (previous >= 0 && current < 0) disappearance = contact(starVec, t - stepMs, t);
+        if (previous < 0 && current >= 0) reappearance = contact(starVec, t - stepMs, t);
+        previous = current;
+      }
+      if (!disappearance || !reappearance) continue;
+      if (disappearance.getTime() < start.getTime() || disappearance.getTime() > end.getTime()) continue;
+
+      const moonAltitudeD = altitudeOf(Astronomy.Body.Moon, disappearance, observer);
+      const moonAltitudeR = altitudeOf(Astronomy.Body.Moon, reappearance, observer);
+      if (moonAltitudeD <= 0 && moonAltitudeR <= 0) continue;
+
+      const name = star.name ?? 'star';
+      const illumination = Astronomy.Illumination(Astronomy.Body.Moon, disappearance);
+      events.push({
+        type: 'occultation',
+        time: disappearance,
+        title: `Moon occults ${name}`,
+        bodies: [Astronomy.Body.Moon, name],
+        details: {
+          ...(star.magnitude !== undefined && { starMagnitude: star.magnitude }),
+          disappearance: {
+            time: disappearance,
+            limb: limbAt(starVec, disappearance),
+            moonAltitudeDegrees: round(moonAltitudeD, 1),
+            sunAltitudeDegrees: round(altitudeOf(Astronomy.Body.Sun, disappearance, observer), 1)
+          },
+          reappearance: {
+            time: reappearance,
+            limb: limbAt(starVec, reappearance),
+            moonAltitudeDegrees: round(moonAltitudeR, 1),
+            sunAltitudeDegrees: round(altitudeOf(Astronomy.Body.Sun, reappearance, observer), 1)
+          },
+          durationMinutes: round((reappearance.getTime() - disappearance.getTime()) / 60000, 1),
+          moonIlluminatedPercent: round(illumination.phase_fraction * 100, 1)
+        }
+      });
+    }
+  }
+  return events;
+}
+
+function findOppositions(start: Date, end: Date): SkyEvent[] {
+  const events: SkyEvent[] = [];
+  for (const body of OUTER_PLANETS) {
+    let time = Astronomy.SearchRelativeLongitude(body, 0, start).date;
+    while (time.getTime() <= end.getTime()) {
+      const ephemeris = getPlanetaryEphemeris(body, time);
+      events.push({
+        type: 'opposition',
+        time,
+        title: `${body} at opposition`,
+        bodies: [body],
+        details: {
+          magnitude: round(ephemeris.magnitude, 2),
+          apparentDiameterArcsec: round(ephemeris.equatorialDiameter, 2),
+          distanceAu: round(ephemeris.distanceAu, 4)
+        }
+      });
+      time = Astronomy.SearchRelativeLongitude(body, 0, new Date(time.getTime() + DAY_MS)).date;
+    }
+  }
+  return events;
+}
+
+function findGreatestElongations(start: Date, end: Date): SkyEvent[] {
+  const events: SkyEvent[] = [];
+  for (const body of INNER_PLANETS) {
+    let event = Astronomy.SearchMaxElongation(body, start);
+    while (event.time.date.getTime() <= end.getTime()) {
+      const side = event.visibility === 'morning' ? 'western' : 'eastern';
+      const ephemeris = getPlanetaryEphemeris(body, event.time.date);
+      events.push({
+        type: 'greatestElongation',
+        time: event.time.date,
+        title: `${body} at greatest ${side} elongation (${event.elongation.toFixed(1)}°)`,
+        bodies: [body],
+        details: {
+          elongationDegrees: round(event.elongation, 2),
+          sky: event.visibility === 'morning' ? 'morning' : 'evening',
+          magnitude: round(ephemeris.magnitude, 2),
+          illuminatedPercent: round(ephemeris.illuminatedFraction * 100, 1)
+        }
+      });
+      event = Astronomy.SearchMaxElongation(body, new Date(event.time.date.getTime() + DAY_MS));
+    }
+  }
+  return events;
+}
+
+function findSeasons(start: Date, end: Date): SkyEvent[] {
+  const events: SkyEvent[] = [];
+  for (let year = start.getUTCFullYear(); year <= end.getUTCFullYear(); year++) {
+    const seasons = Astronomy.Seasons(year);
+    const entries: [string, Astronomy.AstroTime][] = [
+      ['March equinox', seasons.mar_equinox],
+      ['June solstice', seasons.jun_solstice],
+      ['September equinox', seasons.sep_equinox],
+      ['December solstice', seasons.dec_solstice]
+    ];
+    for (const [title, time] of entries) {
+      if (time.date.getTime() < start.getTime() || time.date.getTime() > end.getTime()) continue;
+      events.push({ type: 'season', time: time.date, title, bodies: [Astronomy.Body.Sun], details: {} });
+    }
+  }
+  return events;
+}
+
+function findApsides(start: Date, end: Date): SkyEvent[] {
+  const events: SkyEvent[] = [];
+  for (const body of [Astronomy.Body.Earth, ...PLANETS]) {
+    let apsis = Astronomy.SearchPlanetApsis(body, start);
+    while (apsis.time.date.getTime() <= end.getTime()) {
+      const kind = apsis.kind === Astronomy.ApsisKind.Pericenter ? 'perihelion' : 'aphelion';
+      events.push({
+        type: 'apsis',
+        time: apsis.time.date,
+        title: `${body} at ${kind}`,
+        bodies: [body],
+        details: { kind, distanceAu: round(apsis.dist_au, 5) }
+      });
+      apsis = Astronomy.NextPlanetApsis(body, apsis);
+    }
+  }
+  return events;
+}
+
+function findLunarEclipses(start: Date, end: Date, observer: Astronomy.Observer): SkyEvent[] {
+  const events: SkyEvent[] = [];
+  let eclipse = Astronomy.SearchLunarEclipse(start);
+  while (eclipse.peak.date.getTime() <= end.getTime()) {
+    const peak = eclipse.peak.date;
+    const offset = (minutes: number) => new Date(peak.getTime() + minutes * 60000);
+    const phase = (semiDuration: number) => semiDuration > 0 ? { begin: offset(-semiDuration), end: offset(semiDuration) } : null;
+    // Visible if the Moon is up at any time during the penumbral phase
+    let maxAltitude = -90;
+    for (let m = -eclipse.sd_penum; m <= eclipse.sd_penum; m += 5) {
+      maxAltitude = Math.max(maxAltitude, altitudeOf(Astronomy.Body.Moon, offset(m), observer));
+    }
+    events.push({
+      type: 'lunarEclipse',
+      time: peak,
+      title: `${eclipse.kind.charAt(0).toUpperCase()}${eclipse.kind.slice(1)} lunar eclipse`,
+      bodies: [Astronomy.Body.Moon],
+      details: {
+        kind: eclipse.kind,
+        obscurationPercent: round(eclipse.obscuration * 100, 1),
+        penumbral: phase(eclipse.sd_penum),
+        partial: phase(eclipse.sd_partial),
+        total: phase(eclipse.sd_total),
+        moonAltitudeAtPeakDegrees: round(altitudeOf(Astronomy.Body.Moon, peak, observer), 1),
+        visibleFromSite: maxAltitude > 0
+      }
+    });
+    eclipse = Astronomy.NextLunarEclipse(peak);
+  }
+  return events;
+}
+
+function findSolarEclipses(start: Date, end: Date, observer: Astronomy.Observer): SkyEvent[] {
+  const events: SkyEvent[] = [];
+  let eclipse = Astronomy.SearchGlobalSolarEclipse(start);
+  while (eclipse.peak.date.getTime() <= end.getTime()) {
+    const peak = eclipse.peak.date;
+    // The local search finds the next eclipse whose penumbra reaches the site
+    const local = Astronomy.SearchLocalSolarEclipse(new Date(peak.getTime() - DAY_MS), observer);
+    const seenLocally = Math.abs(local.peak.time.date.getTime() - peak.getTime()) < DAY_MS;
+    const contact = (event: Astronomy.EclipseEvent | undefined) =>
+      event ? { time: event.time.date, sunAltitudeDegrees: round(event.altitude, 1) } : null;
+
+    events.push({
+      type: 'solarEclipse',
+      time: peak,
+      title: `${eclipse.kind.charAt(0).toUpperCase()}${eclipse.kind.slice(1)} solar eclipse`,
+      bodies: [Astronomy.Body.Sun, Astronomy.Body.Moon],
+      details: {
+        kind: eclipse.kind,
+        ...(eclipse.latitude !== undefined && eclipse.longitude !== undefined && {
+          greatestEclipseLocation: { latitude: round(eclipse.latitude, 2), longitude: round(eclipse.longitude, 2) }
+        }),
+        local: seenLocally
+          ? {
+              kind: local.kind,
+              obscurationPercent: round(local.obscuration * 100, 1),
+              partialBegin: contact(local.partial_begin),
+              ...(local.total_begin && { centralBegin: contact(local.total_begin) }),
+              peak: contact(local.peak),
+              ...(local.total_end && { centralEnd: contact(local.total_end) }),
+              partialEnd: contact(local.partial_end)
+            }
+          : null,
+        visibleFromSite: seenLocally &&
+          [local.partial_begin, local.peak, local.partial_end].some(event => event.altitude > 0)
+      }
+    });
+    eclipse = Astronomy.NextGlobalSolarEclipse(peak);
+  }
+  return events;
+}
+
+/**
+ * Find astronomical events between two times, sorted by time. Conjunctions are geocentric;
+ * occultations and eclipse circumstances are for the observer's site.
+ */
+export function findSkyEvents(start: Date, end: Date, observer: Observer, options: EventSearchOptions): SkyEvent[] {
+  const astroObserver = toAstronomyObserver(observer);
+  const wanted = new Set(options.types);
+  const events: SkyEvent[] = [];
+  if (wanted.has('conjunction')) events.push(...findConjunctions(start, end, astroObserver, options.maxSeparation));
+  if (wanted.has('occultation')) events.push(...findOccultations(start, end, astroObserver, options.occultationMagnitudeLimit));
+  if (wanted.has('opposition')) events.push(...findOppositions(start, end));
+  if (wanted.has('greatestElongation')) events.push(...findGreatestElongations(start, end));
+  if (wanted.has('season')) events.push(...findSeasons(start, end));
+  if (wanted.has('apsis')) events.push(...findApsides(start, end));
+  if (wanted.has('lunarEclipse')) events.push(...findLunarEclipses(start, end, astroObserver));
+  if (wanted.has('solarEclipse')) events.push(...findSolarEclipses(start, end, astroObserver));
+  return events.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
@@ -0,0 +1,468 @@
+import * as Astronomy from 'astronomy-engine';
+import { FINDER_CHART_CONFIG } from '../config.js';
+import { EquatorialCoordinates, DeepSkyObject, ObjectCategory, STAR_INDEX, DSO_INDEX, getObjectCategory } from './astronomy.js';
+
+/**
+ * How the chart is turned to match the view through the instrument:
+ * - 'northUp':  north up, east left, as seen with the naked eye or binoculars
+ * - 'mirrored': north up, east right, the mirror image seen through a star diagonal (SCT, refractor)
+ * - 'inverted': south up, east right, rotated 180° as seen in a Newtonian or straight-through finder
+ */
+export type ChartOrientation = 'northUp' | 'mirrored' | 'inverted';
+
+export const CHART_ORIENTATIONS: ChartOrientation[] = ['northUp', 'mirrored', 'inverted'];
+
+const ORIENTATION_LABELS: Record<ChartOrientation, string> = {
+  northUp: 'North up, east left',
+  mirrored: 'North up, east right (mirror image)',
+  inverted: 'South up, east right (rotated 180°)'
+};
+
+/**
+ * Field of view outline drawn around the chart center
+ */
+export interface ChartField {
+  label: string;
+  widthDegrees: number;
+  heightDegrees?: number; // Rectangular (camera) field when given, circular otherwise
+}
+
+/**
+ * Sun, Moon or planet plotted on the chart
+ */
+export interface ChartBody {
+  name: string;
+  position: EquatorialCoordinates;
+  diameterDegrees?: number; // Drawn to scale when larger than the planet symbol
+}
+
+/**
+ * One polyline of a constellation stick figure
+ */
+export interface ChartConstellationLine {
+  constellation: string; // Name used for the label, e.g. 'Cygnus'
+  stars: EquatorialCoordinates[];
+}
+
+/**
+ * Star of a star-hop route, in route order
+ */
+export interface ChartHopStar {
+  name: string;
+  position: EquatorialCoordinates;
+}
+
+export interface FinderChartOptions {
+  center: EquatorialCoordinates; // J2000, like the catalog positions
+  targetName: string;
+  fieldDegrees: number;          // Width and height of the square chart
+  limitingMagnitude: number;
+  dsoMagnitudeLimit?: number;    // Deep sky objects without a magnitude are always drawn
+  orientation: ChartOrientation;
+  sizePixels: number;
+  fields?: ChartField[];
+  bodies?: ChartBody[];
+  hopPath?: ChartHopStar[];
+  constellationLines?: ChartConstellationLine[];
+  caption?: string;              // Footer text, e.g. the observation time and site
+}
+
+export interface FinderChart {
+  svg: string;
+  starCount: number;
+  deepSkyObjectCount: number;
+  bodyCount: number;
+  constellations: string[];      // Constellations whose figure lines cross the chart
+  hopStarsOutsideField: string[];
+}
+
+interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+// OpenNGC entries of these categories duplicate the star catalog or are not real objects
+const SKIPPED_DSO_CATEGORIES: ObjectCategory[] = ['star', 'doubleStar', 'other'];
+
+const HEADER_HEIGHT = 48;
+const FOOTER_HEIGHT = 36;
+const INK = '#000';
+const DSO_INK = '#333';
+const PATH_INK = '#1f4e9c';
+const FIGURE_INK = '#9aa7b8';
+
+function fmt(value: number): string {
+  return value.toFixed(1);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Gnomonic (tangent plane) projection around the chart center, which keeps star patterns
+ * undistorted across finder-sized fields
+ * @returns Standard coordinates in degrees (xi towards east, eta towards north), or null for
+ *          points 90° or more from the center
+ */
+function tangentPlane(center: EquatorialCoordinates, coords: EquatorialCoordinates): { xi: number; eta: number } | null {
+  const ra0 = center.rightAscension * Astronomy.HOUR2RAD;
+  const dec0 = center.declination * Astronomy.DEG2RAD;
+  const ra = coords.rightAscension * Astronomy.HOUR2RAD;
+  const dec = coords.declination * Astronomy.DEG2RAD;
+  const cosC = Math.sin(dec0) * Math.sin(dec) + Math.cos(dec0) * Math.cos(dec) * Math.cos(ra - ra0);
+  if (cosC <= 0) {
+    return null;
+  }
+  return {
+    xi: Math.cos(dec) * Math.sin(ra - ra0) / cosC * Astronomy.RAD2DEG,
+    eta: (Math.cos(dec0) * Math.sin(dec) - Math.sin(dec0) * Math.cos(dec) * Math.cos(ra - ra0)) / cosC * Astronomy.RAD2DEG
+  };
+}
+
+/**
+ * Projection from sky coordinates to SVG pixels for one chart
+ */
+class ChartProjection {
+  readonly scale: number; // Pixels per degree at the center
+  private readonly centerX: number;
+  private readonly centerY: number;
+  private readonly xSign: number;
+  private readonly ySign: number;
+
+  constructor(private readonly options: FinderChartOptions) {
+    this.scale = options.sizePixels / options.fieldDegrees;
+    this.centerX = options.sizePixels / 2;
+    this.centerY = HEADER_HEIGHT + options.sizePixels / 2;
+    // Screen x grows to the right and y downwards; north up with east left is the sky as seen
+    this.xSign = options.orientation === 'northUp' ? -1 : 1;
+    this.ySign = options.orientation === 'inverted' ? 1 : -1;
+  }
+
+  get center(): ChartPoint {
+    return { x: this.centerX, y: this.centerY };
+  }
+
+  project(coords: EquatorialCoordinates): ChartPoint | null {
+    const standard = tangentPlane(this.options.center, coords);
+    if (!standard) {
+      return null;
+    }
+    return {
+      x: this.centerX + this.xSign * standard.xi * this.scale,
+      y: this.centerY + this.ySign * standard.eta * this.scale
+    };
+  }
+
+  /**
+   * Whether a point lies inside the square chart area, with a margin in pixels
+   */
+  contains(point: ChartPoint, margin: number = 0): boolean {
+    const half = this.options.sizePixels / 2 + margin;
+    return Math.abs(point.x - this.centerX) <= half && Math.abs(point.y - this.centerY) <= half;
+  }
+
+  /**
+   * Screen angle in degrees (clockwise from the +x axis) of a position angle at a sky position.
+   * Position angles run from north through east; north is taken locally, so it follows the
+   * convergence of the hour circles away from the chart center.
+   */
+  screenAngle(coords: EquatorialCoordinates, positionAngle: number): number {
+    const here = this.project(coords);
+    const north = this.project({ ...coords, declination: Math.min(90, coords.declination + 0.01) });
+    if (!here || !north) {
+      return 0;
+    }
+    const length = Math.hypot(north.x - here.x, north.y - here.y) || 1;
+    const nx = (north.x - here.x) / length;
+    const ny = (north.y - here.y) / length;
+    // East is 90° from north; the mirror-image orientation swaps its side
+    const [ex, ey] = this.options.orientation === 'mirrored' ? [-ny, nx] : [ny, -nx];
+    const theta = positionAngle * Astronomy.DEG2RAD;
+    return Math.atan2(ny * Math.cos(theta) + ey * Math.sin(theta), nx * Math.cos(theta) + ex * Math.sin(theta)) * Astronomy.RAD2DEG;
+  }
+}
+
+/**
+ * Dot radius for a star: linear in magnitude from a hairline at the chart limit
+ */
+function starRadius(magnitude: number, limitingMagnitude: number, unit: number): number {
+  return unit * Math.min(9, 0.8 + 0.85 * Math.max(0, limitingMagnitude - magnitude));
+}
+
+function label(text: string, point: ChartPoint, unit: number, options: { size?: number; anchor?: string; color?: string } = {}): string {
+  const size = (options.size ?? 11) * unit;
+  return `<text x="${fmt(point.x)}" y="${fmt(point.y)}" font-size="${fmt(size)}" text-anchor="${options.anchor ?? 'start'}" ` +
+    `fill="${options.color ?? INK}" stroke="#fff" stroke-width="${fmt(3 * unit)}" paint-order="stroke">${escapeXml(text)}</text>`;
+}
+
+/**
+ * Outline of a deep sky object: a true-size ellipse for galaxies, a rectangle for nebulae, a dotted
+ * circle for open clusters, a crossed circle for globular clusters and a ringed circle for
+ * planetary nebulae. Objects smaller than the symbol are drawn at the symbol's minimum size.
+ * @returns The SVG elements and the radius used to place the label
+ */
+function deepSkySymbol(dso: DeepSkyObject, category: ObjectCategory, point: ChartPoint, projection: ChartProjection, unit: number): { svg: string; radius: number } {
+  const minRadius = 4 * unit;
+  const major = dso.majorAxis !== undefined ? dso.majorAxis / 60 : undefined;
+  const minor = dso.minorAxis !== undefined ? dso.minorAxis / 60 : major;
+  const rx = Math.max(minRadius, major !== undefined ? major / 2 * projection.scale : 0);
+  const ry = Math.max(minRadius / 2, minor !== undefined ? minor / 2 * projection.scale : rx / 2);
+  // Position angles give the direction of the major axis; shapes are drawn with it along screen x, then rotated
+  const angle = projection.screenAngle(dso, dso.positionAngle ?? 0);
+  const stroke = `fill="none" stroke="${DSO_INK}" stroke-width="${fmt(unit)}"`;
+  const { x, y } = point;
+
+  switch (category) {
+    case 'galaxy': {
+      const ellipse = `<ellipse cx="${fmt(x)}" cy="${fmt(y)}" rx="${fmt(rx)}" ry="${fmt(Math.min(rx, ry))}" ` +
+        `transform="rotate(${fmt(angle)} ${fmt(x)} ${fmt(y)})" ${stroke}/>`;
+      return { svg: ellipse, radius: rx };
+    }
+    case 'openCluster':
+      return {
+        svg: `<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(rx)}" ${stroke} stroke-dasharray="${fmt(2 * unit)} ${fmt(2 * unit)}"/>`,
+        radius: rx
+      };
+    case 'globularCluster':
+      return {
+        svg: `<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(rx)}" ${stroke}/>` +
+          `<path d="M${fmt(x - rx)} ${fmt(y)}H${fmt(x + rx)}M${fmt(x)} ${fmt(y - rx)}V${fmt(y + rx)}" ${stroke}/>`,
+        radius: rx
+      };
+    case 'planetaryNebula': {
+      const outer = rx + 3 * unit;
+      return {
+        svg: `<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(rx)}" ${stroke}/>` +
+          `<path d="M${fmt(x - outer)} ${fmt(y)}H${fmt(x - rx)}M${fmt(x + rx)} ${fmt(y)}H${fmt(x + outer)}` +
+          `M${fmt(x)} ${fmt(y - outer)}V${fmt(y - rx)}M${fmt(x)} ${fmt(y + rx)}V${fmt(y + outer)}" ${stroke}/>`,
+        radius: outer
+      };
+    }
+    default: {
+      // Nebulae and supernova remnants
+      const height = Math.min(rx, ry);
+      return {
+        svg: `<rect x="${fmt(x - rx)}" y="${fmt(y - height)}" width="${fmt(2 * rx)}" height="${fmt(2 * height)}" rx="${fmt(2 * unit)}" ` +
+          `transform="rotate(${fmt(angle)} ${fmt(x)} ${fmt(y)})" ${stroke} stroke-dasharray="${fmt(4 * unit)} ${fmt(2 * unit)}"/>`,
+        radius: rx
+      };
+    }
+  }
+}
+
+/**
+ * Largest round length that fits in a quarter of the field, for the scale bar
+ */
+function scaleBarDegrees(fieldDegrees: number): number {
+  const steps = [1 / 60, 5 / 60, 10 / 60, 0.25, 0.5, 1, 2, 5, 10, 20];
+  let best = steps[0];
+  for (const step of steps) {
+    if (step <= fieldDegrees / 4) best = step;
+  }
+  return best;
+}
+
+function formatAngle(degrees: number): string {
+  return degrees >= 1 ? `${degrees}°` : `${Math.round(degrees * 60)}′`;
+}
+
+function formatCenter(center: EquatorialCoordinates): string {
+  const totalMinutes = Math.round(center.rightAscension * 600) / 10;
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes - Math.floor(totalMinutes / 60) * 60;
+  const dec = Math.abs(center.declination);
+  const decMinutes = Math.round(dec * 60);
+  const sign = center.declination < 0 ? '−' : '+';
+  return `RA ${hours}h ${minutes.toFixed(1)}m  Dec ${sign}${Math.floor(decMinutes / 60)}° ${String(decMinutes % 60).padStart(2, '0')}′ (J2000)`;
+}
+
+/**
+ * Draw a printable finder chart as SVG: stars sized by magnitude, deep sky objects with
+ * outlines from their catalog axes, solar system bodies, constellation figure lines, field of
+ * view outlines around the center, and an optional star-hop route ending at the target
+ */
+export function renderFinderChart(options: FinderChartOptions): FinderChart {
+  const { sizePixels, fieldDegrees, limitingMagnitude } = options;
+  const projection = new ChartProjection(options);
+  const unit = sizePixels / 800;
+  const height = HEADER_HEIGHT + sizePixels + FOOTER_HEIGHT;
+  const coneRadius = fieldDegrees / Math.SQRT2 + 0.5;
+  const labels: string[] = [];
+  const layers: string[] = [];
+
+  // Constellation figures, beneath everything else. The gnomonic projection maps great circles
+  // to straight lines, so segments are drawn between their projected ends and clipped to the chart.
+  const constellations = new Set<string>();
+  const labeledConstellations = new Set<string>();
+  const half = sizePixels / 2;
+  const { x, y } = projection.center;
+  for (const line of options.constellationLines ?? []) {
+    const points = line.stars.map(star => projection.project(star));
+    for (let i = 1; i < points.length; i++) {
+      const [from, to] = [points[i - 1], points[i]];
+      if (!from || !to) continue;
+      if (Math.max(from.x, to.x) < x - half || Math.min(from.x, to.x) > x + half ||
+          Math.max(from.y, to.y) < y - half || Math.min(from.y, to.y) > y + half) continue;
+      layers.push(`<line x1="${fmt(from.x)}" y1="${fmt(from.y)}" x2="${fmt(to.x)}" y2="${fmt(to.y)}" stroke="${FIGURE_INK}" stroke-width="${fmt(1.2 * unit)}"/>`);
+      constellations.add(line.constellation);
+      // Each figure is named once, at the middle of its first segment well inside the chart
+      const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+      if (!labeledConstellations.has(line.constellation) && projection.contains(middle, -20 * unit)) {
+        labeledConstellations.add(line.constellation);
+        labels.push(label(line.constellation.toUpperCase(), middle, unit, { size: 10, anchor: 'middle', color: FIGURE_INK }));
+      }
+    }
+  }
+
+  // Field of view outlines
+  for (const field of options.fields ?? []) {
+    const halfWidth = field.widthDegrees / 2 * projection.scale;
+    const { x, y } = projection.center;
+    if (field.heightDegrees !== undefined) {
+      const halfHeight = field.heightDegrees / 2 * projection.scale;
+      layers.push(`<rect x="${fmt(x - halfWidth)}" y="${fmt(y - halfHeight)}" width="${fmt(2 * halfWidth)}" height="${fmt(2 * halfHeight)}" ` +
+        `fill="none" stroke="${INK}" stroke-width="${fmt(1.2 * unit)}"/>`);
+      labels.push(label(field.label, { x, y: y - halfHeight - 4 * unit }, unit, { size: 10, anchor: 'middle' }));
+    } else {
+      layers.push(`<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(halfWidth)}" fill="none" stroke="${INK}" stroke-width="${fmt(1.2 * unit)}"/>`);
+      labels.push(label(field.label, { x, y: y - halfWidth - 4 * unit }, unit, { size: 10, anchor: 'middle' }));
+    }
+  }
+
+  // Deep sky objects; catalog positions are J2000, like the center
+  let deepSkyObjectCount = 0;
+  for (const { item } of DSO_INDEX.queryCone(options.center, coneRadius)) {
+    const category = getObjectCategory(item.name!, item.type);
+    if (SKIPPED_DSO_CATEGORIES.includes(category)) continue;
+    if (options.dsoMagnitudeLimit !== undefined && item.magnitude !== undefined && item.magnitude > options.dsoMagnitudeLimit) continue;
+    const point = projection.project(item);
+    if (!point || !projection.contains(point, 50 * unit)) continue;
+    const symbol = deepSkySymbol(item, category, point, projection, unit);
+    layers.push(symbol.svg);
+    if (projection.contains(point)) {
+      deepSkyObjectCount++;
+      labels.push(label(item.name!, { x: point.x + symbol.radius * 0.7 + 2 * unit, y: point.y - symbol.radius * 0.7 - 2 * unit }, unit, { color: DSO_INK }));
+    }
+  }
+
+  // Stars, faintest first so bright stars are drawn on top; the Sun (HYG id 0) is plotted as a body
+  const stars = STAR_INDEX.queryCone(options.center, coneRadius, limitingMagnitude)
+    .map(({ item }) => ({ star: item, point: projection.project(item) }))
+    .filter(entry => entry.star.hygId !== '0' && entry.point && projection.contains(entry.point, 10 * unit))
+    .sort((a, b) => a.star.magnitude! - b.star.magnitude!)
+    .slice(0, FINDER_CHART_CONFIG.maxStars)
+    .reverse();
+  const labelMagnitude = limitingMagnitude - FINDER_CHART_CONFIG.labelMagnitudeOffset;
+  const hopStarNames = new Set((options.hopPath ?? []).map(hop => hop.position.name ?? hop.name));
+  for (const { star, point } of stars) {
+    const radius = starRadius(star.magnitude!, limitingMagnitude, unit);
+    layers.push(`<circle cx="${fmt(point!.x)}" cy="${fmt(point!.y)}" r="${fmt(radius)}" fill="${INK}" stroke="#fff" stroke-width="${fmt(0.8 * unit)}"/>`);
+    // Catalog numbers would clutter the chart; only proper names and Bayer/Flamsteed designations are shown
+    const name = star.name && !/^(HIP|HD|HR|Gl|Gliese|HYG|Star mag)\s/i.test(star.name) ? star.name : undefined;
+    // Hop stars are labeled with their place in the route instead
+    if (name && star.magnitude! <= labelMagnitude && !hopStarNames.has(name)) {
+      labels.push(label(name, { x: point!.x + radius + 2 * unit, y: point!.y + 4 * unit }, unit));
+    }
+  }
+
+  // Sun, Moon and planets
+  let bodyCount = 0;
+  for (const body of options.bodies ?? []) {
+    const point = projection.project(body.position);
+    if (!point) continue;
+    const radius = Math.max(5 * unit, (body.diameterDegrees ?? 0) / 2 * projection.scale);
+    if (!projection.contains(point, radius)) continue;
+    bodyCount++;
+    layers.push(`<circle cx="${fmt(point.x)}" cy="${fmt(point.y)}" r="${fmt(radius)}" fill="#ddd" stroke="${INK}" stroke-width="${fmt(1.5 * unit)}"/>` +
+      `<circle cx="${fmt(point.x)}" cy="${fmt(point.y)}" r="${fmt(1.2 * unit)}" fill="${INK}"/>`);
+    labels.push(label(body.name, { x: point.x + radius + 3 * unit, y: point.y - radius * 0.5 }, unit, { size: 12 }));
+  }
+
+  // Star-hop route, ending at the target in the chart center
+  const hopStarsOutsideField: string[] = [];
+  const hopPath = options.hopPath ?? [];
+  if (hopPath.length > 0) {
+    const points: ChartPoint[] = [];
+    hopPath.forEach((hop, index) => {
+      const point = projection.project(hop.position);
+      if (!point || !projection.contains(point)) {
+        hopStarsOutsideField.push(hop.name);
+      }
+      if (!point) return;
+      points.push(point);
+      layers.push(`<circle cx="${fmt(point.x)}" cy="${fmt(point.y)}" r="${fmt(10 * unit)}" fill="none" stroke="${PATH_INK}" stroke-width="${fmt(1.2 * unit)}"/>`);
+      labels.push(label(index === 0 ? `Start: ${hop.name}` : `${index}. ${hop.name}`,
+        { x: point.x - 12 * unit, y: point.y - 12 * unit }, unit, { anchor: 'end', color: PATH_INK }));
+    });
+    points.push(projection.center);
+    layers.push(`<polyline points="${points.map(p => `${fmt(p.x)},${fmt(p.y)}`).join(' ')}" fill="none" stroke="${PATH_INK}" ` +
+      `stroke-width="${fmt(1.5 * unit)}" stroke-dasharray="${fmt(6 * unit)} ${fmt(4 * unit)}"/>`);
+  }
+
+  // Target marker: four ticks around the center, leaving the object itself clear
+  const { x: cx, y: cy } = projection.center;
+  const gap = 9 * unit;
+  const tick = 14 * unit;
+  layers.push(`<path d="M${fmt(cx - gap - tick)} ${fmt(cy)}H${fmt(cx - gap)}M${fmt(cx + gap)} ${fmt(cy)}H${fmt(cx + gap + tick)}` +
+    `M${fmt(cx)} ${fmt(cy - gap - tick)}V${fmt(cy - gap)}M${fmt(cx)} ${fmt(cy + gap)}V${fmt(cy + gap + tick)}" ` +
+    `stroke="#c00" stroke-width="${fmt(2 * unit)}"/>`);
+
+  // Compass in the upper left corner of the chart
+  const compassOrigin = { x: 40 * unit, y: HEADER_HEIGHT + 40 * unit };
+  const northAngle = projection.screenAngle(options.center, 0) * Astronomy.DEG2RAD;
+  const eastAngle = projection.screenAngle(options.center, 90) * Astronomy.DEG2RAD;
+  const arm = 24 * unit;
+  const compass = [
+    { name: 'N', angle: northAngle },
+    { name: 'E', angle: eastAngle }
+  ].map(({ name, angle }) => {
+    const tip = { x: compassOrigin.x + arm * Math.cos(angle), y: compassOrigin.y + arm * Math.sin(angle) };
+    const text = { x: compassOrigin.x + (arm + 9 * unit) * Math.cos(angle), y: compassOrigin.y + (arm + 9 * unit) * Math.sin(angle) + 4 * unit };
+    return `<line x1="${fmt(compassOrigin.x)}" y1="${fmt(compassOrigin.y)}" x2="${fmt(tip.x)}" y2="${fmt(tip.y)}" stroke="${INK}" stroke-width="${fmt(1.5 * unit)}"/>` +
+      label(name, text, unit, { size: 12, anchor: 'middle' });
+  });
+
+  // Scale bar in the footer
+  const barDegrees = scaleBarDegrees(fieldDegrees);
+  const barLength = barDegrees * projection.scale;
+  const barY = HEADER_HEIGHT + sizePixels + 20;
+  const barRight = sizePixels - 10;
+  const footer = [
+    `<path d="M${fmt(barRight - barLength)} ${fmt(barY - 5)}V${fmt(barY)}H${fmt(barRight)}V${fmt(barY - 5)}" fill="none" stroke="${INK}" stroke-width="1.5"/>`,
+    `<text x="${fmt(barRight - barLength - 6)}" y="${fmt(barY)}" font-size="11" text-anchor="end">${escapeXml(formatAngle(barDegrees))}</text>`,
+    `<text x="10" y="${fmt(barY - 6)}" font-size="11">${escapeXml(formatCenter(options.center))}</text>`,
+    ...(options.caption ? [`<text x="10" y="${fmt(barY + 9)}" font-size="11">${escapeXml(options.caption)}</text>`] : [])
+  ];
+
+  const subtitle = `${formatAngle(fieldDegrees)} field · stars to magnitude ${limitingMagnitude} · ${ORIENTATION_LABELS[options.orientation]}`;
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${sizePixels}" height="${height}" viewBox="0 0 ${sizePixels} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<title>${escapeXml(`Finder chart for ${options.targetName}`)}</title>`,
+    `<defs><clipPath id="chart-area"><rect x="0" y="${HEADER_HEIGHT}" width="${sizePixels}" height="${sizePixels}"/></clipPath></defs>`,
+    `<rect width="${sizePixels}" height="${height}" fill="#fff"/>`,
+    `<text x="10" y="22" font-size="18" font-weight="bold">${escapeXml(options.targetName)}</text>`,
+    `<text x="10" y="40" font-size="12">${escapeXml(subtitle)}</text>`,
+    `<g clip-path="url(#chart-area)">`,
+    ...layers,
+    ...labels,
+    ...compass,
+    `</g>`,
+    `<rect x="0.5" y="${HEADER_HEIGHT + 0.5}" width="${sizePixels - 1}" height="${sizePixels - 1}" fill="none" stroke="${INK}"/>`,
+    ...footer,
+    `</svg>`
+  ].join('\n');
+
+  return {
+    svg,
+    starCount: stars.length,
+    deepSkyObjectCount,
+    bodyCount,
+    constellations: [...constellations],
+    hopStarsOutsideField
+  };
+}
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_DIR } from '../config.js';
+import { HorizontalCoordinates } from './astronomy.js';
+import { ObserverProfile, ObserverProfileError } from './observers.js';
+
+/**
+ * One point of a local horizon profile: the lowest altitude that is clear of obstructions
+ * (trees, buildings, hills) at an azimuth
+ */
+export interface HorizonPoint {
+  azimuth: number;  // in degrees, north through east
+  altitude: number; // in degrees
+}
+
+export interface HorizonProfile {
+  source: string;         // File name or 'inline' for data given directly
+  points: HorizonPoint[]; // Sorted by azimuth, azimuths within [0, 360)
+}
+
+// Comment markers of simple CSV files and Stellarium polygonal horizon files
+const COMMENT_PREFIXES = ['#', ';', '//'];
+
+function normalizeAzimuth(azimuth: number): number {
+  return ((azimuth % 360) + 360) % 360;
+}
+
+/**
+ * Parse a horizon profile from text. Accepts a simple CSV of "azimuth,altitude" rows (an
+ * optional header row is skipped) and the Stellarium polygonal horizon format of
+ * whitespace-separated "azimuth altitude" pairs. Between points the horizon is interpolated
+ * linearly, wrapping around north.
+ * @param profileName Observer profile the horizon is for, used in error reports
+ * @throws ObserverProfileError with code INVALID_HORIZON
+ */
+export function parseHorizonProfile(text: string, source: string, profileName: string): HorizonProfile {
+  const byAzimuth = new Map<number, number>();
+  const problems: string[] = [];
+  let dataLines = 0;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || COMMENT_PREFIXES.some(prefix => line.startsWith(prefix))) return;
+    const fields = line.split(/[\s,;]+/).filter(Boolean);
+    const azimuth = parseFloat(fields[0]);
+    const altitude = parseFloat(fields[1]);
+    dataLines++;
+    if (fields.length < 2 || !Number.isFinite(azimuth) || !Number.isFinite(altitude)) {
+      // The first row of a CSV file may be a header such as "azimuth,altitude"
+      if (dataLines === 1 && !/\d/.test(fields[0] ?? '')) return;
+      problems.push(`line ${index + 1} is not an azimuth/altitude pair`);
+      return;
+    }
+    if (altitude < -90 || altitude > 90) {
+      problems.push(`line ${index + 1}: altitude must be between -90 and 90`);
+      return;
+    }
+    // 0° and 360° are the same azimuth; keep the higher obstruction if both are given
+    const key = normalizeAzimuth(azimuth);
+    byAzimuth.set(key, Math.max(altitude, byAzimuth.get(key) ?? -90));
+  });
+
+  if (problems.length === 0 && byAzimuth.size === 0) {
+    problems.push('no azimuth/altitude points found');
+  }
+  if (problems.length > 0) {
+    throw new ObserverProfileError(
+      'INVALID_HORIZON',
+      profileName,
+      `Invalid horizon profile from ${source}: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? `; and ${problems.length - 5} more` : ''}.`
+    );
+  }
+
+  const points = Array.from(byAzimuth, ([azimuth, altitude]) => ({ azimuth, altitude }))
+    .sort((a, b) => a.azimuth - b.azimuth);
+  return { source, points };
+}
+
+/**
+ * Read and parse a horizon profile file
+ * @param filePath Absolute path, or a path relative to the data directory
+ * @throws ObserverProfileError with code INVALID_HORIZON when the file cannot be read or parsed
+ */
+export function loadHorizonFile(filePath: string, profileName: string): HorizonProfile {
+  const resolved = path.resolve(DATA_DIR, filePath);
+  let text: string;
+  try {
+    text = fs.readFileSync(resolved, 'utf8');
+  } catch (error: any) {
+    throw new ObserverProfileError('INVALID_HORIZON', profileName, `Cannot read horizon file ${resolved}: ${error.message}`);
+  }
+  return parseHorizonProfile(text, path.basename(resolved), profileName);
+}
+
+/**
+ * Altitude of a horizon profile at an azimuth, interpolated linearly between points
+ */
+export function horizonAltitudeAt(horizon: HorizonProfile, azimuth: number): number {
+  const { points } = horizon;
+  if (points.length === 1) return points[0].altitude;
+
+  const az = normalizeAzimuth(azimuth);
+  // The segment that wraps through north joins the last point to the first one
+  let before = points[points.length - 1];
+  let after = points[0];
+  for (let i = 0; i < points.length; i++) {
+    if (points[i].azimuth > az) {
+      after = points[i];
+      before = points[(i - 1 + points.length) % points.length];
+      break;
+    }
+    before = points[i];
+    after = points[(i + 1) % points.length];
+  }
+  const span = normalizeAzimuth(after.azimuth - before.azimuth) || 360;
+  const fraction = normalizeAzimuth(az - before.azimuth) / span;
+  return before.altitude + (after.altitude - before.altitude) * fraction;
+}
+
+/**
+ * Whether a profile defines a local horizon beyond the mathematical one (0°)
+ */
+export function hasLocalHorizon(profile: ObserverProfile): boolean {
+  return !!profile.horizon || profile.horizonAltitude !== undefined;
+}
+
+/**
+ * Minimum altitude clear of the local horizon at an azimuth: the horizon profile, raised to
+ * the flat horizonAltitude where that is higher. Without either, the mathematical horizon.
+ */
+export function localHorizonAltitude(profile: ObserverProfile, azimuth: number): number {
+  if (profile.horizon) {
+    return Math.max(horizonAltitudeAt(profile.horizon, azimuth), profile.horizonAltitude ?? -90);
+  }
+  return profile.horizonAltitude ?? 0;
+}
+
+/**
+ * Whether a position is clear of the observer's local horizon
+ */
+export function isAboveLocalHorizon(profile: ObserverProfile, position: HorizontalCoordinates): boolean {
+  return position.altitude > localHorizonAltitude(profile, position.azimuth);
+}
+
+export interface LocalHorizonCrossings {
+  clears: Date | null; // First time the object rises above the local horizon
+  hidden: Date | null; // First time the object sinks behind the local horizon
+}
+
+// Sampling step of the crossing search; crossings are then refined by bisection
+const CROSSING_STEP_MS = 5 * 60000;
+const CROSSING_PRECISION_MS = 1000;
+
+/**
+ * Find when an object next clears and next sinks behind the local horizon within a time range.
+ * Obstructions narrower than the sampling step in time may be missed.
+ * @param altAzAt Horizontal position of the object at a time
+ */
+export async function findLocalHorizonCrossings(
+  profile: ObserverProfile,
+  altAzAt: (date: Date) => HorizontalCoordinates | Promise<HorizontalCoordinates>,
+  start: Date,
+  end: Date
+): Promise<LocalHorizonCrossings> {
+  const clearAt = async (t: number) => isAboveLocalHorizon(profile, await altAzAt(new Date(t)));
+  const crossings: LocalHorizonCrossings = { clears: null, hidden: null };
+
+  let t = start.getTime();
+  let clear = await clearAt(t);
+  while (t < end.getTime() && (!crossings.clears || !crossings.hidden)) {
+    const next = Math.min(t + CROSSING_STEP_MS, end.getTime());
+    const nextClear = await clearAt(next);
+    if (nextClear !== clear) {
+      let low = t;
+      let high = next;
+      while (high - low > CROSSING_PRECISION_MS) {
+        const mid = (low + high) / 2;
+        if ((await clearAt(mid)) === clear) low = mid; else high = mid;
+      }
+      const crossing = new Date(Math.round(high));
+      if (nextClear && !crossings.clears) crossings.clears = crossing;
+      if (!nextClear && !crossings.hidden) crossings.hidden = crossing;
+    }
+    t = next;
+    clear = nextClear;
+  }
+  return crossings;
+}
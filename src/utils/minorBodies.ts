@@ -0,0 +1,346 @@
+import * as fs from 'fs';
+import * as Astronomy from 'astronomy-engine';
+
+/**
+ * Heliocentric orbital elements of a comet or asteroid, referred to the J2000 ecliptic.
+ * Orbits are described by perihelion distance and time so elliptic, parabolic and
+ * hyperbolic orbits share one propagator.
+ */
+export interface MinorBody {
+  name: string;           // Display name, e.g. 'Ceres', 'C/2023 A3 (Tsuchinshan-ATLAS)'
+  designation: string;    // Catalog designation, e.g. '(1) Ceres', 'C/2023 A3'
+  kind: 'asteroid' | 'comet';
+  perihelionDistance: number; // q, AU
+  eccentricity: number;
+  inclination: number;        // degrees
+  ascendingNode: number;      // degrees
+  argumentOfPerihelion: number; // degrees
+  perihelionTimeTT: number;   // days since J2000 (TT)
+  // Magnitude parameters
+  absoluteMagnitude?: number; // H (asteroids) or total absolute magnitude M1 (comets)
+  slopeParameter?: number;    // G (asteroids) or MPC comet slope parameter (K = 2.5 * G)
+}
+
+export interface MinorBodyPosition {
+  rightAscension: number; // hours, astrometric J2000
+  declination: number;    // degrees, astrometric J2000
+  distanceAU: number;     // from Earth, at the light-time corrected instant
+  heliocentricDistanceAU: number;
+  phaseAngle: number;     // degrees (Sun-body-Earth)
+  magnitude?: number;
+  lightTimeDays: number;
+}
+
+// Minor bodies keyed by every lowercase alias (name, designation, number)
+export const MINOR_BODY_CATALOG: Map<string, MinorBody> = new Map();
+
+// Gaussian gravitational constant, radians per day
+const GAUSS_K = 0.01720209895;
+// Obliquity of the ecliptic at J2000, for converting MPC ecliptic elements to equatorial
+const OBLIQUITY_J2000 = 23.4392911 * Astronomy.DEG2RAD;
+const J2000_JD = 2451545.0;
+
+/**
+ * Decode an MPC packed date character (1-9, A=10 ... V=31)
+ */
+function unpackDateChar(c: string): number {
+  return /\d/.test(c) ? parseInt(c, 10) : c.charCodeAt(0) - 'A'.charCodeAt(0) + 10;
+}
+
+/**
+ * Decode an MPC packed epoch like 'K2555' (2025-05-05) to days since J2000 TT
+ */
+function unpackEpoch(packed: string): number | undefined {
+  const match = packed.trim().match(/^([IJK])(\d{2})([1-9A-C])([1-9A-V])$/);
+  if (!match) return undefined;
+  const century = { I: 1800, J: 1900, K: 2000 }[match[1] as 'I' | 'J' | 'K'];
+  const year = century + parseInt(match[2], 10);
+  return calendarToDaysSinceJ2000(year, unpackDateChar(match[3]), unpackDateChar(match[4]));
+}
+
+/**
+ * Days since J2000 for a calendar date with a fractional day (TT)
+ */
+function calendarToDaysSinceJ2000(year: number, month: number, day: number): number {
+  const ms = Date.UTC(year, month - 1, 1) + (day - 1) * 86400000;
+  return ms / 86400000 + 2440587.5 - J2000_JD;
+}
+
+function parseColumn(line: string, start: number, end: number): number | undefined {
+  const text = line.substring(start - 1, end).trim();
+  if (text === '') return undefined;
+  const value = parseFloat(text);
+  return isNaN(value) ? undefined : value;
+}
+
+function registerMinorBody(body: MinorBody, aliases: string[]): void {
+  for (const alias of aliases) {
+    const key = alias.trim().toLowerCase();
+    // First entry wins so a common name shared by several comets stays with the first one
+    if (key && !MINOR_BODY_CATALOG.has(key)) {
+      MINOR_BODY_CATALOG.set(key, body);
+    }
+  }
+}
+
+/**
+ * Load asteroids from a file in the MPCORB.DAT fixed-column format
+ * @param filePath Path to the MPCORB file
+ * @param maxAbsoluteMagnitude Skip asteroids fainter than this H to keep the catalog manageable
+ */
+export function loadMPCORB(filePath: string, maxAbsoluteMagnitude: number): void {
+  try {
+    if (!fs.existsSync(filePath)) {
+      console.warn(`Asteroid orbit file ${filePath} not found. Data from this file will not be loaded.`);
+      return;
+    }
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+    let count = 0;
+
+    for (const line of lines) {
+      // Data lines are 160+ characters; this skips the header and blank separators
+      if (line.length < 160) continue;
+
+      const h = parseColumn(line, 9, 13);
+      if (h !== undefined && h > maxAbsoluteMagnitude) continue;
+
+      const epoch = unpackEpoch(line.substring(20, 25));
+      const meanAnomaly = parseColumn(line, 27, 35);
+      const argPeri = parseColumn(line, 38, 46);
+      const node = parseColumn(line, 49, 57);
+      const incl = parseColumn(line, 60, 68);
+      const ecc = parseColumn(line, 71, 79);
+      const meanMotion = parseColumn(line, 81, 91);
+      const semiMajorAxis = parseColumn(line, 93, 103);
+      if (epoch === undefined || meanAnomaly === undefined || argPeri === undefined || node === undefined ||
+          incl === undefined || ecc === undefined || meanMotion === undefined || semiMajorAxis === undefined) {
+        continue;
+      }
+
+      const designation = line.substring(166, 194).trim();
+      if (!designation) continue;
+      // '(1) Ceres' -> number 1, name 'Ceres'; provisional designations have no number
+      const numbered = designation.match(/^\((\d+)\)\s*(.*)$/);
+      const name = numbered && numbered[2] ? numbered[2] : designation;
+
+      const body: MinorBody = {
+        name,
+        designation,
+        kind: 'asteroid',
+        perihelionDistance: semiMajorAxis * (1 - ecc),
+        eccentricity: ecc,
+        inclination: incl,
+        ascendingNode: node,
+        argumentOfPerihelion: argPeri,
+        perihelionTimeTT: epoch - meanAnomaly / meanMotion,
+        absoluteMagnitude: h,
+        slopeParameter: parseColumn(line, 15, 19) ?? 0.15
+      };
+
+      const aliases = [name, designation];
+      if (numbered) {
+        aliases.push(`${numbered[1]} ${numbered[2]}`.trim(), `(${numbered[1]})`);
+      }
+      registerMinorBody(body, aliases);
+      count++;
+    }
+    console.log(`Loaded ${count} asteroids from ${filePath}`);
+  } catch (error) {
+    console.error(`Failed to load asteroid orbits from ${filePath}: ${error}. Data from this file will not be loaded.`);
+  }
+}
+
+/**
+ * Load comets from a file in the MPC comet export format (CometEls.txt)
+ * @param filePath Path to the comet elements file
+ */
+export function loadCometElements(filePath: string): void {
+  try {
+    if (!fs.existsSync(filePath)) {
+      console.warn(`Comet orbit file ${filePath} not found. Data from this file will not be loaded.`);
+      return;
+    }
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+    let count = 0;
+
+    for (const line of lines) {
+      if (line.length < 102) continue;
+
+      const year = parseColumn(line, 15, 18);
+      const month = parseColumn(line, 20, 21);
+      const day = parseColumn(line, 23, 29);
+      const q = parseColumn(line, 31, 39);
+      const ecc = parseColumn(line, 42, 49);
+      const argPeri = parseColumn(line, 52, 59);
+      const node = parseColumn(line, 62, 69);
+      const incl = parseColumn(line, 72, 79);
+      if (year === undefined || month === undefined || day === undefined || q === undefined ||
+          ecc === undefined || argPeri === undefined || node === undefined || incl === undefined) {
+        continue;
+      }
+
+      const fullName = line.substring(102, 158).trim();
+      if (!fullName) continue;
+      // 'C/2023 A3 (Tsuchinshan-ATLAS)' or '1P/Halley'
+      const designationMatch = fullName.match(/^(\S+\/\S+(?:\s+[A-Z]{1,2}\d*(?:-[A-Z])?)?)(?:\s+\((.+)\))?$/);
+      const designation = designationMatch ? designationMatch[1] : fullName;
+      const commonName = designationMatch ? designationMatch[2] : undefined;
+
+      const body: MinorBody = {
+        name: fullName,
+        designation,
+        kind: 'comet',
+        perihelionDistance: q,
+        eccentricity: ecc,
+        inclination: incl,
+        ascendingNode: node,
+        argumentOfPerihelion: argPeri,
+        perihelionTimeTT: calendarToDaysSinceJ2000(year, month, day),
+        absoluteMagnitude: parseColumn(line, 92, 95),
+        slopeParameter: parseColumn(line, 97, 100)
+      };
+
+      const aliases = [fullName, designation];
+      if (commonName) aliases.push(commonName);
+      // Periodic comets: '1P/Halley' is also known as '1P' and 'Halley'
+      const periodic = designation.match(/^(\d+[PD])\/(.+)$/);
+      if (periodic) aliases.push(periodic[1], periodic[2]);
+      registerMinorBody(body, aliases);
+      count++;
+    }
+    console.log(`Loaded ${count} comets from ${filePath}`);
+  } catch (error) {
+    console.error(`Failed to load comet orbits from ${filePath}: ${error}. Data from this file will not be loaded.`);
+  }
+}
+
+/**
+ * Solve the two-body problem for heliocentric distance and true anomaly at a time
+ */
+function solveOrbit(body: MinorBody, ttDays: number): { r: number; trueAnomaly: number } {
+  const q = body.perihelionDistance;
+  const e = body.eccentricity;
+  const dt = ttDays - body.perihelionTimeTT;
+
+  if (Math.abs(e - 1) < 1e-6) {
+    // Parabolic: Barker's equation s^3 + 3s = W, solved in closed form
+    const w = (3 * GAUSS_K / Math.sqrt(2 * q * q * q)) * dt;
+    const y = Math.cbrt(w / 2 + Math.sqrt(w * w / 4 + 1));
+    const s = y - 1 / y;
+    return { r: q * (1 + s * s), trueAnomaly: 2 * Math.atan(s) };
+  }
+
+  if (e < 1) {
+    const a = q / (1 - e);
+    let meanAnomaly = (GAUSS_K / Math.sqrt(a * a * a)) * dt;
+    meanAnomaly = Math.atan2(Math.sin(meanAnomaly), Math.cos(meanAnomaly));
+    // Newton iteration on Kepler's equation; starting at pi converges for high eccentricities
+    let E = e > 0.8 ? Math.PI * Math.sign(meanAnomaly || 1) : meanAnomaly;
+    for (let i = 0; i < 50; i++) {
+      const delta = (E - e * Math.sin(E) - meanAnomaly) / (1 - e * Math.cos(E));
+      E -= delta;
+      if (Math.abs(delta) < 1e-12) break;
+    }
+    const trueAnomaly = 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+    return { r: a * (1 - e * Math.cos(E)), trueAnomaly };
+  }
+
+  // Hyperbolic
+  const a = q / (e - 1);
+  const meanAnomaly = (GAUSS_K / Math.sqrt(a * a * a)) * dt;
+  let H = Math.asinh(meanAnomaly / e);
+  for (let i = 0; i < 50; i++) {
+    const delta = (e * Math.sinh(H) - H - meanAnomaly) / (e * Math.cosh(H) - 1);
+    H -= delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+  const trueAnomaly = 2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(H / 2));
+  return { r: a * (e * Math.cosh(H) - 1), trueAnomaly };
+}
+
+/**
+ * Heliocentric position in J2000 equatorial coordinates (AU) at a time
+ */
+function heliocentricPosition(body: MinorBody, ttDays: number): { x: number; y: number; z: number } {
+  const { r, trueAnomaly } = solveOrbit(body, ttDays);
+  const node = body.ascendingNode * Astronomy.DEG2RAD;
+  const incl = body.inclination * Astronomy.DEG2RAD;
+  const u = body.argumentOfPerihelion * Astronomy.DEG2RAD + trueAnomaly;
+
+  // Ecliptic coordinates
+  const xe = r * (Math.cos(node) * Math.cos(u) - Math.sin(node) * Math.sin(u) * Math.cos(incl));
+  const ye = r * (Math.sin(node) * Math.cos(u) + Math.cos(node) * Math.sin(u) * Math.cos(incl));
+  const ze = r * Math.sin(u) * Math.sin(incl);
+
+  // Rotate ecliptic -> equatorial
+  return {
+    x: xe,
+    y: ye * Math.cos(OBLIQUITY_J2000) - ze * Math.sin(OBLIQUITY_J2000),
+    z: ye * Math.sin(OBLIQUITY_J2000) + ze * Math.cos(OBLIQUITY_J2000)
+  };
+}
+
+/**
+ * Apparent magnitude from the IAU H/G system (asteroids) or the MPC total magnitude law (comets)
+ */
+function computeMagnitude(body: MinorBody, r: number, delta: number, phaseAngle: number): number | undefined {
+  if (body.absoluteMagnitude === undefined) return undefined;
+  if (body.kind === 'comet') {
+    const slope = body.slopeParameter ?? 4.0;
+    return body.absoluteMagnitude + 5 * Math.log10(delta) + 2.5 * slope * Math.log10(r);
+  }
+  const g = body.slopeParameter ?? 0.15;
+  const tanHalfAlpha = Math.tan((phaseAngle * Astronomy.DEG2RAD) / 2);
+  const phi1 = Math.exp(-3.33 * Math.pow(tanHalfAlpha, 0.63));
+  const phi2 = Math.exp(-1.87 * Math.pow(tanHalfAlpha, 1.22));
+  return body.absoluteMagnitude + 5 * Math.log10(r * delta) - 2.5 * Math.log10((1 - g) * phi1 + g * phi2);
+}
+
+/**
+ * Geocentric astrometric position of a minor body from its two-body orbit,
+ * with light-time correction (no planetary perturbations).
+ */
+export function getMinorBodyPosition(body: MinorBody, date: Date): MinorBodyPosition {
+  const time = Astronomy.MakeTime(date);
+  const earth = Astronomy.HelioVector(Astronomy.Body.Earth, time);
+
+  let lightTime = 0;
+  let helio = heliocentricPosition(body, time.tt);
+  let dx = 0, dy = 0, dz = 0, delta = 0;
+  for (let i = 0; i < 5; i++) {
+    helio = heliocentricPosition(body, time.tt - lightTime);
+    dx = helio.x - earth.x;
+    dy = helio.y - earth.y;
+    dz = helio.z - earth.z;
+    delta = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const newLightTime = delta / Astronomy.C_AUDAY;
+    if (Math.abs(newLightTime - lightTime) < 1e-9) break;
+    lightTime = newLightTime;
+  }
+
+  const r = Math.sqrt(helio.x * helio.x + helio.y * helio.y + helio.z * helio.z);
+  const earthSun = Math.sqrt(earth.x * earth.x + earth.y * earth.y + earth.z * earth.z);
+  const cosPhase = (r * r + delta * delta - earthSun * earthSun) / (2 * r * delta);
+  const phaseAngle = Math.acos(Math.max(-1, Math.min(1, cosPhase))) * Astronomy.RAD2DEG;
+
+  let ra = Math.atan2(dy, dx) * Astronomy.RAD2HOUR;
+  if (ra < 0) ra += 24;
+  const dec = Math.asin(dz / delta) * Astronomy.RAD2DEG;
+
+  return {
+    rightAscension: ra,
+    declination: dec,
+    distanceAU: delta,
+    heliocentricDistanceAU: r,
+    phaseAngle,
+    magnitude: computeMagnitude(body, r, delta, phaseAngle),
+    lightTimeDays: lightTime
+  };
+}
+
+/**
+ * Unique minor bodies of one kind (the catalog holds one entry per alias)
+ */
+export function listMinorBodies(kind: MinorBody['kind']): MinorBody[] {
+  return Array.from(new Set(MINOR_BODY_CATALOG.values())).filter(body => body.kind === kind);
+}
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import { parse } from 'csv-parse/sync';
+import * as Astronomy from 'astronomy-engine';
+import { LUNAR_FEATURES_FILE } from '../config.js';
+import { Observer } from './astronomy.js';
+import { toAstronomyObserver } from './night.js';
+
+const MOON_RADIUS_KM = 1737.4;
+// Inclination of the mean lunar equator to the ecliptic (Meeus, Astronomical Algorithms, ch. 53)
+const LUNAR_EQUATOR_INCLINATION = 1.54242 * Astronomy.DEG2RAD;
+
+/**
+ * A named feature on the lunar surface
+ */
+export interface LunarFeature {
+  name: string;
+  type: string;       // Crater, Mare, Mountain range, Rille...
+  latitude: number;   // Selenographic latitude in degrees, north positive
+  longitude: number;  // Selenographic longitude in degrees, east positive
+  diameterKm: number; // Diameter, or length for linear features
+}
+
+/**
+ * A point on the lunar surface in selenographic coordinates (degrees)
+ */
+export interface SelenographicPoint {
+  longitude: number;
+  latitude: number;
+}
+
+export type MoonPhaseName =
+  | 'New Moon'
+  | 'Waxing Crescent'
+  | 'First Quarter'
+  | 'Waxing Gibbous'
+  | 'Full Moon'
+  | 'Waning Gibbous'
+  | 'Last Quarter'
+  | 'Waning Crescent';
+
+const PHASE_NAMES: MoonPhaseName[] = [
+  'New Moon',
+  'Waxing Crescent',
+  'First Quarter',
+  'Waxing Gibbous',
+  'Full Moon',
+  'Waning Gibbous',
+  'Last Quarter',
+  'Waning Crescent'
+];
+
+/**
+ * Where the Moon is and how it is lit and oriented for an observer at a time
+ */
+export interface LunarEphemeris {
+  previousNewMoon: Date;
+  ageDays: number;
+  phaseName: MoonPhaseName;
+  elongation: number;          // Moon's ecliptic longitude minus the Sun's, 0-360 degrees
+  illuminatedFraction: number; // 0-1
+  waxing: boolean;
+  topocentricDistanceKm: number;
+  geocentricDistanceKm: number;
+  topocentricDiameter: number; // Apparent diameter in degrees
+  geocentricDiameter: number;
+  libration: SelenographicPoint; // Sub-Earth point: libration in longitude and latitude
+  subsolarPoint: SelenographicPoint;
+  colongitude: number;           // Selenographic longitude of the morning terminator, 0-360 degrees
+  brightLimbPositionAngle: number; // Measured from celestial north through east, in degrees
+  altitude: number;
+  azimuth: number;
+}
+
+/**
+ * A lunar feature close to the terminator, where low sunlight casts long shadows
+ */
+export interface TerminatorFeature extends LunarFeature {
+  sunAltitude: number;              // Altitude of the Sun above the feature's center, in degrees
+  terminator: 'morning' | 'evening'; // Morning: the Sun is rising over the feature
+  illuminated: boolean;             // Whether the Sun is above the feature's center
+}
+
+let lunarFeatures: LunarFeature[] | null = null;
+
+/**
+ * Named lunar features from the bundled feature list, loaded once.
+ * Returns an empty list when the file is missing or unreadable.
+ */
+export function getLunarFeatures(): LunarFeature[] {
+  if (lunarFeatures) return lunarFeatures;
+  try {
+    const records = parse(fs.readFileSync(LUNAR_FEATURES_FILE, 'utf8'), {
+      columns: true,
+      comment: '#',
+      skip_empty_lines: true,
+      trim: true
+    }) as any[];
+    lunarFeatures = records
+      .map(record => ({
+        name: record.name,
+        type: record.type,
+        latitude: parseFloat(record.latitude),
+        longitude: parseFloat(record.longitude),
+        diameterKm: parseFloat(record.diameterKm)
+      }))
+      .filter(feature => feature.name && Number.isFinite(feature.latitude) && Number.isFinite(feature.longitude));
+  } catch (error: any) {
+    console.error(`Could not load lunar features from ${LUNAR_FEATURES_FILE}: ${error.message}`);
+    lunarFeatures = [];
+  }
+  return lunarFeatures;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+function signedDegrees(angle: number): number {
+  const normalized = normalizeDegrees(angle);
+  return normalized > 180 ? normalized - 360 : normalized;
+}
+
+/**
+ * Selenographic point directly below a body (the Earth or the Sun), ignoring physical
+ * libration (Meeus, ch. 53)
+ * @param longitude Ecliptic longitude of the Moon as seen from the body, in degrees
+ * @param latitude Ecliptic latitude of the Moon as seen from the body, in degrees
+ */
+function selenographicPointBelow(time: Astronomy.AstroTime, longitude: number, latitude: number): SelenographicPoint {
+  const t = time.tt / 36525;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const t4 = t2 * t2;
+  // Moon's argument of latitude and mean longitude of the ascending node
+  const f = 93.2720950 + 483202.0175233 * t - 0.0036539 * t2 - t3 / 3526000 + t4 / 863310000;
+  const node = 125.0445479 - 1934.1362891 * t + 0.0020754 * t2 + t3 / 467441 - t4 / 60616000;
+
+  const w = (longitude - node) * Astronomy.DEG2RAD;
+  const beta = latitude * Astronomy.DEG2RAD;
+  const i = LUNAR_EQUATOR_INCLINATION;
+  const a = Math.atan2(
+    Math.sin(w) * Math.cos(beta) * Math.cos(i) - Math.sin(beta) * Math.sin(i),
+    Math.cos(w) * Math.cos(beta)
+  );
+  return {
+    longitude: signedDegrees(a * Astronomy.RAD2DEG - f),
+    latitude: Math.asin(-Math.sin(w) * Math.cos(beta) * Math.sin(i) - Math.sin(beta) * Math.cos(i)) * Astronomy.RAD2DEG
+  };
+}
+
+/**
+ * Calculate the Moon's age, phase, distance, apparent size, libration and lighting for an observer
+ */
+export function getLunarEphemeris(observer: Observer, date: Date): LunarEphemeris {
+  const time = Astronomy.MakeTime(date);
+  const astroObserver = toAstronomyObserver(observer);
+
+  const previousNewMoon = Astronomy.SearchMoonPhase(0, date, -35);
+  if (!previousNewMoon) {
+    throw new Error('Could not find the previous new moon');
+  }
+  const elongation = Astronomy.MoonPhase(date);
+  const illumination = Astronomy.Illumination(Astronomy.Body.Moon, date);
+
+  // Libration gives the sub-Earth point (optical plus physical libration) and the Moon's geocentric position
+  const libration = Astronomy.Libration(date);
+  const moonEquator = Astronomy.Equator(Astronomy.Body.Moon, date, astroObserver, true, true);
+  const topocentricDistanceKm = moonEquator.dist * Astronomy.KM_PER_AU;
+
+  // The Sun as seen from the Moon: its heliocentric direction, corrected for the Earth-Moon
+  // distance (Meeus 53.b), gives the subsolar point and the colongitude
+  const sun = Astronomy.SunPosition(date);
+  const distanceRatio = libration.dist_km / (sun.vec.Length() * Astronomy.KM_PER_AU);
+  const moonLatitude = libration.mlat * Astronomy.DEG2RAD;
+  const heliocentricLongitude = sun.elon + 180 +
+    distanceRatio * Astronomy.RAD2DEG * Math.cos(moonLatitude) * Math.sin((sun.elon - libration.mlon) * Astronomy.DEG2RAD);
+  const subsolarPoint = selenographicPointBelow(time, heliocentricLongitude, distanceRatio * libration.mlat);
+
+  // Position angle of the midpoint of the bright limb (Meeus 48.5)
+  const sunEquator = Astronomy.Equator(Astronomy.Body.Sun, date, astroObserver, true, true);
+  const deltaRa = (sunEquator.ra - moonEquator.ra) * 15 * Astronomy.DEG2RAD;
+  const sunDec = sunEquator.dec * Astronomy.DEG2RAD;
+  const moonDec = moonEquator.dec * Astronomy.DEG2RAD;
+  const brightLimbPositionAngle = normalizeDegrees(Math.atan2(
+    Math.cos(sunDec) * Math.sin(deltaRa),
+    Math.sin(sunDec) * Math.cos(moonDec) - Math.cos(sunDec) * Math.sin(moonDec) * Math.cos(deltaRa)
+  ) * Astronomy.RAD2DEG);
+
+  const horizontal = Astronomy.Horizon(date, astroObserver, moonEquator.ra, moonEquator.dec, 'normal');
+
+  return {
+    previousNewMoon: previousNewMoon.date,
+    ageDays: (date.getTime() - previousNewMoon.date.getTime()) / 86400000,
+    phaseName: PHASE_NAMES[Math.floor(normalizeDegrees(elongation + 22.5) / 45) % 8],
+    elongation,
+    illuminatedFraction: illumination.phase_fraction,
+    waxing: elongation < 180,
+    topocentricDistanceKm,
+    geocentricDistanceKm: libration.dist_km,
+    topocentricDiameter: 2 * Math.asin(MOON_RADIUS_KM / topocentricDistanceKm) * Astronomy.RAD2DEG,
+    geocentricDiameter: libration.diam_deg,
+    libration: { longitude: signedDegrees(libration.elon), latitude: libration.elat },
+    subsolarPoint,
+    colongitude: normalizeDegrees(90 - subsolarPoint.longitude),
+    brightLimbPositionAngle,
+    altitude: horizontal.altitude,
+    azimuth: horizontal.azimuth
+  };
+}
+
+/**
+ * Find named features on the Earth-facing side whose center lies within a distance of the
+ * terminator, closest first. Large features count when the terminator crosses any part of them.
+ * @param windowDegrees Maximum distance from the terminator, in degrees of selenographic arc
+ */
+export function findTerminatorFeatures(ephemeris: LunarEphemeris, windowDegrees: number): TerminatorFeature[] {
+  const toRad = Astronomy.DEG2RAD;
+  const sunLatitude = ephemeris.subsolarPoint.latitude * toRad;
+  const earthLatitude = ephemeris.libration.latitude * toRad;
+
+  return getLunarFeatures()
+    .filter(feature => {
+      // Skip features turned away from the Earth at the current libration
+      const latitude = feature.latitude * toRad;
+      const fromEarth = (feature.longitude - ephemeris.libration.longitude) * toRad;
+      return Math.sin(earthLatitude) * Math.sin(latitude) +
+        Math.cos(earthLatitude) * Math.cos(latitude) * Math.cos(fromEarth) > 0;
+    })
+    .map(feature => {
+      // Altitude of the Sun above the feature (Meeus, ch. 53)
+      const latitude = feature.latitude * toRad;
+      const hourAngle = (ephemeris.colongitude + feature.longitude) * toRad;
+      const sunAltitude = Math.asin(
+        Math.sin(sunLatitude) * Math.sin(latitude) + Math.cos(sunLatitude) * Math.cos(latitude) * Math.sin(hourAngle)
+      ) * Astronomy.RAD2DEG;
+      return {
+        ...feature,
+        sunAltitude,
+        terminator: Math.cos(hourAngle) > 0 ? 'morning' as const : 'evening' as const,
+        illuminated: sunAltitude > 0
+      };
+    })
+    .filter(feature => {
+      const angularRadius = (feature.diameterKm / 2 / MOON_RADIUS_KM) * Astronomy.RAD2DEG;
+      return Math.abs(feature.sunAltitude) <= windowDegrees + (Number.isFinite(angularRadius) ? angularRadius : 0);
+    })
+    .sort((a, b) => Math.abs(a.sunAltitude) - Math.abs(b.sunAltitude));
+}
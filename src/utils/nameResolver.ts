@@ -0,0 +1,357 @@
+import {
+  COMMON_NAMES,
+  DSO_CATALOG,
+  SOLAR_SYSTEM_OBJECTS,
+  STAR_CATALOG
+} from './catalogs.js';
+import { findConstellation } from './constellations.js';
+import { MINOR_BODY_CATALOG } from './minorBodies.js';
+
+/**
+ * How a user-supplied object name was matched to a catalog key
+ */
+export type NameMatchKind = 'exact' | 'designation' | 'bayerFlamsteed' | 'fuzzy';
+
+export interface ResolvedObjectName {
+  key: string; // Lowercase key into SOLAR_SYSTEM_OBJECTS, COMMON_NAMES, STAR_CATALOG, DSO_CATALOG or MINOR_BODY_CATALOG
+  matchedBy: NameMatchKind;
+  displayName: string;
+}
+
+export class ObjectNotFoundError extends Error {
+  objectName: string;
+  suggestions: string[];
+
+  constructor(objectName: string, suggestions: string[]) {
+    const hint = suggestions.length > 0
+      ? ` Did you mean: ${suggestions.join(', ')}?`
+      : " Try running 'npm run fetch-catalogs' to download more complete star and deep sky object databases.";
+    super(`Unknown celestial object: ${objectName}.${hint}`);
+    this.name = 'ObjectNotFoundError';
+    this.objectName = objectName;
+    this.suggestions = suggestions;
+  }
+
+  /**
+   * Structured form returned to MCP clients instead of a bare error string
+   */
+  toResponse() {
+    return {
+      status: 'UnknownObject',
+      error: {
+        code: 'UNKNOWN_OBJECT',
+        object: this.objectName,
+        message: this.message
+      },
+      suggestions: this.suggestions
+    };
+  }
+}
+
+// Greek letters as written out, as Unicode characters, and as the three-letter abbreviations used by HYG
+const GREEK_LETTERS: { abbreviation: string; names: string[] }[] = [
+  { abbreviation: 'alp', names: ['alpha', 'α'] },
+  { abbreviation: 'bet', names: ['beta', 'β'] },
+  { abbreviation: 'gam', names: ['gamma', 'γ'] },
+  { abbreviation: 'del', names: ['delta', 'δ'] },
+  { abbreviation: 'eps', names: ['epsilon', 'ε'] },
+  { abbreviation: 'zet', names: ['zeta', 'ζ'] },
+  { abbreviation: 'eta', names: ['η'] },
+  { abbreviation: 'the', names: ['theta', 'θ', 'ϑ'] },
+  { abbreviation: 'iot', names: ['iota', 'ι'] },
+  { abbreviation: 'kap', names: ['kappa', 'κ'] },
+  { abbreviation: 'lam', names: ['lambda', 'λ'] },
+  { abbreviation: 'mu', names: ['μ'] },
+  { abbreviation: 'nu', names: ['ν'] },
+  { abbreviation: 'xi', names: ['ξ'] },
+  { abbreviation: 'omi', names: ['omicron', 'ο'] },
+  { abbreviation: 'pi', names: ['π'] },
+  { abbreviation: 'rho', names: ['ρ'] },
+  { abbreviation: 'sig', names: ['sigma', 'σ', 'ς'] },
+  { abbreviation: 'tau', names: ['τ'] },
+  { abbreviation: 'ups', names: ['upsilon', 'υ'] },
+  { abbreviation: 'phi', names: ['φ', 'ϕ'] },
+  { abbreviation: 'chi', names: ['χ'] },
+  { abbreviation: 'psi', names: ['ψ'] },
+  { abbreviation: 'ome', names: ['omega', 'ω'] }
+];
+
+const GREEK_ABBREVIATIONS: Map<string, string> = new Map();
+for (const letter of GREEK_LETTERS) {
+  GREEK_ABBREVIATIONS.set(letter.abbreviation, letter.abbreviation);
+  for (const name of letter.names) {
+    GREEK_ABBREVIATIONS.set(name, letter.abbreviation);
+  }
+}
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9'
+};
+
+// Fuzzy matches are accepted automatically only within this many edits per four characters
+const FUZZY_CHARS_PER_EDIT = 4;
+const MAX_SUGGESTIONS = 5;
+const RESOLUTION_CACHE_LIMIT = 500;
+
+interface FuzzyCandidate {
+  key: string;
+  squashed: string; // Key without spaces and punctuation
+  displayName: string;
+}
+
+// Indexes built on first use, after the catalogs have been loaded
+let bayerFlamsteedIndex: Map<string, string> | null = null;
+let fuzzyCandidates: FuzzyCandidate[] | null = null;
+let indexedCatalogSize = -1;
+const resolutionCache: Map<string, ResolvedObjectName | string[]> = new Map();
+
+function catalogSize(): number {
+  return STAR_CATALOG.size + DSO_CATALOG.size + COMMON_NAMES.size + MINOR_BODY_CATALOG.size;
+}
+
+// Rebuild the indexes if catalogs were (re)loaded since they were built
+function ensureIndexes(): void {
+  if (indexedCatalogSize === catalogSize()) {
+    return;
+  }
+  bayerFlamsteedIndex = buildBayerFlamsteedIndex();
+  fuzzyCandidates = buildFuzzyCandidates();
+  resolutionCache.clear();
+  indexedCatalogSize = catalogSize();
+}
+
+function isKnownKey(key: string): boolean {
+  return !!SOLAR_SYSTEM_OBJECTS[key] ||
+    COMMON_NAMES.has(key) ||
+    STAR_CATALOG.has(key) ||
+    DSO_CATALOG.has(key) ||
+    MINOR_BODY_CATALOG.has(key);
+}
+
+function displayNameForKey(key: string): string {
+  if (SOLAR_SYSTEM_OBJECTS[key]) return key.charAt(0).toUpperCase() + key.slice(1);
+  if (COMMON_NAMES.has(key)) return key.replace(/\b\w/g, c => c.toUpperCase());
+  return STAR_CATALOG.get(key)?.name ?? DSO_CATALOG.get(key)?.name ?? MINOR_BODY_CATALOG.get(key)?.name ?? key;
+}
+
+/**
+ * Map canonical Bayer ('alp lyr', 'alp1 cen') and Flamsteed ('58 ori') forms to star catalog keys
+ */
+function buildBayerFlamsteedIndex(): Map<string, string> {
+  const index: Map<string, string> = new Map();
+  for (const [key, star] of STAR_CATALOG) {
+    if (!star.bayerFlamsteed) continue;
+    // HYG packs Flamsteed number, Bayer letter, superscript and constellation: '58Alp Ori', 'Alp1Cen'
+    const match = star.bayerFlamsteed.trim().match(/^(\d*)\s*([A-Za-z]{2,3})?(\d)?\s*([A-Za-z]{3})$/);
+    if (!match) continue;
+    const [, flamsteed, bayer, superscript, constellation] = match;
+    const con = constellation.toLowerCase();
+    if (bayer) {
+      const letter = bayer.toLowerCase();
+      const plainKey = `${letter} ${con}`;
+      if (superscript) {
+        index.set(`${letter}${superscript} ${con}`, key);
+      }
+      // Without a superscript, 'alp cen' means the first component
+      if (!superscript || superscript === '1' || !index.has(plainKey)) {
+        index.set(plainKey, key);
+      }
+    }
+    if (flamsteed) {
+      index.set(`${flamsteed} ${con}`, key);
+    }
+  }
+  return index;
+}
+
+function buildFuzzyCandidates(): FuzzyCandidate[] {
+  const keys = new Set<string>([
+    ...Object.keys(SOLAR_SYSTEM_OBJECTS),
+    ...STAR_CATALOG.keys(),
+    ...DSO_CATALOG.keys(),
+    ...MINOR_BODY_CATALOG.keys()
+  ]);
+  // Common names only; numbered cross-identifier aliases (PGC, UGC, ...) would swamp the suggestions
+  for (const key of COMMON_NAMES.keys()) {
+    if (!/\d/.test(key)) keys.add(key);
+  }
+  return Array.from(keys).map(key => ({ key, squashed: squash(key), displayName: displayNameForKey(key) }));
+}
+
+function squash(text: string): string {
+  return text.replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Lowercase, trim and collapse whitespace; Unicode Greek letters and superscripts are spelled out
+ */
+function normalizeInput(input: string): string {
+  let text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  text = text.replace(/[¹²³⁴⁵⁶⁷⁸⁹]/g, c => SUPERSCRIPT_DIGITS[c]);
+  for (const letter of GREEK_LETTERS) {
+    for (const name of letter.names) {
+      if (name.length === 1) {
+        text = text.split(name).join(`${letter.abbreviation} `);
+      }
+    }
+  }
+  return text.replace(/ (\d)\b/g, '$1').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalize catalog designations: 'M 31' -> 'm31', 'NGC 0224' -> 'ngc224', 'HIP27989' -> 'hip 27989'
+ */
+function designationKeys(text: string): string[] {
+  const compact = text.replace(/[\s_-]+/g, '');
+  const messier = compact.match(/^(?:m|messier)0*(\d+)$/);
+  if (messier) return [`m${messier[1]}`];
+
+  const ngcIc = compact.match(/^(ngc|ic)0*(\d+)([a-z]?)$/);
+  if (ngcIc) {
+    const [, catalog, number, suffix] = ngcIc;
+    // OpenNGC keeps the zero padding on entries with a suffix, e.g. 'NGC0061A'
+    return [`${catalog}${number}${suffix}`, `${catalog}${number.padStart(4, '0')}${suffix}`];
+  }
+
+  const star = compact.match(/^(hip|hd|hr)0*(\d+)$/);
+  if (star) return [`${star[1]} ${star[2]}`];
+
+  return [compact];
+}
+
+/**
+ * Parse Bayer ('alpha Lyrae', 'α Lyr', 'alpha1 Cen') and Flamsteed ('58 Orionis') designations
+ */
+function bayerFlamsteedKey(text: string): string | undefined {
+  const flamsteed = text.match(/^(\d+) (.+)$/);
+  if (flamsteed) {
+    const constellation = findConstellation(flamsteed[2]);
+    return constellation ? `${flamsteed[1]} ${constellation.abbreviation.toLowerCase()}` : undefined;
+  }
+  const bayer = text.match(/^([a-z]+)-?(\d)? (.+)$/);
+  if (bayer) {
+    const letter = GREEK_ABBREVIATIONS.get(bayer[1]);
+    const constellation = findConstellation(bayer[3]);
+    if (letter && constellation) {
+      return `${letter}${bayer[2] ?? ''} ${constellation.abbreviation.toLowerCase()}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein with adjacent transpositions), giving up above maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Rank catalog names by similarity: prefix and substring matches first, then edit distance
+ */
+function rankFuzzyMatches(text: string): { candidate: FuzzyCandidate; distance: number; containment: boolean }[] {
+  const query = squash(text);
+  if (!query) return [];
+  const maxDistance = Math.max(2, Math.ceil(query.length / 3));
+  const ranked: { candidate: FuzzyCandidate; distance: number; containment: boolean }[] = [];
+
+  for (const candidate of fuzzyCandidates!) {
+    const containment = query.length >= 3 && candidate.squashed.includes(query);
+    const distance = editDistance(query, candidate.squashed, maxDistance);
+    if (containment || distance <= maxDistance) {
+      ranked.push({ candidate, distance, containment });
+    }
+  }
+  ranked.sort((a, b) =>
+    a.distance - b.distance ||
+    Number(b.containment) - Number(a.containment) ||
+    a.candidate.squashed.length - b.candidate.squashed.length
+  );
+  return ranked;
+}
+
+function resolveUncached(input: string): ResolvedObjectName | string[] {
+  const text = normalizeInput(input);
+  if (isKnownKey(text)) {
+    return { key: text, matchedBy: 'exact', displayName: displayNameForKey(text) };
+  }
+
+  for (const key of designationKeys(text)) {
+    if (isKnownKey(key)) {
+      return { key, matchedBy: 'designation', displayName: displayNameForKey(key) };
+    }
+  }
+
+  const bayerKey = bayerFlamsteedKey(text);
+  if (bayerKey && bayerFlamsteedIndex!.has(bayerKey)) {
+    const key = bayerFlamsteedIndex!.get(bayerKey)!;
+    return { key, matchedBy: 'bayerFlamsteed', displayName: displayNameForKey(key) };
+  }
+
+  const ranked = rankFuzzyMatches(text);
+  const query = squash(text);
+  const autoAcceptDistance = Math.max(1, Math.floor(query.length / FUZZY_CHARS_PER_EDIT));
+  // Accept a typo correction only when it is close and clearly better than the runner-up
+  if (ranked.length > 0 && query.length >= 4 && ranked[0].distance <= autoAcceptDistance &&
+      (ranked.length === 1 || ranked[1].distance > ranked[0].distance)) {
+    const best = ranked[0].candidate;
+    return { key: best.key, matchedBy: 'fuzzy', displayName: best.displayName };
+  }
+
+  const suggestions: string[] = [];
+  for (const match of ranked) {
+    if (!suggestions.includes(match.candidate.displayName)) {
+      suggestions.push(match.candidate.displayName);
+    }
+    if (suggestions.length >= MAX_SUGGESTIONS) break;
+  }
+  return suggestions;
+}
+
+/**
+ * Resolve a user-supplied object name to a catalog key. Tries, in order: an exact match,
+ * normalized catalog designations ('M 31', 'NGC0224', 'HIP 27989'), Bayer/Flamsteed
+ * designations ('alpha Lyrae', 'α Lyr', '58 Ori') and finally fuzzy matching for typos.
+ * @throws ObjectNotFoundError with "did you mean" suggestions when nothing matches
+ */
+export function resolveObjectName(input: string): ResolvedObjectName {
+  const cacheKey = input.trim().toLowerCase();
+  // Exact keys are by far the most common case; skip the indexes entirely
+  if (isKnownKey(cacheKey)) {
+    return { key: cacheKey, matchedBy: 'exact', displayName: displayNameForKey(cacheKey) };
+  }
+
+  ensureIndexes();
+  let result = resolutionCache.get(cacheKey);
+  if (!result) {
+    result = resolveUncached(input);
+    if (resolutionCache.size >= RESOLUTION_CACHE_LIMIT) {
+      resolutionCache.delete(resolutionCache.keys().next().value!);
+    }
+    resolutionCache.set(cacheKey, result);
+  }
+
+  if (Array.isArray(result)) {
+    throw new ObjectNotFoundError(input, result);
+  }
+  return result;
+}
@@ -0,0 +1,299 @@
+import * as Astronomy from 'astronomy-engine';
+import { Observer } from './astronomy.js';
+
+/**
+ * Sun altitudes (degrees) that define the end of each twilight phase
+ */
+export const TWILIGHT_ALTITUDES = {
+  civil: -6,
+  nautical: -12,
+  astronomical: -18
+};
+
+export type TwilightKind = keyof typeof TWILIGHT_ALTITUDES;
+
+export interface NightWindow {
+  start: Date; // Sun sinks below the altitude (dusk)
+  end: Date;   // Sun rises above the altitude again (dawn)
+  sunAltitude: number;
+}
+
+const HALF_DAY_MS = 12 * 3600000;
+
+export function toAstronomyObserver(observer: Observer): Astronomy.Observer {
+  return new Astronomy.Observer(observer.latitude, observer.longitude, observer.elevation);
+}
+
+/**
+ * Find the night containing (or following) a date, i.e. the interval during which
+ * the Sun's center stays below the given altitude.
+ * @param observer Observer location
+ * @param date Reference time; a night already in progress at this time is returned
+ * @param sunAltitude Altitude of the Sun's center defining the night, e.g. -18 for astronomical darkness
+ * @returns null when the Sun does not cross that altitude within the next two days
+ */
+export function findNightWindow(observer: Observer, date: Date, sunAltitude: number): NightWindow | null {
+  const astroObserver = toAstronomyObserver(observer);
+
+  // Start half a day back so a night already in progress is found
+  let searchFrom = new Date(date.getTime() - HALF_DAY_MS);
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const dusk = Astronomy.SearchAltitude(Astronomy.Body.Sun, astroObserver, -1, searchFrom, 2, sunAltitude);
+    if (!dusk) {
+      return null;
+    }
+    const dawn = Astronomy.SearchAltitude(Astronomy.Body.Sun, astroObserver, +1, dusk.date, 2, sunAltitude);
+    if (!dawn) {
+      return null;
+    }
+    if (dawn.date.getTime() > date.getTime()) {
+      return { start: dusk.date, end: dawn.date, sunAltitude };
+    }
+    // That night is already over; look for the next one
+    searchFrom = dawn.date;
+  }
+  return null;
+}
+
+/**
+ * Why an expected crossing does not happen on a given night
+ * - 'SunAlwaysAbove': the Sun never gets that low (e.g. white nights, midnight sun)
+ * - 'SunAlwaysBelow': the Sun never gets that high (e.g. polar night)
+ */
+export type CrossingCondition = 'SunAlwaysAbove' | 'SunAlwaysBelow';
+
+export interface TwilightPhase {
+  occurs: boolean;
+  start: Date | null; // evening crossing (sunset or dusk)
+  end: Date | null;   // morning crossing (sunrise or dawn)
+  condition?: CrossingCondition;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface NightTimeline {
+  solarNoon: Date;
+  solarMidnight: Date;
+  nextSolarNoon: Date;
+  sun: TwilightPhase; // sunset to sunrise
+  civil: TwilightPhase;
+  nautical: TwilightPhase;
+  astronomical: TwilightPhase;
+  darkness: TimeInterval | null; // Sun below -18 degrees
+  moonRiseSet: { rise: Date | null; set: Date | null };
+  moonlessDarkness: TimeInterval[]; // Sun below -18 degrees and Moon below the horizon
+}
+
+/**
+ * State of the sky set by the Sun's altitude
+ */
+export type SkyPhase = 'day' | 'civilTwilight' | 'nauticalTwilight' | 'astronomicalTwilight' | 'night';
+
+export interface SkyPhasePeriod extends TimeInterval {
+  phase: SkyPhase;
+}
+
+// Geometric altitude of the Sun's center at sunrise and sunset (upper limb with standard refraction)
+const SUNRISE_ALTITUDE = -0.833;
+
+// Sun altitude sampling step for sky phase periods; boundaries are then refined by bisection
+const SKY_PHASE_STEP_MS = 5 * 60000;
+const SKY_PHASE_PRECISION_MS = 1000;
+// Periods shorter than this (e.g. daylight at a range that starts at sunset) are merged into their neighbour
+const SKY_PHASE_MIN_PERIOD_MS = 60000;
+
+// Geometric altitude of a body's center (as used by Astronomy.SearchAltitude) unless a refraction model is given
+function getBodyAltitude(body: Astronomy.Body, observer: Astronomy.Observer, time: Date, refraction: string = ''): number {
+  const equ = Astronomy.Equator(body, time, observer, true, true);
+  return Astronomy.Horizon(time, observer, equ.ra, equ.dec, refraction).altitude;
+}
+
+/**
+ * Find the evening and morning crossings of a Sun altitude between two solar noons
+ */
+function findTwilightPhase(
+  observer: Astronomy.Observer,
+  solarNoon: Date,
+  solarMidnight: Date,
+  nextSolarNoon: Date,
+  sunAltitude: number
+): TwilightPhase {
+  const noonAltitude = getBodyAltitude(Astronomy.Body.Sun, observer, solarNoon);
+  const midnightAltitude = getBodyAltitude(Astronomy.Body.Sun, observer, solarMidnight);
+  if (midnightAltitude > sunAltitude) {
+    return { occurs: false, start: null, end: null, condition: 'SunAlwaysAbove' };
+  }
+  if (noonAltitude < sunAltitude) {
+    return { occurs: false, start: null, end: null, condition: 'SunAlwaysBelow' };
+  }
+
+  const eveningDays = (solarMidnight.getTime() - solarNoon.getTime()) / 86400000;
+  const morningDays = (nextSolarNoon.getTime() - solarMidnight.getTime()) / 86400000;
+  const evening = Astronomy.SearchAltitude(Astronomy.Body.Sun, observer, -1, solarNoon, eveningDays, sunAltitude);
+  const morning = Astronomy.SearchAltitude(Astronomy.Body.Sun, observer, +1, solarMidnight, morningDays, sunAltitude);
+  return {
+    occurs: !!(evening && morning),
+    start: evening ? evening.date : null,
+    end: morning ? morning.date : null
+  };
+}
+
+/**
+ * Sunset/sunrise equivalent of findTwilightPhase, using astronomy-engine's rise/set
+ * definition (upper limb, standard refraction)
+ */
+function findSunsetSunrise(
+  observer: Astronomy.Observer,
+  solarNoon: Date,
+  solarMidnight: Date,
+  nextSolarNoon: Date
+): TwilightPhase {
+  const eveningDays = (solarMidnight.getTime() - solarNoon.getTime()) / 86400000;
+  const morningDays = (nextSolarNoon.getTime() - solarMidnight.getTime()) / 86400000;
+  const sunset = Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, -1, solarNoon, eveningDays);
+  const sunrise = Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, +1, solarMidnight, morningDays);
+  if (sunset && sunrise) {
+    return { occurs: true, start: sunset.date, end: sunrise.date };
+  }
+  if (!sunset && !sunrise) {
+    const midnightAltitude = getBodyAltitude(Astronomy.Body.Sun, observer, solarMidnight, 'normal');
+    return {
+      occurs: false,
+      start: null,
+      end: null,
+      condition: midnightAltitude > 0 ? 'SunAlwaysAbove' : 'SunAlwaysBelow'
+    };
+  }
+  // Only one crossing on this night (e.g. the first or last day of a polar period)
+  return { occurs: false, start: sunset ? sunset.date : null, end: sunrise ? sunrise.date : null };
+}
+
+/**
+ * Intervals within [start, end] during which the Moon is below the horizon
+ */
+function findMoonDownIntervals(observer: Astronomy.Observer, start: Date, end: Date): TimeInterval[] {
+  const intervals: TimeInterval[] = [];
+  let cursor = start;
+  // Whichever event comes next tells whether the Moon is currently up, using the same
+  // upper-limb rise/set convention as the searches below
+  const nextRise = Astronomy.SearchRiseSet(Astronomy.Body.Moon, observer, +1, start, 2);
+  const nextSet = Astronomy.SearchRiseSet(Astronomy.Body.Moon, observer, -1, start, 2);
+  let moonUp = nextSet !== null && (nextRise === null || nextSet.date.getTime() < nextRise.date.getTime());
+
+  while (cursor.getTime() < end.getTime()) {
+    const limitDays = (end.getTime() - cursor.getTime()) / 86400000;
+    const next = Astronomy.SearchRiseSet(Astronomy.Body.Moon, observer, moonUp ? -1 : +1, cursor, limitDays);
+    const nextTime = next && next.date.getTime() <= end.getTime() ? next.date : end;
+    if (!moonUp && nextTime.getTime() > cursor.getTime()) {
+      intervals.push({ start: cursor, end: nextTime });
+    }
+    if (!next || next.date.getTime() > end.getTime()) {
+      break;
+    }
+    cursor = next.date;
+    moonUp = !moonUp;
+  }
+  return intervals;
+}
+
+/**
+ * Full timeline of the night containing or following a date: sunset/sunrise, civil, nautical
+ * and astronomical dusk/dawn, and the moonless part of astronomical darkness.
+ * A night already in progress at `date` is returned; once the Sun is up in the morning,
+ * the following night is used.
+ */
+export function getNightTimeline(observer: Observer, date: Date): NightTimeline {
+  const astroObserver = toAstronomyObserver(observer);
+
+  let solarNoon = Astronomy.SearchHourAngle(Astronomy.Body.Sun, astroObserver, 0, date, -1).time.date;
+  let solarMidnight = Astronomy.SearchHourAngle(Astronomy.Body.Sun, astroObserver, 12, solarNoon, +1).time.date;
+  if (date.getTime() > solarMidnight.getTime() && getBodyAltitude(Astronomy.Body.Sun, astroObserver, date, 'normal') > 0) {
+    // Morning with the Sun up: last night is over, describe the coming one
+    solarNoon = Astronomy.SearchHourAngle(Astronomy.Body.Sun, astroObserver, 0, date, +1).time.date;
+    solarMidnight = Astronomy.SearchHourAngle(Astronomy.Body.Sun, astroObserver, 12, solarNoon, +1).time.date;
+  }
+  const nextSolarNoon = Astronomy.SearchHourAngle(Astronomy.Body.Sun, astroObserver, 0, solarMidnight, +1).time.date;
+
+  const sun = findSunsetSunrise(astroObserver, solarNoon, solarMidnight, nextSolarNoon);
+  const civil = findTwilightPhase(astroObserver, solarNoon, solarMidnight, nextSolarNoon, TWILIGHT_ALTITUDES.civil);
+  const nautical = findTwilightPhase(astroObserver, solarNoon, solarMidnight, nextSolarNoon, TWILIGHT_ALTITUDES.nautical);
+  const astronomical = findTwilightPhase(astroObserver, solarNoon, solarMidnight, nextSolarNoon, TWILIGHT_ALTITUDES.astronomical);
+
+  let darkness: TimeInterval | null = null;
+  if (astronomical.occurs) {
+    darkness = { start: astronomical.start!, end: astronomical.end! };
+  } else if (astronomical.condition === 'SunAlwaysBelow') {
+    darkness = { start: solarNoon, end: nextSolarNoon };
+  }
+
+  const moonRise = Astronomy.SearchRiseSet(Astronomy.Body.Moon, astroObserver, +1, solarNoon, 1);
+  const moonSet = Astronomy.SearchRiseSet(Astronomy.Body.Moon, astroObserver, -1, solarNoon, 1);
+  const withinNight = (t: Astronomy.AstroTime | null) =>
+    t && t.date.getTime() <= nextSolarNoon.getTime() ? t.date : null;
+
+  return {
+    solarNoon,
+    solarMidnight,
+    nextSolarNoon,
+    sun,
+    civil,
+    nautical,
+    astronomical,
+    darkness,
+    moonRiseSet: { rise: withinNight(moonRise), set: withinNight(moonSet) },
+    moonlessDarkness: darkness ? findMoonDownIntervals(astroObserver, darkness.start, darkness.end) : []
+  };
+}
+
+/**
+ * Sky phase for a geometric altitude of the Sun's center
+ */
+export function getSkyPhase(sunAltitude: number): SkyPhase {
+  if (sunAltitude >= SUNRISE_ALTITUDE) return 'day';
+  if (sunAltitude >= TWILIGHT_ALTITUDES.civil) return 'civilTwilight';
+  if (sunAltitude >= TWILIGHT_ALTITUDES.nautical) return 'nauticalTwilight';
+  if (sunAltitude >= TWILIGHT_ALTITUDES.astronomical) return 'astronomicalTwilight';
+  return 'night';
+}
+
+/**
+ * Split [start, end] into consecutive periods of daylight, civil, nautical and astronomical
+ * twilight and night, e.g. for shading an altitude chart
+ */
+export function getSkyPhasePeriods(observer: Observer, start: Date, end: Date): SkyPhasePeriod[] {
+  const astroObserver = toAstronomyObserver(observer);
+  const phaseAt = (t: number) => getSkyPhase(getBodyAltitude(Astronomy.Body.Sun, astroObserver, new Date(t)));
+
+  const periods: SkyPhasePeriod[] = [];
+  let periodStart = start.getTime();
+  let phase = phaseAt(periodStart);
+  for (let t = periodStart; t < end.getTime();) {
+    const next = Math.min(t + SKY_PHASE_STEP_MS, end.getTime());
+    const nextPhase = phaseAt(next);
+    if (nextPhase !== phase) {
+      // The Sun moves less than one phase per step, so a single boundary lies in between
+      let low = t;
+      let high = next;
+      while (high - low > SKY_PHASE_PRECISION_MS) {
+        const mid = (low + high) / 2;
+        if (phaseAt(mid) === phase) low = mid; else high = mid;
+      }
+      const boundary = Math.round(high);
+      if (boundary - periodStart >= SKY_PHASE_MIN_PERIOD_MS) {
+        periods.push({ phase, start: new Date(periodStart), end: new Date(boundary) });
+        periodStart = boundary;
+      }
+      phase = nextPhase;
+    }
+    t = next;
+  }
+  if (periods.length > 0 && end.getTime() - periodStart < SKY_PHASE_MIN_PERIOD_MS) {
+    periods[periods.length - 1].end = end;
+  } else {
+    periods.push({ phase, start: new Date(periodStart), end });
+  }
+  return periods;
+}
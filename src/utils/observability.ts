@@ -0,0 +1,322 @@
+import * as Astronomy from 'astronomy-engine';
+import { OBSERVABILITY_CONFIG } from '../config.js';
+import { convertToAltAz, calculateAngularSeparation, getEquatorialCoordinates, DeepSkyObject, Observer } from './astronomy.js';
+import { getEquipmentProfile } from './equipment.js';
+import { ObserverProfile } from './observers.js';
+import { toAstronomyObserver } from './night.js';
+
+/**
+ * Sky background and aperture an observability assessment is made for
+ */
+export interface ObservingConditions {
+  sqm: number;            // Zenith sky brightness without Moon or twilight, in mag/arcsec^2
+  bortleClass?: number;
+  skySource: string;      // Where the sky brightness came from
+  apertureMm: number;
+  apertureSource: string; // Where the aperture came from
+}
+
+export interface ObservingConditionsInput {
+  sqm?: number;
+  bortleClass?: number;
+  equipment?: string;
+}
+
+export const OBSERVABILITY_RATINGS = ['Excellent', 'Good', 'Fair', 'Poor', 'Not detectable', 'Hidden by local horizon', 'Below horizon'] as const;
+export type ObservabilityRating = typeof OBSERVABILITY_RATINGS[number];
+
+/**
+ * Observability of an object with the factors that make up its score. Each factor score is 0-1.
+ */
+export interface ObservabilityAssessment {
+  score: number; // 0-100
+  rating: ObservabilityRating;
+  detectable: boolean | null; // null when the object has neither a magnitude nor a surface brightness
+  effectiveSkySqm: number;    // Sky brightness at the object including Moon and twilight
+  factors: {
+    altitude: {
+      altitudeDegrees: number;
+      airmass: number | null;
+      extinctionMagnitudes: number | null;
+      score: number;
+    };
+    sky: {
+      sqm: number;
+      bortleClass?: number;
+      source: string;
+      sunAltitudeDegrees: number;
+      twilightBrighteningMagnitudes: number;
+      score: number;
+    };
+    moon: {
+      altitudeDegrees: number;
+      illuminationPercent: number;
+      separationDegrees: number;
+      skyBrighteningMagnitudes: number;
+      score: number;
+    } | null; // null when the object is the Moon
+    object: {
+      apertureMm: number;
+      apertureSource: string;
+      magnitude?: number;
+      extinctedMagnitude?: number;
+      limitingMagnitude: number;
+      magnitudeMargin?: number;   // Positive when brighter than the limiting magnitude
+      surfaceBrightness?: number; // Mean surface brightness in mag/arcsec^2
+      sizeArcmin?: number;
+      contrastMargin?: number;    // Positive when the surface brightness stands out of the sky
+      score: number;
+    };
+  };
+}
+
+// Typical zenith sky brightness (mag/arcsec^2) of each Bortle class
+const BORTLE_SQM: Record<number, number> = {
+  1: 21.9, 2: 21.6, 3: 21.4, 4: 20.8, 5: 20.1, 6: 19.4, 7: 18.8, 8: 18.2, 9: 17.5
+};
+
+// Sky brightening in magnitudes at Sun altitudes through twilight, interpolated linearly
+const TWILIGHT_BRIGHTENING: [number, number][] = [
+  [-18, 0], [-15, 1], [-12, 3.5], [-9, 6], [-6, 8.5], [0, 13]
+];
+
+// Sky brightness conversion constants (nanolamberts to mag/arcsec^2)
+const NL_SCALE = 34.08;
+const NL_OFFSET = 20.7233;
+const NL_SLOPE = 0.92104;
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+/**
+ * Relative air mass at an apparent altitude (Kasten & Young 1989)
+ * @returns null below the horizon
+ */
+export function airmass(altitude: number): number | null {
+  if (altitude <= 0) return null;
+  return 1 / (Math.sin(altitude * Astronomy.DEG2RAD) + 0.50572 * Math.pow(altitude + 6.07995, -1.6364));
+}
+
+/**
+ * Typical zenith sky brightness for a Bortle class (1-9)
+ */
+export function bortleToSqm(bortleClass: number): number {
+  return BORTLE_SQM[Math.min(9, Math.max(1, Math.round(bortleClass)))];
+}
+
+function sqmToNanolamberts(sqm: number): number {
+  return NL_SCALE * Math.exp(NL_OFFSET - NL_SLOPE * sqm);
+}
+
+function nanolambertsToSqm(brightness: number): number {
+  return (NL_OFFSET - Math.log(brightness / NL_SCALE)) / NL_SLOPE;
+}
+
+/**
+ * Naked-eye limiting magnitude for a sky brightness
+ */
+function nakedEyeLimitingMagnitude(sqm: number): number {
+  return 7.93 - 5 * Math.log10(Math.pow(10, 4.316 - sqm / 5) + 1);
+}
+
+function twilightBrightening(sunAltitude: number): number {
+  if (sunAltitude <= TWILIGHT_BRIGHTENING[0][0]) return 0;
+  for (let i = 1; i < TWILIGHT_BRIGHTENING.length; i++) {
+    const [alt1, mag1] = TWILIGHT_BRIGHTENING[i];
+    if (sunAltitude <= alt1) {
+      const [alt0, mag0] = TWILIGHT_BRIGHTENING[i - 1];
+      return mag0 + (mag1 - mag0) * (sunAltitude - alt0) / (alt1 - alt0);
+    }
+  }
+  return TWILIGHT_BRIGHTENING[TWILIGHT_BRIGHTENING.length - 1][1];
+}
+
+/**
+ * Sky brightness added by the Moon in the direction of the object (Krisciunas & Schaefer 1991), in nanolamberts
+ */
+function moonlightBrightness(phaseAngle: number, separation: number, moonAltitude: number, objectAltitude: number, k: number): number {
+  if (moonAltitude <= 0) return 0;
+  const zenithAirmass = (altitude: number) => {
+    const sinZ = Math.cos(Math.max(0, altitude) * Astronomy.DEG2RAD);
+    return 1 / Math.sqrt(1 - 0.96 * sinZ * sinZ);
+  };
+  const moonIlluminance = Math.pow(10, -0.4 * (3.84 + 0.026 * Math.abs(phaseAngle) + 4e-9 * Math.pow(phaseAngle, 4)));
+  const rho = Math.max(separation, 1);
+  const cosRho = Math.cos(rho * Astronomy.DEG2RAD);
+  const scattering = Math.pow(10, 5.36) * (1.06 + cosRho * cosRho) + Math.pow(10, 6.15 - rho / 40);
+  return scattering * moonIlluminance
+    * Math.pow(10, -0.4 * k * zenithAirmass(moonAltitude))
+    * (1 - Math.pow(10, -0.4 * k * zenithAirmass(objectAltitude)));
+}
+
+/**
+ * Contrast (magnitudes below the sky) at which an extended object of the given size can still
+ * be seen. Larger objects are easier to detect at low contrast.
+ */
+function contrastThreshold(sizeArcmin: number): number {
+  return Math.max(1.5, Math.min(4.5, 2.5 + Math.log10(Math.max(sizeArcmin, 0.1))));
+}
+
+/**
+ * Resolve sky brightness and aperture from the call parameters, the equipment profile
+ * and the observer profile, in that order
+ * @throws EquipmentProfileError for an unknown equipment profile
+ */
+export function resolveObservingConditions(input: ObservingConditionsInput, profile: ObserverProfile): ObservingConditions {
+  let sky: Pick<ObservingConditions, 'sqm' | 'bortleClass' | 'skySource'>;
+  if (input.sqm !== undefined) {
+    sky = { sqm: input.sqm, skySource: 'sqm parameter' };
+  } else if (input.bortleClass !== undefined) {
+    sky = { sqm: bortleToSqm(input.bortleClass), bortleClass: input.bortleClass, skySource: 'bortleClass parameter' };
+  } else if (profile.sqm !== undefined) {
+    sky = { sqm: profile.sqm, skySource: `observer profile "${profile.name}"` };
+  } else if (profile.bortleClass !== undefined) {
+    sky = { sqm: bortleToSqm(profile.bortleClass), bortleClass: profile.bortleClass, skySource: `observer profile "${profile.name}"` };
+  } else {
+    const bortleClass = OBSERVABILITY_CONFIG.defaultBortleClass;
+    sky = { sqm: bortleToSqm(bortleClass), bortleClass, skySource: 'default (src/config.ts)' };
+  }
+
+  let aperture: Pick<ObservingConditions, 'apertureMm' | 'apertureSource'>;
+  if (input.equipment) {
+    const equipment = getEquipmentProfile(input.equipment);
+    const apertureMm = equipment.telescope?.apertureMm ?? equipment.finder!.apertureMm;
+    aperture = { apertureMm, apertureSource: `equipment profile "${equipment.name}"` };
+  } else if (profile.defaultEquipment?.apertureMm !== undefined) {
+    aperture = { apertureMm: profile.defaultEquipment.apertureMm, apertureSource: `default equipment of observer profile "${profile.name}"` };
+  } else {
+    aperture = { apertureMm: OBSERVABILITY_CONFIG.defaultApertureMm, apertureSource: 'naked eye' };
+  }
+
+  return { ...sky, ...aperture };
+}
+
+/**
+ * Score how well an object can be observed: altitude and extinction, sky background from light
+ * pollution, twilight and the Moon, and whether the object's magnitude and surface brightness
+ * are within reach of the aperture. The detection model is a rough visual estimate.
+ * @param object Position (J2000) with optional magnitude, size and surface brightness
+ * @param isMoon The object is the Moon, which is not scored against its own light
+ * @param localHorizonAltitude Altitude of the local horizon (trees, buildings) at the object's azimuth
+ */
+export async function assessObservability(
+  object: DeepSkyObject,
+  observer: Observer,
+  date: Date,
+  conditions: ObservingConditions,
+  isMoon: boolean = false,
+  localHorizonAltitude: number = 0
+): Promise<ObservabilityAssessment> {
+  const k = OBSERVABILITY_CONFIG.extinctionCoefficient;
+  const { altitude } = convertToAltAz(object, observer, date);
+  const objectAirmass = airmass(altitude);
+  const extinction = objectAirmass === null ? null : k * objectAirmass;
+
+  // Sky: light pollution, twilight and moonlight combined in nanolamberts
+  const astroObserver = toAstronomyObserver(observer);
+  const sunEquator = Astronomy.Equator(Astronomy.Body.Sun, date, astroObserver, true, true);
+  const sunAltitude = Astronomy.Horizon(date, astroObserver, sunEquator.ra, sunEquator.dec).altitude;
+  const twilight = twilightBrightening(sunAltitude);
+  const darkSky = sqmToNanolamberts(conditions.sqm - twilight);
+
+  let moonFactor: ObservabilityAssessment['factors']['moon'] = null;
+  let moonlight = 0;
+  if (!isMoon) {
+    const moon = await getEquatorialCoordinates('moon', date, observer);
+    const moonAltitude = convertToAltAz(moon, observer, date).altitude;
+    const illumination = Astronomy.Illumination(Astronomy.Body.Moon, date);
+    const separation = calculateAngularSeparation(object, moon);
+    moonlight = moonlightBrightness(illumination.phase_angle, separation, moonAltitude, altitude, k);
+    const brightening = nanolambertsToSqm(darkSky) - nanolambertsToSqm(darkSky + moonlight);
+    moonFactor = {
+      altitudeDegrees: round(moonAltitude, 1),
+      illuminationPercent: round(illumination.phase_fraction * 100, 1),
+      separationDegrees: round(separation, 1),
+      skyBrighteningMagnitudes: round(brightening, 2),
+      score: round(clamp01(1 - brightening / 3), 2),
+    };
+  }
+  const effectiveSqm = nanolambertsToSqm(darkSky + moonlight);
+
+  // Object: total magnitude against the limiting magnitude, surface brightness against the sky
+  const limitingMagnitude = nakedEyeLimitingMagnitude(effectiveSqm)
+    + 5 * Math.log10(Math.max(conditions.apertureMm, OBSERVABILITY_CONFIG.defaultApertureMm) / OBSERVABILITY_CONFIG.defaultApertureMm);
+  const sizeArcmin = object.majorAxis !== undefined
+    ? Math.sqrt(object.majorAxis * (object.minorAxis ?? object.majorAxis))
+    : undefined;
+  let surfaceBrightness = object.surfaceBrightness;
+  if (surfaceBrightness === undefined && object.magnitude !== undefined && sizeArcmin !== undefined && sizeArcmin > 0) {
+    surfaceBrightness = object.magnitude + 2.5 * Math.log10(Math.PI / 4 * sizeArcmin * sizeArcmin * 3600);
+  }
+
+  const extinctionOrZero = extinction ?? 0;
+  const magnitudeMargin = object.magnitude !== undefined ? limitingMagnitude - (object.magnitude + extinctionOrZero) : undefined;
+  // Objects smaller than an arcminute are treated as points: only their total magnitude matters
+  const contrastMargin = surfaceBrightness !== undefined && sizeArcmin !== undefined && sizeArcmin >= 1
+    ? effectiveSqm + contrastThreshold(sizeArcmin) - (surfaceBrightness + extinctionOrZero)
+    : undefined;
+  const margins = [magnitudeMargin, contrastMargin].filter((m): m is number => m !== undefined);
+  const detectionMargin = margins.length > 0 ? Math.min(...margins) : undefined;
+  const hidden = objectAirmass !== null && altitude <= localHorizonAltitude;
+  const detectable = objectAirmass === null || hidden ? false : detectionMargin === undefined ? null : detectionMargin >= 0;
+
+  const altitudeScore = objectAirmass === null ? 0 : clamp01(1 - k * (objectAirmass - 1) / 0.75);
+  const skyScore = clamp01((effectiveSqm - 17.5) / (21.9 - 17.5));
+  const objectScore = detectionMargin === undefined ? 0.5 : clamp01(0.5 + detectionMargin / 4);
+  const moonScore = moonFactor?.score ?? 1;
+
+  const score = objectAirmass === null || hidden
+    ? 0
+    : Math.round(100 * (0.5 * objectScore + 0.2 * altitudeScore + 0.15 * skyScore + 0.15 * moonScore));
+  let rating: ObservabilityRating;
+  if (objectAirmass === null) rating = 'Below horizon';
+  else if (hidden) rating = 'Hidden by local horizon';
+  else if (detectable === false) rating = 'Not detectable';
+  else if (score >= 75) rating = 'Excellent';
+  else if (score >= 50) rating = 'Good';
+  else if (score >= 25) rating = 'Fair';
+  else rating = 'Poor';
+
+  return {
+    score,
+    rating,
+    detectable,
+    effectiveSkySqm: round(effectiveSqm, 2),
+    factors: {
+      altitude: {
+        altitudeDegrees: round(altitude, 1),
+        airmass: objectAirmass === null ? null : round(objectAirmass, 2),
+        extinctionMagnitudes: extinction === null ? null : round(extinction, 2),
+        score: round(altitudeScore, 2),
+      },
+      sky: {
+        sqm: round(conditions.sqm, 2),
+        ...(conditions.bortleClass !== undefined && { bortleClass: conditions.bortleClass }),
+        source: conditions.skySource,
+        sunAltitudeDegrees: round(sunAltitude, 1),
+        twilightBrighteningMagnitudes: round(twilight, 2),
+        score: round(skyScore, 2),
+      },
+      moon: moonFactor,
+      object: {
+        apertureMm: conditions.apertureMm,
+        apertureSource: conditions.apertureSource,
+        ...(object.magnitude !== undefined && {
+          magnitude: round(object.magnitude, 2),
+          extinctedMagnitude: round(object.magnitude + extinctionOrZero, 2),
+        }),
+        limitingMagnitude: round(limitingMagnitude, 1),
+        ...(magnitudeMargin !== undefined && { magnitudeMargin: round(magnitudeMargin, 2) }),
+        ...(surfaceBrightness !== undefined && { surfaceBrightness: round(surfaceBrightness, 2) }),
+        ...(sizeArcmin !== undefined && { sizeArcmin: round(sizeArcmin, 2) }),
+        ...(contrastMargin !== undefined && { contrastMargin: round(contrastMargin, 2) }),
+        score: round(objectScore, 2),
+      },
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OBSERVER_CONFIG, OBSERVER_PROFILES_FILE } from '../config.js';
+import { Observer } from './astronomy.js';
+import { isValidTimeZone } from './time.js';
+import { HorizonProfile } from './horizon.js';
+
+/**
+ * Named observing site persisted in the observer profile store
+ */
+export interface ObserverProfile {
+  name: string;
+  latitude: number; // in degrees, positive north
+  longitude: number; // in degrees, positive east
+  elevation: number; // in meters above sea level
+  timeZone: string; // IANA time zone, e.g. 'America/Vancouver'
+  temperature?: number; // in celsius
+  pressure?: number; // in hPa
+  horizonAltitude?: number; // flat minimum altitude in degrees that counts as "visible"
+  horizon?: HorizonProfile; // azimuth-dependent local horizon (trees, buildings)
+  bortleClass?: number; // Typical sky darkness, 1 (excellent dark site) to 9 (inner city)
+  sqm?: number; // Measured zenith sky brightness in mag/arcsec^2; takes precedence over bortleClass
+  defaultEquipment?: {
+    description?: string;
+    fovDegrees?: number;
+    apertureMm?: number;
+  };
+  notes?: string;
+}
+
+interface ObserverProfileStore {
+  selected: string | null;
+  profiles: Record<string, ObserverProfile>;
+}
+
+export interface ResolvedObserver {
+  profile: ObserverProfile;
+  observer: Observer;
+}
+
+export type ObserverProfileErrorCode = 'UNKNOWN_PROFILE' | 'INVALID_PROFILE' | 'INVALID_HORIZON' | 'PROFILE_EXISTS' | 'RESERVED_NAME';
+
+export class ObserverProfileError extends Error {
+  code: ObserverProfileErrorCode;
+  profileName: string;
+
+  constructor(code: ObserverProfileErrorCode, profileName: string, message: string) {
+    super(message);
+    this.name = 'ObserverProfileError';
+    this.code = code;
+    this.profileName = profileName;
+  }
+
+  /**
+   * Structured form returned to MCP clients instead of a bare error string
+   */
+  toResponse() {
+    return {
+      status: 'InvalidObserver',
+      error: {
+        code: this.code,
+        observer: this.profileName,
+        message: this.message
+      },
+      availableObservers: listObserverProfiles().map(p => p.name)
+    };
+  }
+}
+
+// Name of the built-in profile derived from OBSERVER_CONFIG
+export const DEFAULT_PROFILE_NAME = 'default';
+
+const DEFAULT_PROFILE: ObserverProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  latitude: OBSERVER_CONFIG.latitude,
+  longitude: OBSERVER_CONFIG.longitude,
+  elevation: OBSERVER_CONFIG.altitude,
+  timeZone: OBSERVER_CONFIG.timeZone,
+  temperature: OBSERVER_CONFIG.temperature,
+  pressure: OBSERVER_CONFIG.pressure,
+  notes: 'Built-in profile from src/config.ts'
+};
+
+function profileKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function readStore(): ObserverProfileStore {
+  if (!fs.existsSync(OBSERVER_PROFILES_FILE)) {
+    return { selected: null, profiles: {} };
+  }
+  try {
+    const raw = JSON.parse(fs.readFileSync(OBSERVER_PROFILES_FILE, 'utf8'));
+    return {
+      selected: typeof raw.selected === 'string' ? raw.selected : null,
+      profiles: raw.profiles && typeof raw.profiles === 'object' ? raw.profiles : {}
+    };
+  } catch (error) {
+    console.error(`Failed to read observer profiles from ${OBSERVER_PROFILES_FILE}: ${error}. Using the default observer.`);
+    return { selected: null, profiles: {} };
+  }
+}
+
+function writeStore(store: ObserverProfileStore): void {
+  fs.mkdirSync(path.dirname(OBSERVER_PROFILES_FILE), { recursive: true });
+  // Write to a temporary file first so a crash cannot leave a truncated store behind
+  const tmpFile = `${OBSERVER_PROFILES_FILE}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(store, null, 2) + '\n', 'utf8');
+  fs.renameSync(tmpFile, OBSERVER_PROFILES_FILE);
+}
+
+function validateProfile(profile: ObserverProfile): void {
+  const problems: string[] = [];
+  if (!profile.name || !profile.name.trim()) problems.push('name must not be empty');
+  if (!(profile.latitude >= -90 && profile.latitude <= 90)) problems.push('latitude must be between -90 and 90');
+  if (!(profile.longitude >= -180 && profile.longitude <= 180)) problems.push('longitude must be between -180 and 180');
+  if (!Number.isFinite(profile.elevation)) problems.push('elevation must be a number');
+  if (!isValidTimeZone(profile.timeZone)) problems.push(`unknown time zone "${profile.timeZone}"`);
+  if (profile.horizonAltitude !== undefined && !(profile.horizonAltitude >= -5 && profile.horizonAltitude < 90)) {
+    problems.push('horizonAltitude must be between -5 and 90');
+  }
+  if (profile.bortleClass !== undefined && !(Number.isInteger(profile.bortleClass) && profile.bortleClass >= 1 && profile.bortleClass <= 9)) {
+    problems.push('bortleClass must be a whole number from 1 to 9');
+  }
+  if (profile.sqm !== undefined && !(profile.sqm >= 16 && profile.sqm <= 22.5)) {
+    problems.push('sqm must be between 16 and 22.5');
+  }
+  if (problems.length > 0) {
+    throw new ObserverProfileError('INVALID_PROFILE', profile.name, `Invalid observer profile: ${problems.join('; ')}.`);
+  }
+}
+
+/**
+ * List all observer profiles, including the built-in default
+ */
+export function listObserverProfiles(): ObserverProfile[] {
+  const store = readStore();
+  return [DEFAULT_PROFILE, ...Object.values(store.profiles)];
+}
+
+/**
+ * Name of the currently selected profile
+ */
+export function getSelectedProfileName(): string {
+  const store = readStore();
+  if (store.selected && store.profiles[profileKey(store.selected)]) {
+    return store.profiles[profileKey(store.selected)].name;
+  }
+  return DEFAULT_PROFILE_NAME;
+}
+
+/**
+ * Look up a profile by name (case-insensitive)
+ * @throws ObserverProfileError when no such profile exists
+ */
+export function getObserverProfile(name: string): ObserverProfile {
+  const key = profileKey(name);
+  if (key === DEFAULT_PROFILE_NAME) {
+    return DEFAULT_PROFILE;
+  }
+  const profile = readStore().profiles[key];
+  if (!profile) {
+    throw new ObserverProfileError('UNKNOWN_PROFILE', name, `Unknown observer profile "${name}".`);
+  }
+  return profile;
+}
+
+/**
+ * Create or replace a named profile
+ * @param overwrite Replace an existing profile with the same name
+ */
+export function saveObserverProfile(profile: ObserverProfile, overwrite: boolean = false): ObserverProfile {
+  const key = profileKey(profile.name);
+  if (key === DEFAULT_PROFILE_NAME) {
+    throw new ObserverProfileError('RESERVED_NAME', profile.name, `"${DEFAULT_PROFILE_NAME}" is reserved for the built-in observer in src/config.ts.`);
+  }
+  validateProfile(profile);
+
+  const store = readStore();
+  if (store.profiles[key] && !overwrite) {
+    throw new ObserverProfileError('PROFILE_EXISTS', profile.name, `Observer profile "${profile.name}" already exists. Set overwrite to replace it.`);
+  }
+  const stored: ObserverProfile = { ...profile, name: profile.name.trim() };
+  store.profiles[key] = stored;
+  writeStore(store);
+  return stored;
+}
+
+/**
+ * Make a profile the one used when tools are called without an observer
+ */
+export function selectObserverProfile(name: string): ObserverProfile {
+  const profile = getObserverProfile(name);
+  const store = readStore();
+  store.selected = profileKey(profile.name) === DEFAULT_PROFILE_NAME ? null : profileKey(profile.name);
+  writeStore(store);
+  return profile;
+}
+
+/**
+ * Remove a profile; deleting the selected profile falls back to the default
+ */
+export function deleteObserverProfile(name: string): { deleted: ObserverProfile; selectionReset: boolean } {
+  const key = profileKey(name);
+  if (key === DEFAULT_PROFILE_NAME) {
+    throw new ObserverProfileError('RESERVED_NAME', name, `The built-in "${DEFAULT_PROFILE_NAME}" profile cannot be deleted.`);
+  }
+  const store = readStore();
+  const deleted = store.profiles[key];
+  if (!deleted) {
+    throw new ObserverProfileError('UNKNOWN_PROFILE', name, `Unknown observer profile "${name}".`);
+  }
+  delete store.profiles[key];
+  const selectionReset = store.selected === key;
+  if (selectionReset) {
+    store.selected = null;
+  }
+  writeStore(store);
+  return { deleted, selectionReset };
+}
+
+/**
+ * Convert a profile to the Observer shape used by the astronomy utilities
+ */
+export function profileToObserver(profile: ObserverProfile): Observer {
+  return {
+    latitude: profile.latitude,
+    longitude: profile.longitude,
+    elevation: profile.elevation,
+    temperature: profile.temperature ?? OBSERVER_CONFIG.temperature,
+    pressure: profile.pressure ?? OBSERVER_CONFIG.pressure
+  };
+}
+
+/**
+ * Resolve the observer for a tool call
+ * @param name Optional profile name; the selected profile is used when omitted
+ * @throws ObserverProfileError when the named profile does not exist
+ */
+export function resolveObserver(name?: string): ResolvedObserver {
+  const profile = name && name.trim() ? getObserverProfile(name) : getObserverProfile(getSelectedProfileName());
+  return { profile, observer: profileToObserver(profile) };
+}
+
+/**
+ * Parameter description shared by every tool that accepts an observer
+ */
+export const OBSERVER_PARAM_DESCRIPTION =
+  "Optional. Name of a saved observer profile (see listObserverProfiles). Defaults to the currently selected profile, or the built-in 'default' site from src/config.ts.";
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+/**
+ * Zod type for an optional list parameter, given as a comma-separated string (e.g. "galaxy, nebula").
+ * mcp-framework describes any type other than a plain string, number, boolean, array or object as a
+ * string in the tool's input schema, so an optional array would be advertised as a string and then
+ * fail validation. A JSON array is still accepted from clients that send one.
+ * @param item Type of each entry; use z.coerce for non-string entries
+ */
+export function listParam<T extends z.ZodTypeAny>(item: T): z.ZodType<z.output<T>[] | undefined> {
+  const list = z.preprocess(
+    value => typeof value === 'string'
+      ? value.split(',').map(entry => entry.trim()).filter(entry => entry !== '')
+      : value,
+    z.array(item)
+  ).optional();
+  // Typed by the parsed list, which is what the tool's execute receives
+  return list as unknown as z.ZodType<z.output<T>[] | undefined>;
+}
@@ -0,0 +1,383 @@
+import * as Astronomy from 'astronomy-engine';
+import { PLANETARY_CONFIG } from '../config.js';
+
+/**
+ * Equatorial and polar radii in km (IAU WGCCRE 2015; 1 bar level for the giant planets)
+ */
+const PLANET_RADII_KM: Partial<Record<Astronomy.Body, { equatorial: number; polar: number }>> = {
+  [Astronomy.Body.Mercury]: { equatorial: 2440.53, polar: 2438.26 },
+  [Astronomy.Body.Venus]: { equatorial: 6051.8, polar: 6051.8 },
+  [Astronomy.Body.Mars]: { equatorial: 3396.19, polar: 3376.2 },
+  [Astronomy.Body.Jupiter]: { equatorial: 71492, polar: 66854 },
+  [Astronomy.Body.Saturn]: { equatorial: 60268, polar: 54364 },
+  [Astronomy.Body.Uranus]: { equatorial: 25559, polar: 24973 },
+  [Astronomy.Body.Neptune]: { equatorial: 24764, polar: 24341 }
+};
+
+// Venus and Uranus rotate retrograde; their planetographic longitudes increase eastward
+const RETROGRADE_ROTATORS = new Set<Astronomy.Body>([Astronomy.Body.Venus, Astronomy.Body.Uranus]);
+
+// Outer edge of Saturn's A ring, in km
+const SATURN_RING_RADIUS_KM = 136775;
+
+// Jupiter's System I and II prime meridians (IAU 1991); RotationAxis gives System III
+const JUPITER_SYSTEM_I = { w0: 67.1, rate: 877.9 };
+const JUPITER_SYSTEM_II = { w0: 43.3, rate: 870.27 };
+
+// Sampling step and precision of the Jupiter event searches
+const EVENT_STEP_MS = 5 * 60000;
+const EVENT_PRECISION_MS = 10000;
+
+const ARCSEC_PER_RAD = 180 * 3600 / Math.PI;
+
+type Vec = { x: number; y: number; z: number };
+
+function dot(a: Vec, b: Vec): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vec, b: Vec): Vec {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+}
+
+function scale(v: Vec, factor: number): Vec {
+  return { x: v.x * factor, y: v.y * factor, z: v.z * factor };
+}
+
+function add(a: Vec, b: Vec): Vec {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function unit(v: Vec): Vec {
+  return scale(v, 1 / Math.sqrt(dot(v, v)));
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
+
+function signedDegrees(angle: number): number {
+  const normalized = normalizeDegrees(angle);
+  return normalized > 180 ? normalized - 360 : normalized;
+}
+
+/**
+ * Bodies with a physical ephemeris: the planets other than the Earth
+ */
+export function isPlanet(body: Astronomy.Body | null): body is Astronomy.Body {
+  return body !== null && PLANET_RADII_KM[body] !== undefined;
+}
+
+/**
+ * Orientation of a planet as seen from the Earth at a time, corrected for light time
+ */
+interface PlanetGeometry {
+  geocentric: Vec;      // Earth to planet, EQJ, AU
+  heliocentric: Vec;    // Sun to planet at the time the light left it, EQJ, AU
+  distanceAu: number;
+  emitted: Date;        // When the light seen at the observation time left the planet
+  pole: Vec;            // North pole unit vector, EQJ
+  spin: number;         // Prime meridian angle W in degrees, at the emission time
+  east: Vec;            // Sky-plane unit vectors at the planet: toward celestial east and north
+  north: Vec;
+}
+
+function planetGeometry(body: Astronomy.Body, date: Date): PlanetGeometry {
+  const geocentric = Astronomy.GeoVector(body, date, true);
+  const distanceAu = geocentric.Length();
+  const emitted = new Date(date.getTime() - (distanceAu / Astronomy.C_AUDAY) * 86400000);
+  const axis = Astronomy.RotationAxis(body, emitted);
+  const lineOfSight = unit(geocentric);
+  const east = unit(cross({ x: 0, y: 0, z: 1 }, lineOfSight));
+  return {
+    geocentric,
+    heliocentric: Astronomy.HelioVector(body, emitted),
+    distanceAu,
+    emitted,
+    pole: axis.north,
+    spin: axis.spin,
+    east,
+    north: cross(lineOfSight, east)
+  };
+}
+
+/**
+ * Planetocentric latitude and longitude of the point on a planet directly below a direction
+ * (toward the Earth or the Sun), with the longitude measured from the prime meridian in the
+ * planet's planetographic convention: westward for prograde rotators, eastward for retrograde ones.
+ */
+function subPoint(body: Astronomy.Body, geometry: PlanetGeometry, toward: Vec) {
+  const direction = unit(toward);
+  const { pole } = geometry;
+  // The planet's equator crosses the Earth's equator at its ascending node
+  const node = unit(cross({ x: 0, y: 0, z: 1 }, pole));
+  const ninety = cross(pole, node);
+  const angleFromNode = Math.atan2(dot(direction, ninety), dot(direction, node)) * Astronomy.RAD2DEG;
+  return {
+    latitude: Math.asin(dot(direction, pole)) * Astronomy.RAD2DEG,
+    longitude: normalizeDegrees(RETROGRADE_ROTATORS.has(body) ? angleFromNode - geometry.spin : geometry.spin - angleFromNode)
+  };
+}
+
+export interface JupiterCentralMeridians {
+  systemI: number;   // Equatorial belts and zones
+  systemII: number;  // Temperate regions, used for the Great Red Spot
+  systemIII: number; // Magnetic field rotation
+}
+
+/**
+ * Physical ephemeris of a planet for visual observation
+ */
+export interface PlanetaryEphemeris {
+  magnitude: number;
+  phaseAngle: number;            // Sun-planet-Earth angle in degrees
+  illuminatedFraction: number;   // 0-1
+  elongation: number;            // Angular distance from the Sun in degrees
+  elongationSide: 'morning' | 'evening';
+  distanceAu: number;
+  lightTimeMinutes: number;
+  equatorialDiameter: number;    // Apparent diameter in arcseconds
+  polarDiameter: number;         // Apparent polar diameter, foreshortened by the tilt of the pole
+  subEarthLatitude: number;      // Planetocentric, degrees; the tilt of the pole toward the Earth
+  subSolarLatitude: number;
+  northPolePositionAngle: number; // Direction of the north pole on the sky, from north through east
+  centralMeridian: number;       // Planetographic longitude of the sub-Earth point (System III for Jupiter and Saturn)
+  longitudeDirection: 'west' | 'east';
+  jupiterSystems?: JupiterCentralMeridians;
+}
+
+/**
+ * Central meridian longitudes of Jupiter in Systems I, II and III
+ */
+export function jupiterCentralMeridians(date: Date): JupiterCentralMeridians {
+  const geometry = planetGeometry(Astronomy.Body.Jupiter, date);
+  const systemIII = subPoint(Astronomy.Body.Jupiter, geometry, scale(geometry.geocentric, -1)).longitude;
+  // All three systems share the pole; they differ only in the prime meridian's angle
+  const days = Astronomy.MakeTime(geometry.emitted).tt;
+  const offset = (system: { w0: number; rate: number }) => system.w0 + system.rate * days - geometry.spin;
+  return {
+    systemI: normalizeDegrees(systemIII + offset(JUPITER_SYSTEM_I)),
+    systemII: normalizeDegrees(systemIII + offset(JUPITER_SYSTEM_II)),
+    systemIII
+  };
+}
+
+/**
+ * Calculate apparent size, brightness, elongation and orientation of a planet
+ * @throws Error when the body is not a planet
+ */
+export function getPlanetaryEphemeris(body: Astronomy.Body, date: Date): PlanetaryEphemeris {
+  const radii = PLANET_RADII_KM[body];
+  if (!radii) {
+    throw new Error(`No physical ephemeris for ${body}`);
+  }
+  const geometry = planetGeometry(body, date);
+  const illumination = Astronomy.Illumination(body, date);
+  const elongation = Astronomy.Elongation(body, date);
+  const subEarth = subPoint(body, geometry, scale(geometry.geocentric, -1));
+  const subSolar = subPoint(body, geometry, scale(geometry.heliocentric, -1));
+
+  const distanceKm = geometry.distanceAu * Astronomy.KM_PER_AU;
+  const equatorialDiameter = 2 * Math.atan(radii.equatorial / distanceKm) * ARCSEC_PER_RAD;
+  // An oblate planet's outline shrinks toward its true polar diameter as the pole tilts away
+  const eccentricitySquared = 1 - (radii.polar / radii.equatorial) ** 2;
+  const cosTilt = Math.cos(subEarth.latitude * Astronomy.DEG2RAD);
+  const polarDiameter = equatorialDiameter * Math.sqrt(1 - eccentricitySquared * cosTilt * cosTilt);
+
+  return {
+    magnitude: illumination.mag,
+    phaseAngle: illumination.phase_angle,
+    illuminatedFraction: illumination.phase_fraction,
+    elongation: elongation.elongation,
+    elongationSide: elongation.visibility === 'morning' ? 'morning' : 'evening',
+    distanceAu: geometry.distanceAu,
+    lightTimeMinutes: (date.getTime() - geometry.emitted.getTime()) / 60000,
+    equatorialDiameter,
+    polarDiameter,
+    subEarthLatitude: subEarth.latitude,
+    subSolarLatitude: subSolar.latitude,
+    northPolePositionAngle: normalizeDegrees(
+      Math.atan2(dot(geometry.pole, geometry.east), dot(geometry.pole, geometry.north)) * Astronomy.RAD2DEG
+    ),
+    centralMeridian: subEarth.longitude,
+    longitudeDirection: RETROGRADE_ROTATORS.has(body) ? 'east' : 'west',
+    ...(body === Astronomy.Body.Jupiter && { jupiterSystems: jupiterCentralMeridians(date) })
+  };
+}
+
+export type GalileanMoonName = 'Io' | 'Europa' | 'Ganymede' | 'Callisto';
+
+/**
+ * Where a Galilean moon appears relative to Jupiter:
+ * - transit: in front of the disk
+ * - occulted: behind the disk
+ * - eclipsed: in Jupiter's shadow
+ * - clear: beside the disk and sunlit
+ */
+export type GalileanMoonStatus = 'transit' | 'occulted' | 'eclipsed' | 'clear';
+
+export interface GalileanMoonPosition {
+  name: GalileanMoonName;
+  offsetEast: number;  // Apparent offset from Jupiter's center in arcseconds, east positive
+  offsetNorth: number; // north positive
+  offsetEastJupiterRadii: number;
+  status: GalileanMoonStatus;
+  shadowOnDisk: boolean; // Whether the moon's shadow falls on Jupiter (a shadow transit)
+}
+
+/**
+ * Whether a line through a point along a direction passes through Jupiter's oblate disk, and
+ * whether the point is on the near side of the disk (the side the direction comes from)
+ */
+function lineThroughJupiter(point: Vec, direction: Vec, pole: Vec) {
+  const radii = PLANET_RADII_KM[Astronomy.Body.Jupiter]!;
+  const equatorialAu = radii.equatorial / Astronomy.KM_PER_AU;
+  // Stretch the polar axis so the spheroid becomes a sphere of the equatorial radius
+  const stretch = (v: Vec) => add(v, scale(pole, dot(v, pole) * (radii.equatorial / radii.polar - 1)));
+  const p = stretch(point);
+  const d = unit(stretch(direction));
+  const along = dot(p, d);
+  return { crosses: dot(p, p) - along * along < equatorialAu * equatorialAu, nearSide: along < 0 };
+}
+
+/**
+ * Apparent positions of Io, Europa, Ganymede and Callisto relative to Jupiter, with transits,
+ * occultations, eclipses and shadow transits. Moon sizes and the penumbra are neglected.
+ */
+export function getGalileanMoons(date: Date): GalileanMoonPosition[] {
+  const geometry = planetGeometry(Astronomy.Body.Jupiter, date);
+  const moons = Astronomy.JupiterMoons(geometry.emitted);
+  const equatorialAu = PLANET_RADII_KM[Astronomy.Body.Jupiter]!.equatorial / Astronomy.KM_PER_AU;
+  const arcsecPerAu = ARCSEC_PER_RAD / geometry.distanceAu;
+
+  const entries: [GalileanMoonName, Vec][] = [
+    ['Io', moons.io],
+    ['Europa', moons.europa],
+    ['Ganymede', moons.ganymede],
+    ['Callisto', moons.callisto]
+  ];
+  return entries.map(([name, state]) => {
+    const position = { x: state.x, y: state.y, z: state.z };
+    const fromEarth = lineThroughJupiter(position, geometry.geocentric, geometry.pole);
+    const fromSun = lineThroughJupiter(position, geometry.heliocentric, geometry.pole);
+    let status: GalileanMoonStatus = 'clear';
+    if (fromEarth.crosses) {
+      status = fromEarth.nearSide ? 'transit' : 'occulted';
+    } else if (fromSun.crosses && !fromSun.nearSide) {
+      status = 'eclipsed';
+    }
+    const east = dot(position, geometry.east);
+    return {
+      name,
+      offsetEast: east * arcsecPerAu,
+      offsetNorth: dot(position, geometry.north) * arcsecPerAu,
+      offsetEastJupiterRadii: east / equatorialAu,
+      status,
+      shadowOnDisk: fromSun.crosses && fromSun.nearSide
+    };
+  });
+}
+
+export interface ShadowTransit {
+  moon: GalileanMoonName;
+  start: Date; // Shadow ingress
+  end: Date;   // Shadow egress
+}
+
+/**
+ * Find shadow transits of the Galilean moons that are in progress or begin within a time range
+ */
+export function findShadowTransits(start: Date, end: Date): ShadowTransit[] {
+  const shadowsAt = (t: number) => getGalileanMoons(new Date(t)).map(moon => moon.shadowOnDisk);
+  const refine = (index: number, low: number, high: number, stateAtLow: boolean) => {
+    while (high - low > EVENT_PRECISION_MS) {
+      const mid = (low + high) / 2;
+      if (shadowsAt(mid)[index] === stateAtLow) low = mid; else high = mid;
+    }
+    return new Date(Math.round(high));
+  };
+
+  // Begin early enough to find the ingress of a transit already in progress (Callisto's last up to ~5 h)
+  const searchStart = start.getTime() - 6 * 3600000;
+  const transits: ShadowTransit[] = [];
+  const open: (Date | null)[] = [null, null, null, null];
+  const names: GalileanMoonName[] = ['Io', 'Europa', 'Ganymede', 'Callisto'];
+
+  let t = searchStart;
+  let states = shadowsAt(t);
+  while (t < end.getTime()) {
+    const next = t + EVENT_STEP_MS;
+    const nextStates = shadowsAt(next);
+    nextStates.forEach((state, index) => {
+      if (state === states[index]) return;
+      const crossing = refine(index, t, next, states[index]);
+      if (state) {
+        open[index] = crossing;
+      } else if (open[index]) {
+        if (crossing.getTime() > start.getTime()) {
+          transits.push({ moon: names[index], start: open[index]!, end: crossing });
+        }
+        open[index] = null;
+      }
+    });
+    t = next;
+    states = nextStates;
+  }
+  // Transits that began in the range and end after it
+  open.forEach((ingress, index) => {
+    if (!ingress) return;
+    let egress = t;
+    while (shadowsAt(egress)[index]) egress += EVENT_STEP_MS;
+    transits.push({ moon: names[index], start: ingress, end: refine(index, egress - EVENT_STEP_MS, egress, true) });
+  });
+  return transits.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Find when the Great Red Spot crosses Jupiter's central meridian within a time range
+ * @param longitude System II longitude of the spot; defaults to the configured value
+ */
+export function findGreatRedSpotTransits(start: Date, end: Date, longitude = PLANETARY_CONFIG.greatRedSpotLongitude): Date[] {
+  // The central meridian advances by about the System II rotation rate
+  const msPerDegree = 86400000 / JUPITER_SYSTEM_II.rate;
+  const refine = (t: number) => {
+    for (let i = 0; i < 3; i++) {
+      t += signedDegrees(longitude - jupiterCentralMeridians(new Date(t)).systemII) * msPerDegree;
+    }
+    return t;
+  };
+
+  const transits: Date[] = [];
+  let t = refine(start.getTime() + normalizeDegrees(longitude - jupiterCentralMeridians(start).systemII) * msPerDegree);
+  // A refined first transit may land just before the range start
+  if (t < start.getTime()) t = refine(t + 360 * msPerDegree);
+  while (t <= end.getTime()) {
+    transits.push(new Date(Math.round(t)));
+    t = refine(t + 360 * msPerDegree);
+  }
+  return transits;
+}
+
+/**
+ * Appearance of Saturn's rings
+ */
+export interface SaturnRings {
+  earthTilt: number; // Ring plane tilt toward the Earth in degrees; positive shows the north face
+  sunTilt: number;   // Tilt toward the Sun; the lit face is the one the Sun is on
+  majorAxis: number; // Apparent extent of the A ring in arcseconds
+  minorAxis: number;
+}
+
+export function getSaturnRings(date: Date): SaturnRings {
+  const geometry = planetGeometry(Astronomy.Body.Saturn, date);
+  // The rings lie in Saturn's equatorial plane
+  const earthTilt = subPoint(Astronomy.Body.Saturn, geometry, scale(geometry.geocentric, -1)).latitude;
+  const sunTilt = subPoint(Astronomy.Body.Saturn, geometry, scale(geometry.heliocentric, -1)).latitude;
+  const majorAxis = 2 * Math.atan(SATURN_RING_RADIUS_KM / (geometry.distanceAu * Astronomy.KM_PER_AU)) * ARCSEC_PER_RAD;
+  return {
+    earthTilt,
+    sunTilt,
+    majorAxis,
+    minorAxis: majorAxis * Math.abs(Math.sin(earthTilt * Astronomy.DEG2RAD))
+  };
+}
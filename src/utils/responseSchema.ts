@@ -0,0 +1,345 @@
+import { z } from 'zod';
+import { formatInTimeZone } from './time.js';
+import { OBSERVABILITY_RATINGS } from './observability.js';
+
+/**
+ * Versioned, machine-readable response schemas. Numbers are raw values with the unit in the
+ * field name (e.g. rightAscensionHours), timestamps are ISO-8601 UTC with the observer's local
+ * time alongside, and sexagesimal strings are optional display fields.
+ */
+
+// Bumped whenever a field is renamed, removed or changes meaning
+export const CELESTIAL_DETAILS_SCHEMA_VERSION = '2.0';
+
+export type OutputFormat = 'json' | 'text' | 'both';
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'text', 'both'];
+
+export const OUTPUT_FORMAT_PARAM_DESCRIPTION =
+  "Optional. 'json' (structured response with numeric fields and explicit units), 'text' (a human-readable summary) or 'both' (the summary followed by the JSON). Default: 'json'.";
+
+export const TimestampSchema = z.object({
+  utc: z.string().datetime(),
+  local: z.string(), // 'YYYY-MM-DD HH:mm:ss Zone' in the observer's time zone
+});
+export type Timestamp = z.infer<typeof TimestampSchema>;
+
+export const EquatorialPositionSchema = z.object({
+  frame: z.string(),
+  center: z.enum(['geocentric', 'topocentric']),
+  rightAscensionHours: z.number().min(0).max(24),
+  declinationDegrees: z.number().min(-90).max(90),
+  display: z.object({
+    rightAscension: z.string(), // e.g. '18h 36m 56.3s'
+    declination: z.string(),    // e.g. '+38° 47′ 01″'
+  }).optional(),
+});
+export type EquatorialPosition = z.infer<typeof EquatorialPositionSchema>;
+
+export const HorizontalPositionSchema = z.object({
+  altitudeDegrees: z.number().min(-90).max(90),
+  azimuthDegrees: z.number().min(0).max(360),
+  display: z.object({
+    altitude: z.string(),
+    azimuth: z.string(),
+  }).optional(),
+});
+
+const ConstellationSchema = z.object({
+  abbreviation: z.string(),
+  name: z.string(),
+  genitive: z.string(),
+});
+
+// Score of one observability factor, 0 (worst) to 1 (best)
+const FactorScoreSchema = z.number().min(0).max(1);
+
+export const ObservabilitySchema = z.object({
+  score: z.number().min(0).max(100),
+  rating: z.enum(OBSERVABILITY_RATINGS),
+  detectable: z.boolean().nullable(),
+  effectiveSkySqm: z.number(),
+  factors: z.object({
+    altitude: z.object({
+      altitudeDegrees: z.number().min(-90).max(90),
+      airmass: z.number().nullable(),
+      extinctionMagnitudes: z.number().nullable(),
+      score: FactorScoreSchema,
+    }),
+    sky: z.object({
+      sqm: z.number(),
+      bortleClass: z.number().min(1).max(9).optional(),
+      source: z.string(),
+      sunAltitudeDegrees: z.number(),
+      twilightBrighteningMagnitudes: z.number(),
+      score: FactorScoreSchema,
+    }),
+    moon: z.object({
+      altitudeDegrees: z.number(),
+      illuminationPercent: z.number().min(0).max(100),
+      separationDegrees: z.number().min(0).max(180),
+      skyBrighteningMagnitudes: z.number(),
+      score: FactorScoreSchema,
+    }).nullable(),
+    object: z.object({
+      apertureMm: z.number(),
+      apertureSource: z.string(),
+      magnitude: z.number().optional(),
+      extinctedMagnitude: z.number().optional(),
+      limitingMagnitude: z.number(),
+      magnitudeMargin: z.number().optional(),
+      surfaceBrightness: z.number().optional(),
+      sizeArcmin: z.number().optional(),
+      contrastMargin: z.number().optional(),
+      score: FactorScoreSchema,
+    }),
+  }),
+});
+
+export const PlanetDetailsSchema = z.object({
+  apparentMagnitude: z.number(),
+  apparentDiameterArcsec: z.object({
+    equatorial: z.number(),
+    polar: z.number(),
+  }),
+  elongationDegrees: z.number().min(0).max(180),
+  elongationSide: z.string(),
+  phaseAngleDegrees: z.number().min(0).max(180),
+  illuminatedPercent: z.number().min(0).max(100),
+  lightTimeMinutes: z.number(),
+  subEarthLatitudeDegrees: z.number().min(-90).max(90),
+  northPolePositionAngleDegrees: z.number(),
+  // Jupiter has three rotation systems, the other planets a single longitude
+  centralMeridian: z.union([
+    z.object({
+      systemI: z.number(),
+      systemII: z.number(),
+      systemIII: z.number(),
+      note: z.string(),
+    }),
+    z.object({
+      longitudeDegrees: z.number(),
+      note: z.string(),
+    }),
+  ]),
+  galileanMoons: z.array(z.object({
+    name: z.enum(['Io', 'Europa', 'Ganymede', 'Callisto']),
+    offsetEastArcsec: z.number(),
+    offsetNorthArcsec: z.number(),
+    offsetJupiterRadii: z.number().min(0),
+    side: z.enum(['east', 'west']),
+    status: z.enum(['transit', 'occulted', 'eclipsed', 'clear']),
+    shadowOnDisk: z.boolean().optional(),
+  })).optional(),
+  shadowTransits: z.object({
+    searchHours: z.number(),
+    events: z.array(z.object({
+      moon: z.string(),
+      start: TimestampSchema,
+      end: TimestampSchema,
+      jupiterAltitudeAtMidpointDegrees: z.number(),
+    })),
+  }).optional(),
+  greatRedSpot: z.object({
+    systemIILongitudeDegrees: z.number().min(0).max(360),
+    longitudeSource: z.enum(['parameter', 'configured default']),
+    transits: z.array(TimestampSchema.extend({
+      jupiterAltitudeDegrees: z.number(),
+    })),
+    note: z.string(),
+  }).optional(),
+  rings: z.object({
+    tiltTowardEarthDegrees: z.number(),
+    tiltTowardSunDegrees: z.number(),
+    visibleFace: z.enum(['north', 'south']),
+    majorAxisArcsec: z.number(),
+    minorAxisArcsec: z.number(),
+    note: z.string().optional(),
+    unlitFaceVisible: z.boolean().optional(),
+  }).optional(),
+});
+export type PlanetDetails = z.infer<typeof PlanetDetailsSchema>;
+
+export const DeepSkyDetailsSchema = z.object({
+  catalogName: z.string(),
+  commonName: z.string().optional(),
+  type: z.string(),
+  constellation: z.string().optional(),
+  angularSize: z.object({
+    majorAxisArcmin: z.number(),
+    minorAxisArcmin: z.number().optional(),
+    positionAngleDegrees: z.number().optional(),
+  }).optional(),
+  surfaceBrightnessMagPerArcsec2: z.number().optional(),
+  hubbleType: z.string().optional(),
+  centralStar: z.object({
+    names: z.array(z.string()),
+    magnitude: z.number().optional(),
+  }).optional(),
+  identifiers: z.array(z.string()).optional(),
+});
+export type DeepSkyDetails = z.infer<typeof DeepSkyDetailsSchema>;
+
+export const StarDetailsSchema = z.object({
+  catalogIds: z.object({
+    hip: z.string().optional(),
+    hd: z.string().optional(),
+    hr: z.string().optional(),
+  }),
+  constellation: z.string().optional(),
+  spectralType: z.string().optional(),
+  colorIndexBV: z.number().optional(),
+  distance: z.object({
+    parsecs: z.number(),
+    lightYears: z.number(),
+  }).optional(),
+  absoluteMagnitude: z.number().optional(),
+  luminositySolar: z.number().optional(),
+  variability: z.object({
+    designation: z.string().optional(),
+    brightestMagnitude: z.number().optional(),
+    faintestMagnitude: z.number().optional(),
+  }).optional(),
+  multipleSystem: z.object({
+    componentCount: z.number().int(),
+    components: z.array(z.object({
+      name: z.string(),
+      component: z.number().int(),
+      magnitude: z.number().optional(),
+      spectralType: z.string().optional(),
+      separationArcsec: z.number(),
+    })),
+  }).optional(),
+});
+export type StarDetails = z.infer<typeof StarDetailsSchema>;
+
+export const CelestialDetailsResponseSchema = z.object({
+  schemaVersion: z.literal(CELESTIAL_DETAILS_SCHEMA_VERSION),
+  status: z.literal('Success'),
+  object: z.string(),
+  resolvedAs: z.string().optional(),
+  matchedBy: z.enum(['designation', 'bayerFlamsteed', 'fuzzy']).optional(),
+  type: z.string().optional(),
+  apparentMagnitude: z.number().optional(),
+  observation: z.object({
+    time: TimestampSchema,
+    timeZone: z.string(),
+    observer: z.object({
+      name: z.string(),
+      latitudeDegrees: z.number(),
+      longitudeDegrees: z.number(),
+      elevationMeters: z.number(),
+    }),
+  }),
+  constellation: ConstellationSchema.optional(),
+  coordinates: z.object({
+    equatorial: EquatorialPositionSchema,
+    apparent: EquatorialPositionSchema,
+    geocentric: z.object({
+      equatorial: EquatorialPositionSchema,
+      apparent: EquatorialPositionSchema,
+      parallaxShiftArcsec: z.number(),
+    }).optional(),
+    horizontal: HorizontalPositionSchema,
+  }),
+  aboveHorizon: z.boolean(),
+  visibility: z.string(),
+  localHorizon: z.object({
+    minimumAltitudeDegrees: z.number(),
+    clear: z.boolean(),
+    hiddenByLocalHorizon: z.boolean().optional(),
+  }).optional(),
+  observability: ObservabilitySchema,
+  visibilityTimes: z.object({
+    rise: TimestampSchema.nullable(),
+    transit: TimestampSchema.nullable(),
+    set: TimestampSchema.nullable(),
+    transitAltitudeDegrees: z.number().nullable(),
+    circumpolar: z.enum(['alwaysAbove', 'alwaysBelow', 'circumpolar']).optional(),
+    note: z.string().optional(),
+    localHorizon: z.object({
+      clears: TimestampSchema.nullable(),
+      hidden: TimestampSchema.nullable(),
+      note: z.string(),
+    }).optional(),
+  }),
+  distance: z.object({
+    astronomicalUnits: z.number(),
+    kilometers: z.number(),
+  }).optional(),
+  phase: z.object({
+    illuminatedPercent: z.number().min(0).max(100),
+    trend: z.enum(['Waxing', 'Waning']),
+  }).optional(),
+  planetDetails: PlanetDetailsSchema.optional(),
+  deepSkyDetails: DeepSkyDetailsSchema.optional(),
+  starDetails: StarDetailsSchema.optional(),
+  upcomingPhases: z.object({
+    newMoon: TimestampSchema,
+    firstQuarter: TimestampSchema,
+    fullMoon: TimestampSchema,
+    lastQuarter: TimestampSchema,
+  }).optional(),
+});
+export type CelestialDetailsResponse = z.infer<typeof CelestialDetailsResponseSchema>;
+
+// Returned instead when the object, time, observer or equipment in the request cannot be used
+export const CelestialDetailsErrorResponseSchema = z.object({
+  schemaVersion: z.literal(CELESTIAL_DETAILS_SCHEMA_VERSION),
+  status: z.enum(['UnknownObject', 'InvalidTime', 'InvalidObserver', 'InvalidEquipment']),
+  object: z.string(),
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    object: z.string().optional(),
+    input: z.string().optional(),
+    observer: z.string().optional(),
+    equipment: z.string().optional(),
+  }),
+  suggestions: z.array(z.string()).optional(),
+  acceptedFormats: z.array(z.string()).optional(),
+  availableObservers: z.array(z.string()).optional(),
+  availableEquipment: z.array(z.string()).optional(),
+});
+export type CelestialDetailsErrorResponse = z.infer<typeof CelestialDetailsErrorResponseSchema>;
+
+/**
+ * Check a response against its schema before it is returned
+ * @throws Error listing the mismatched fields, which indicates a bug in the tool
+ */
+export function validateResponse<T>(schema: z.ZodType<T>, response: unknown): T {
+  const result = schema.safeParse(response);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Response does not match its schema: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * UTC and observer-local form of a time
+ */
+export function toTimestamp(date: Date, timeZone: string): Timestamp {
+  return { utc: date.toISOString(), local: formatInTimeZone(date, timeZone) };
+}
+
+/**
+ * Right ascension in hours as 'HHh MMm SS.Ss'
+ */
+export function formatRightAscension(hours: number): string {
+  const tenthsOfSeconds = Math.round((((hours % 24) + 24) % 24) * 36000) % 864000;
+  const h = Math.floor(tenthsOfSeconds / 36000);
+  const m = Math.floor(tenthsOfSeconds / 600) % 60;
+  const s = (tenthsOfSeconds % 600) / 10;
+  return `${String(h).padStart(2, '0')}h ${String(m).padStart(2, '0')}m ${s.toFixed(1).padStart(4, '0')}s`;
+}
+
+/**
+ * Angle in degrees as '±DD° MM′ SS″', or without the sign for angles such as azimuth
+ */
+export function formatDegrees(degrees: number, signed: boolean = true): string {
+  const totalSeconds = Math.round(Math.abs(degrees) * 3600);
+  const d = Math.floor(totalSeconds / 3600);
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const s = totalSeconds % 60;
+  return `${signed ? (degrees < 0 ? '−' : '+') : ''}${String(d).padStart(2, '0')}° ${String(m).padStart(2, '0')}′ ${String(s).padStart(2, '0')}″`;
+}
@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Astronomy from 'astronomy-engine';
+import * as satellite from 'satellite.js';
+import { DATA_DIR } from '../config.js';
+import { Observer } from './astronomy.js';
+import { TWILIGHT_ALTITUDES, toAstronomyObserver } from './night.js';
+
+/**
+ * Artificial satellite loaded from a two-line element set
+ */
+export interface SatelliteRecord {
+  name: string;          // Name from the title line, or the catalog number for bare two-line sets
+  catalogNumber: string; // NORAD catalog number
+  epoch: Date;           // Epoch of the element set
+  satrec: satellite.SatRec;
+}
+
+export interface SatelliteLookAngles {
+  altitude: number; // in degrees, including standard refraction (as in convertToAltAz)
+  azimuth: number;  // in degrees, measured from north through east
+  rangeKm: number;
+  sunlit: boolean;  // Satellite is not in the Earth's umbra
+}
+
+export interface PassPoint {
+  time: Date;
+  altitude: number;
+  azimuth: number;
+}
+
+export interface SatellitePass {
+  rise: PassPoint;
+  culmination: PassPoint;
+  set: PassPoint;
+  // Part of the pass in which the satellite is sunlit while the observer's sky is dark
+  visibleStart: PassPoint | null;
+  visibleEnd: PassPoint | null;
+  // First and last points clear of the local horizon; null when it never clears
+  clearStart: PassPoint | null;
+  clearEnd: PassPoint | null;
+  sunlitAtCulmination: boolean;
+  observerInDarkness: boolean; // Sun below civil twilight at culmination
+}
+
+// Satellites keyed by lowercase name and by catalog number
+export const SATELLITE_CATALOG: Map<string, SatelliteRecord> = new Map();
+
+// Sun altitude below which a sunlit satellite stands out against the sky
+export const SATELLITE_VISIBILITY_SUN_ALTITUDE = TWILIGHT_ALTITUDES.civil;
+
+// Coarse scan step; low-earth-orbit passes above the horizon last at least a couple of minutes
+const SCAN_STEP_MS = 20000;
+const SAMPLE_STEP_MS = 5000;
+
+/**
+ * Load satellites from a TLE file. Both the three-line format (title line followed by
+ * lines 1 and 2, as published by CelesTrak) and bare two-line sets are accepted.
+ * @param filePath Path to the TLE file
+ */
+export function loadTLEFile(filePath: string): void {
+  try {
+    if (!fs.existsSync(filePath)) {
+      console.warn(`TLE file ${filePath} not found. Data from this file will not be loaded.`);
+      return;
+    }
+    const lines = fs.readFileSync(filePath, 'utf8').split(/\r?\n/).map(line => line.trimEnd());
+    let count = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].startsWith('1 ') || !lines[i + 1]?.startsWith('2 ')) continue;
+
+      const line1 = lines[i];
+      const line2 = lines[i + 1];
+      const titleLine = i > 0 && !lines[i - 1].startsWith('2 ') ? lines[i - 1].trim() : '';
+      // Some sources prefix the title with '0 '
+      const title = titleLine.replace(/^0\s+/, '');
+      i++;
+
+      const satrec = satellite.twoline2satrec(line1, line2);
+      if (satrec.error !== 0) continue;
+
+      const catalogNumber = line1.substring(2, 7).trim();
+      const record: SatelliteRecord = {
+        name: title || catalogNumber,
+        catalogNumber,
+        epoch: satellite.invjday(satrec.jdsatepoch),
+        satrec
+      };
+
+      // When several files carry the same satellite, keep the most recent element set
+      for (const key of [record.name.toLowerCase(), catalogNumber]) {
+        const existing = SATELLITE_CATALOG.get(key);
+        if (!existing || existing.epoch.getTime() < record.epoch.getTime()) {
+          SATELLITE_CATALOG.set(key, record);
+        }
+      }
+      count++;
+    }
+    console.log(`Loaded ${count} satellites from ${filePath}`);
+  } catch (error) {
+    console.error(`Failed to load satellites from ${filePath}: ${error}. Data from this file will not be loaded.`);
+  }
+}
+
+/**
+ * Load every *.tle file in the data directory (e.g. CelesTrak's stations.tle)
+ */
+export function initializeSatelliteCatalog(): void {
+  if (!fs.existsSync(DATA_DIR)) return;
+  for (const file of fs.readdirSync(DATA_DIR)) {
+    if (file.toLowerCase().endsWith('.tle')) {
+      loadTLEFile(path.join(DATA_DIR, file));
+    }
+  }
+}
+
+// Initialize the satellite catalog on module import
+initializeSatelliteCatalog();
+
+/**
+ * Find satellites by name or NORAD catalog number. An exact match is returned alone;
+ * otherwise all satellites whose name contains the query (e.g. 'starlink').
+ */
+export function findSatellites(query: string): SatelliteRecord[] {
+  const key = query.trim().toLowerCase();
+  const exact = SATELLITE_CATALOG.get(key);
+  if (exact) return [exact];
+  const matches = new Set<SatelliteRecord>();
+  for (const [name, record] of SATELLITE_CATALOG) {
+    if (name.includes(key)) matches.add(record);
+  }
+  return Array.from(matches).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Topocentric position of a satellite propagated with SGP4
+ * @returns null when propagation fails (e.g. the satellite has decayed)
+ */
+export function getSatelliteLookAngles(record: SatelliteRecord, observer: Observer, date: Date): SatelliteLookAngles | null {
+  const state = satellite.propagate(record.satrec, date);
+  if (!state) return null;
+
+  const gmst = satellite.gstime(date);
+  const observerGeodetic = {
+    latitude: observer.latitude * Astronomy.DEG2RAD,
+    longitude: observer.longitude * Astronomy.DEG2RAD,
+    height: observer.elevation / 1000
+  };
+  const look = satellite.ecfToLookAngles(observerGeodetic, satellite.eciToEcf(state.position, gmst));
+  const geometricAltitude = look.elevation * Astronomy.RAD2DEG;
+
+  return {
+    altitude: geometricAltitude + Astronomy.Refraction('normal', geometricAltitude),
+    azimuth: look.azimuth * Astronomy.RAD2DEG,
+    rangeKm: look.rangeSat,
+    sunlit: satellite.shadowFraction(satellite.sunPos(satellite.jday(date)).rsun, state.position) < 1
+  };
+}
+
+function getSunAltitude(observer: Astronomy.Observer, date: Date): number {
+  const sun = Astronomy.Equator(Astronomy.Body.Sun, date, observer, true, true);
+  return Astronomy.Horizon(date, observer, sun.ra, sun.dec).altitude;
+}
+
+/**
+ * Bisect the time at which the satellite's altitude crosses a threshold between two times
+ */
+function refineCrossing(record: SatelliteRecord, observer: Observer, before: Date, after: Date, altitude: number): Date {
+  let lo = before.getTime();
+  let hi = after.getTime();
+  const rising = (getSatelliteLookAngles(record, observer, before)?.altitude ?? -90) < altitude;
+  while (hi - lo > 500) {
+    const mid = (lo + hi) / 2;
+    const midAltitude = getSatelliteLookAngles(record, observer, new Date(mid))?.altitude ?? -90;
+    if ((midAltitude < altitude) === rising) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return new Date(Math.round((lo + hi) / 2));
+}
+
+function toPassPoint(record: SatelliteRecord, observer: Observer, time: Date): PassPoint {
+  const look = getSatelliteLookAngles(record, observer, time);
+  return { time, altitude: look?.altitude ?? 0, azimuth: look?.azimuth ?? 0 };
+}
+
+/**
+ * Describe one pass between its rise and set times: culmination and the visible segment
+ * @param isClear Whether a point is clear of the local horizon; every point above 0° when omitted
+ */
+function describePass(
+  record: SatelliteRecord,
+  observer: Observer,
+  rise: Date,
+  set: Date,
+  isClear?: (point: PassPoint) => boolean
+): SatellitePass {
+  const astroObserver = toAstronomyObserver(observer);
+  let culmination = toPassPoint(record, observer, rise);
+  let visibleStart: PassPoint | null = null;
+  let visibleEnd: PassPoint | null = null;
+  let clearStart: PassPoint | null = null;
+  let clearEnd: PassPoint | null = null;
+
+  for (let t = rise.getTime(); t <= set.getTime(); t += SAMPLE_STEP_MS) {
+    const time = new Date(t);
+    const look = getSatelliteLookAngles(record, observer, time);
+    if (!look) continue;
+    const point = { time, altitude: look.altitude, azimuth: look.azimuth };
+    if (point.altitude > culmination.altitude) culmination = point;
+
+    const clear = isClear ? isClear(point) : true;
+    if (clear) {
+      if (!clearStart) clearStart = point;
+      clearEnd = point;
+    }
+
+    // Behind trees or buildings a sunlit satellite is still out of sight
+    const visible = clear && look.sunlit && getSunAltitude(astroObserver, time) < SATELLITE_VISIBILITY_SUN_ALTITUDE;
+    if (visible) {
+      if (!visibleStart) visibleStart = point;
+      visibleEnd = point;
+    }
+  }
+
+  const culminationLook = getSatelliteLookAngles(record, observer, culmination.time);
+  return {
+    rise: toPassPoint(record, observer, rise),
+    culmination,
+    set: toPassPoint(record, observer, set),
+    visibleStart,
+    visibleEnd,
+    clearStart,
+    clearEnd,
+    sunlitAtCulmination: culminationLook?.sunlit ?? false,
+    observerInDarkness: getSunAltitude(astroObserver, culmination.time) < SATELLITE_VISIBILITY_SUN_ALTITUDE
+  };
+}
+
+/**
+ * Find the passes of a satellite above the horizon within a time range
+ * @param minAltitude Passes whose culmination stays below this altitude (degrees) are skipped
+ * @param isClear Whether a point is clear of the observer's local horizon. Passes that never
+ *   clear it are skipped, and only clear points count towards the visible segment.
+ */
+export function findSatellitePasses(
+  record: SatelliteRecord,
+  observer: Observer,
+  start: Date,
+  end: Date,
+  minAltitude: number = 0,
+  isClear?: (point: PassPoint) => boolean
+): SatellitePass[] {
+  const passes: SatellitePass[] = [];
+  let previousTime = start;
+  let previousAltitude = getSatelliteLookAngles(record, observer, start)?.altitude ?? -90;
+  // A pass already in progress at the start is reported from the start time
+  let riseTime: Date | null = previousAltitude >= 0 ? start : null;
+
+  for (let t = start.getTime() + SCAN_STEP_MS; t <= end.getTime() + SCAN_STEP_MS; t += SCAN_STEP_MS) {
+    const time = new Date(Math.min(t, end.getTime()));
+    const altitude = getSatelliteLookAngles(record, observer, time)?.altitude ?? -90;
+
+    if (previousAltitude < 0 && altitude >= 0) {
+      riseTime = refineCrossing(record, observer, previousTime, time, 0);
+    } else if (riseTime && previousAltitude >= 0 && (altitude < 0 || time.getTime() >= end.getTime())) {
+      const setTime = altitude < 0 ? refineCrossing(record, observer, previousTime, time, 0) : time;
+      const pass = describePass(record, observer, riseTime, setTime, isClear);
+      if (pass.culmination.altitude >= minAltitude && pass.clearStart) {
+        passes.push(pass);
+      }
+      riseTime = null;
+    }
+
+    if (time.getTime() >= end.getTime()) break;
+    previousTime = time;
+    previousAltitude = altitude;
+  }
+  return passes;
+}
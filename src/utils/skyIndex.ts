@@ -0,0 +1,164 @@
+import type { EquatorialCoordinates } from './astronomy.js';
+
+export interface SkyIndexEntry<T extends EquatorialCoordinates> {
+  key: string; // Catalog key, e.g. the STAR_CATALOG key
+  item: T;
+}
+
+export interface SkyIndexMatch<T extends EquatorialCoordinates> extends SkyIndexEntry<T> {
+  separation: number; // Distance from the cone center in degrees
+}
+
+interface DeclinationBand<T extends EquatorialCoordinates> {
+  binWidth: number;            // RA bin width in degrees
+  bins: SkyIndexEntry<T>[][];  // Entries of each RA bin, sorted by magnitude once queried
+}
+
+const DEFAULT_CELL_SIZE_DEGREES = 2;
+
+/**
+ * Angular separation in degrees by the spherical law of cosines, as calculateAngularSeparation in
+ * astronomy.ts computes it. Kept here so the index does not import astronomy.ts at runtime, which
+ * itself imports the index.
+ */
+function angularSeparation(a: EquatorialCoordinates, b: EquatorialCoordinates): number {
+  const ra1 = a.rightAscension * 15 * Math.PI / 180;
+  const ra2 = b.rightAscension * 15 * Math.PI / 180;
+  const dec1 = a.declination * Math.PI / 180;
+  const dec2 = b.declination * Math.PI / 180;
+  const cosSeparation = Math.sin(dec1) * Math.sin(dec2) + Math.cos(dec1) * Math.cos(dec2) * Math.cos(ra1 - ra2);
+  return Math.acos(Math.max(-1, Math.min(1, cosSeparation))) * 180 / Math.PI;
+}
+
+function byMagnitude<T extends EquatorialCoordinates>(a: SkyIndexEntry<T>, b: SkyIndexEntry<T>): number {
+  return (a.item.magnitude ?? Infinity) - (b.item.magnitude ?? Infinity);
+}
+
+/**
+ * Spatial index over catalog positions: the sky is cut into declination bands, and each band
+ * into right ascension bins of roughly equal area (fewer bins towards the poles). Entries in
+ * a cell are kept sorted by magnitude so a magnitude cutoff stops the scan of a cell early.
+ */
+export class SkyIndex<T extends EquatorialCoordinates> {
+  private readonly cellSize: number;
+  private bands: DeclinationBand<T>[] = [];
+  private unsortedBins = new Set<SkyIndexEntry<T>[]>();
+  private count = 0;
+
+  /**
+   * @param cellSizeDegrees Height of the declination bands and approximate width of the RA bins
+   */
+  constructor(cellSizeDegrees: number = DEFAULT_CELL_SIZE_DEGREES) {
+    this.cellSize = cellSizeDegrees;
+    this.clear();
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  clear(): void {
+    const bandCount = Math.ceil(180 / this.cellSize);
+    this.bands = [];
+    for (let i = 0; i < bandCount; i++) {
+      const lowerDec = -90 + i * this.cellSize;
+      const upperDec = Math.min(90, lowerDec + this.cellSize);
+      // Size the bins by the band's widest circle of declination
+      const widestDec = lowerDec <= 0 && upperDec >= 0 ? 0 : Math.min(Math.abs(lowerDec), Math.abs(upperDec));
+      const binCount = Math.max(1, Math.floor(360 * Math.cos(widestDec * Math.PI / 180) / this.cellSize));
+      this.bands.push({ binWidth: 360 / binCount, bins: Array.from({ length: binCount }, () => []) });
+    }
+    this.unsortedBins.clear();
+    this.count = 0;
+  }
+
+  add(key: string, item: T): void {
+    const band = this.bands[this.bandIndex(item.declination)];
+    const bin = band.bins[Math.floor(this.normalizeRA(item.rightAscension * 15) / band.binWidth) % band.bins.length];
+    bin.push({ key, item });
+    this.unsortedBins.add(bin);
+    this.count++;
+  }
+
+  /**
+   * Entries within a radius of a position, nearest first
+   * @param center Cone center (J2000, like the catalog positions)
+   * @param radiusDegrees Cone radius in degrees
+   * @param maxMagnitude Skip entries fainter than this magnitude, or without a magnitude
+   */
+  queryCone(center: EquatorialCoordinates, radiusDegrees: number, maxMagnitude?: number): SkyIndexMatch<T>[] {
+    const lowerDec = center.declination - radiusDegrees;
+    const upperDec = center.declination + radiusDegrees;
+    // Half-width in RA of the cone; the whole circle when it reaches a pole
+    let raHalfWidth = 180;
+    if (lowerDec > -90 && upperDec < 90) {
+      const ratio = Math.sin(radiusDegrees * Math.PI / 180) / Math.cos(center.declination * Math.PI / 180);
+      if (ratio < 1) raHalfWidth = Math.asin(ratio) * 180 / Math.PI;
+    }
+
+    const centerRA = center.rightAscension * 15;
+    const matches: SkyIndexMatch<T>[] = [];
+    for (const bin of this.binsInRange(lowerDec, upperDec, centerRA - raHalfWidth, centerRA + raHalfWidth)) {
+      for (const entry of bin) {
+        if (maxMagnitude !== undefined && !((entry.item.magnitude ?? Infinity) <= maxMagnitude)) break;
+        const separation = angularSeparation(center, entry.item);
+        if (separation <= radiusDegrees) {
+          matches.push({ ...entry, separation });
+        }
+      }
+    }
+    return matches.sort((a, b) => a.separation - b.separation);
+  }
+
+  /**
+   * Entries within a right ascension and declination box. The RA range wraps through 0h
+   * when raMinHours is greater than raMaxHours (e.g. 23h to 1h).
+   */
+  queryBox(raMinHours: number, raMaxHours: number, decMin: number, decMax: number, maxMagnitude?: number): SkyIndexEntry<T>[] {
+    const raMin = this.normalizeRA(raMinHours * 15);
+    let raMax = this.normalizeRA(raMaxHours * 15);
+    if (raMax < raMin || (raMax === raMin && raMaxHours !== raMinHours)) raMax += 360;
+
+    const entries: SkyIndexEntry<T>[] = [];
+    for (const bin of this.binsInRange(decMin, decMax, raMin, raMax)) {
+      for (const entry of bin) {
+        if (maxMagnitude !== undefined && !((entry.item.magnitude ?? Infinity) <= maxMagnitude)) break;
+        const { declination } = entry.item;
+        let ra = this.normalizeRA(entry.item.rightAscension * 15);
+        if (ra < raMin) ra += 360;
+        if (declination >= decMin && declination <= decMax && ra <= raMax) {
+          entries.push(entry);
+        }
+      }
+    }
+    return entries;
+  }
+
+  private normalizeRA(degrees: number): number {
+    return ((degrees % 360) + 360) % 360;
+  }
+
+  private bandIndex(declination: number): number {
+    return Math.min(this.bands.length - 1, Math.max(0, Math.floor((declination + 90) / this.cellSize)));
+  }
+
+  /**
+   * Bins overlapping a declination range and an RA range in degrees (which may extend past 0 or 360)
+   */
+  private *binsInRange(lowerDec: number, upperDec: number, raStart: number, raEnd: number): Generator<SkyIndexEntry<T>[]> {
+    for (let b = this.bandIndex(lowerDec); b <= this.bandIndex(upperDec); b++) {
+      const band = this.bands[b];
+      const binCount = band.bins.length;
+      const firstBin = Math.floor(raStart / band.binWidth);
+      const lastBin = Math.min(Math.floor(raEnd / band.binWidth), firstBin + binCount - 1);
+      for (let i = firstBin; i <= lastBin; i++) {
+        const bin = band.bins[((i % binCount) + binCount) % binCount];
+        if (this.unsortedBins.has(bin)) {
+          bin.sort(byMagnitude);
+          this.unsortedBins.delete(bin);
+        }
+        yield bin;
+      }
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { STAR_HOP_CONFIG } from '../config.js';
+import { EquatorialCoordinates, calculateAngularSeparation } from './astronomy.js';
+import { SkyIndex } from './skyIndex.js';
+
+/**
+ * Star that can start or take part in a star-hop route
+ */
+export interface StarHopNode extends EquatorialCoordinates {
+  id: string; // Unique key, e.g. the STAR_CATALOG key
+}
+
+export interface StarHopCostWeights {
+  hopCost: number;
+  faintnessCostPerMagnitude: number;
+  lengthCostPerFov: number;
+}
+
+export interface StarHopRoute<T extends StarHopNode> {
+  stars: T[];                  // Start star followed by each hop star; the last one has the target in its FOV
+  cost: number;                // Total route cost including the final step to the target
+  finalSeparationDegrees: number; // Distance from the last star to the target
+}
+
+// Search state for one star; the virtual target node uses TARGET_ID
+interface SearchEntry {
+  cost: number;     // Cheapest known cost from a start star
+  estimate: number; // cost + heuristic remaining cost
+  previous: string | null;
+}
+
+const TARGET_ID = '\0target';
+
+function faintnessCost(star: StarHopNode, weights: StarHopCostWeights): number {
+  return weights.faintnessCostPerMagnitude * Math.max(0, star.magnitude ?? 0);
+}
+
+/**
+ * Lower bound on the remaining cost from a star at the given distance from the target:
+ * every hop covers at most one FOV, and the path is at least as long as the distance.
+ * The bound obeys the triangle inequality, so A* never has to reopen a star.
+ */
+function remainingCostBound(distance: number, fovDegrees: number, weights: StarHopCostWeights): number {
+  const hopsNeeded = Math.ceil(Math.max(0, distance - fovDegrees) / fovDegrees);
+  return hopsNeeded * weights.hopCost + weights.lengthCostPerFov * (distance / fovDegrees);
+}
+
+/**
+ * A* search for the cheapest route from any start star to the target over the graph
+ * whose edges join stars closer together than the FOV.
+ */
+function searchRoute<T extends StarHopNode>(
+  startStars: T[],
+  stars: Map<string, T>,
+  neighbours: SkyIndex<T>,
+  distanceToTarget: Map<string, number>,
+  fovDegrees: number,
+  weights: StarHopCostWeights
+): StarHopRoute<T> | null {
+  const entries = new Map<string, SearchEntry>();
+  const open = new Set<string>();
+  const closed = new Set<string>();
+
+  const relax = (id: string, cost: number, previous: string | null) => {
+    if (closed.has(id)) return;
+    const existing = entries.get(id);
+    if (existing && existing.cost <= cost) return;
+    const heuristic = id === TARGET_ID ? 0 : remainingCostBound(distanceToTarget.get(id)!, fovDegrees, weights);
+    entries.set(id, { cost, estimate: cost + heuristic, previous });
+    open.add(id);
+  };
+
+  for (const star of startStars) {
+    relax(star.id, faintnessCost(star, weights), null);
+  }
+
+  while (open.size > 0) {
+    // Open sets stay small (stars within a few FOVs of the frontier), so a linear scan is enough
+    let currentId = '';
+    let best = Infinity;
+    for (const id of open) {
+      const estimate = entries.get(id)!.estimate;
+      if (estimate < best) {
+        best = estimate;
+        currentId = id;
+      }
+    }
+    open.delete(currentId);
+    closed.add(currentId);
+    const current = entries.get(currentId)!;
+
+    if (currentId === TARGET_ID) {
+      const route: T[] = [];
+      for (let id = current.previous; id !== null; id = entries.get(id)!.previous) {
+        route.unshift(stars.get(id)!);
+      }
+      return {
+        stars: route,
+        cost: current.cost,
+        finalSeparationDegrees: distanceToTarget.get(route[route.length - 1].id)!,
+      };
+    }
+
+    const currentStar = stars.get(currentId)!;
+    const currentDistance = distanceToTarget.get(currentId)!;
+    if (currentDistance <= fovDegrees) {
+      relax(TARGET_ID, current.cost + weights.lengthCostPerFov * (currentDistance / fovDegrees), currentId);
+    }
+
+    for (const { key: id, item: star, separation: hopLength } of neighbours.queryCone(currentStar, fovDegrees)) {
+      // Stars used by an earlier route are no longer in the graph
+      if (closed.has(id) || !stars.has(id)) continue;
+      const hopCost = weights.hopCost + faintnessCost(star, weights) + weights.lengthCostPerFov * (hopLength / fovDegrees);
+      relax(id, current.cost + hopCost, currentId);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the cheapest star-hop routes to a target.
+ * Each hop joins two stars within one FOV of each other, and the route ends at a star with the
+ * target in its FOV. Alternative routes share no stars with the routes found before them.
+ * @param startStars Stars the route may begin from
+ * @param hopStars Stars usable as intermediate hops (start stars are added automatically)
+ * @param target Target position
+ * @param fovDegrees Field of view in degrees
+ * @param maxRoutes Number of routes to return: the best one plus up to maxRoutes - 1 alternatives
+ * @returns Routes in order of increasing cost; empty when no route exists
+ */
+export function findStarHopRoutes<T extends StarHopNode>(
+  startStars: T[],
+  hopStars: T[],
+  target: EquatorialCoordinates,
+  fovDegrees: number,
+  maxRoutes: number = 1,
+  weights: StarHopCostWeights = STAR_HOP_CONFIG
+): StarHopRoute<T>[] {
+  const stars = new Map<string, T>();
+  for (const star of [...startStars, ...hopStars]) {
+    stars.set(star.id, star);
+  }
+  const distanceToTarget = new Map<string, number>();
+  // Cells about one FOV across keep each neighbour query to a handful of cells
+  const neighbours = new SkyIndex<T>(Math.min(Math.max(fovDegrees, 0.25), 10));
+  for (const [id, star] of stars) {
+    distanceToTarget.set(id, calculateAngularSeparation(star, target));
+    neighbours.add(id, star);
+  }
+
+  const routes: StarHopRoute<T>[] = [];
+  let availableStarts = startStars;
+  while (routes.length < maxRoutes && availableStarts.length > 0) {
+    const route = searchRoute(availableStarts, stars, neighbours, distanceToTarget, fovDegrees, weights);
+    if (!route) break;
+    routes.push(route);
+    for (const star of route.stars) {
+      stars.delete(star.id);
+    }
+    availableStarts = availableStarts.filter(star => stars.has(star.id));
+  }
+  return routes;
+}
@@ -0,0 +1,364 @@
+/**
+ * Observation time parsing shared by all tools.
+ *
+ * Accepted forms:
+ *  - omitted / "now"                    -> current system time
+ *  - ISO-8601 with a zone designator   -> "2025-03-01T22:00:00Z", "2025-03-01T22:00-08:00"
+ *  - relative offsets from now         -> "+3h", "-30m", "+1d2h", "+90s"
+ *  - named local times                 -> "tonight 22:00", "today 18:30", "tomorrow 05:15", "tonight"
+ *
+ * Named local times are interpreted as wall-clock times in the supplied IANA time zone
+ * (falling back to the system time zone).
+ */
+
+export type TimeParseErrorCode =
+  | 'INVALID_FORMAT'
+  | 'MISSING_TIMEZONE'
+  | 'INVALID_TIMEZONE'
+  | 'AMBIGUOUS_LOCAL_TIME'
+  | 'NONEXISTENT_LOCAL_TIME'
+  | 'OUT_OF_RANGE';
+
+export class TimeParseError extends Error {
+  code: TimeParseErrorCode;
+  input: string;
+
+  constructor(code: TimeParseErrorCode, input: string, message: string) {
+    super(message);
+    this.name = 'TimeParseError';
+    this.code = code;
+    this.input = input;
+  }
+
+  /**
+   * Structured form returned to MCP clients instead of a bare error string
+   */
+  toResponse() {
+    return {
+      status: 'InvalidTime',
+      error: {
+        code: this.code,
+        input: this.input,
+        message: this.message
+      },
+      acceptedFormats: ACCEPTED_TIME_FORMATS
+    };
+  }
+}
+
+export interface ParsedObservationTime {
+  date: Date;
+  timeZone: string;
+  source: 'system' | 'absolute' | 'relative' | 'local';
+}
+
+export interface ParseTimeOptions {
+  now?: Date;
+  timeZone?: string;
+}
+
+export const ACCEPTED_TIME_FORMATS = [
+  'now',
+  'ISO-8601 with time zone, e.g. 2025-03-01T22:00:00Z or 2025-03-01T22:00-08:00',
+  'relative offset, e.g. +3h, -30m, +1d2h',
+  'tonight HH:MM, today HH:MM, tomorrow HH:MM (observer local time)'
+];
+
+// Astronomy-engine is only reliable across a limited span; reject absurd dates early
+const MIN_YEAR = 1700;
+const MAX_YEAR = 2200;
+
+// Evening hours before this are treated as belonging to the following calendar day for "tonight"
+const TONIGHT_MORNING_CUTOFF_HOUR = 12;
+const TONIGHT_DEFAULT_TIME = '22:00';
+
+const RELATIVE_UNIT_MS: Record<string, number> = {
+  d: 86400000,
+  h: 3600000,
+  m: 60000,
+  s: 1000
+};
+
+/**
+ * Time zone the system clock is running in
+ */
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Validate an IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock components of an instant in a time zone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant.
+ * Throws when the local time is skipped or repeated by a DST transition.
+ */
+function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+  input: string
+): Date {
+  const naiveUtc = Date.UTC(year, month - 1, day, hour, minute, 0);
+
+  // Try the offsets in effect a day either side; a DST change yields two distinct candidates
+  const offsets = new Set<number>([
+    getTimeZoneOffsetMinutes(new Date(naiveUtc - 86400000), timeZone),
+    getTimeZoneOffsetMinutes(new Date(naiveUtc), timeZone),
+    getTimeZoneOffsetMinutes(new Date(naiveUtc + 86400000), timeZone)
+  ]);
+
+  const matches: Date[] = [];
+  for (const offset of offsets) {
+    const candidate = new Date(naiveUtc - offset * 60000);
+    const p = getZonedParts(candidate, timeZone);
+    if (p.year === year && p.month === month && p.day === day && p.hour === hour && p.minute === minute) {
+      if (!matches.some(m => m.getTime() === candidate.getTime())) {
+        matches.push(candidate);
+      }
+    }
+  }
+
+  if (matches.length === 0) {
+    throw new TimeParseError(
+      'NONEXISTENT_LOCAL_TIME',
+      input,
+      `Local time ${formatHourMinute(hour, minute)} does not exist on ${year}-${pad(month)}-${pad(day)} in ${timeZone} (daylight saving transition).`
+    );
+  }
+  if (matches.length > 1) {
+    matches.sort((a, b) => a.getTime() - b.getTime());
+    throw new TimeParseError(
+      'AMBIGUOUS_LOCAL_TIME',
+      input,
+      `Local time ${formatHourMinute(hour, minute)} occurs twice on ${year}-${pad(month)}-${pad(day)} in ${timeZone} (daylight saving transition). Use an ISO-8601 timestamp with an explicit offset, e.g. ${matches[0].toISOString()} or ${matches[1].toISOString()}.`
+    );
+  }
+  return matches[0];
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+function formatHourMinute(hour: number, minute: number): string {
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+function checkRange(date: Date, input: string): Date {
+  const year = date.getUTCFullYear();
+  if (isNaN(date.getTime()) || year < MIN_YEAR || year > MAX_YEAR) {
+    throw new TimeParseError(
+      'OUT_OF_RANGE',
+      input,
+      `Observation time "${input}" is outside the supported range (${MIN_YEAR}-${MAX_YEAR}).`
+    );
+  }
+  return date;
+}
+
+function parseIsoTimestamp(input: string): Date | null {
+  const isoMatch = input.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?(Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (!isoMatch) {
+    return null;
+  }
+
+  const [, , , , hourStr, , , , zone] = isoMatch;
+  if (!hourStr) {
+    throw new TimeParseError(
+      'AMBIGUOUS_LOCAL_TIME',
+      input,
+      `"${input}" is a date without a time of day. Provide a full timestamp such as ${input}T22:00:00Z or use "tonight HH:MM".`
+    );
+  }
+  if (!zone) {
+    throw new TimeParseError(
+      'MISSING_TIMEZONE',
+      input,
+      `Timestamp "${input}" has no time zone. Append "Z" for UTC or an offset such as "-08:00".`
+    );
+  }
+
+  const normalized = input.replace(' ', 'T').replace(/([+-]\d{2})(\d{2})$/, '$1:$2');
+  const date = new Date(normalized);
+  if (isNaN(date.getTime())) {
+    throw new TimeParseError('INVALID_FORMAT', input, `"${input}" is not a valid ISO-8601 timestamp.`);
+  }
+  return date;
+}
+
+function parseRelativeOffset(input: string, now: Date): Date | null {
+  const relMatch = input.match(/^([+-])\s*((?:\d+(?:\.\d+)?\s*[dhms]\s*)+)$/i);
+  if (!relMatch) {
+    return null;
+  }
+  const sign = relMatch[1] === '-' ? -1 : 1;
+  let offsetMs = 0;
+  const unitPattern = /(\d+(?:\.\d+)?)\s*([dhms])/gi;
+  let unitMatch: RegExpExecArray | null;
+  while ((unitMatch = unitPattern.exec(relMatch[2])) !== null) {
+    offsetMs += parseFloat(unitMatch[1]) * RELATIVE_UNIT_MS[unitMatch[2].toLowerCase()];
+  }
+  return new Date(now.getTime() + sign * offsetMs);
+}
+
+function parseNamedLocalTime(input: string, now: Date, timeZone: string): Date | null {
+  const namedMatch = input.match(/^(tonight|today|tomorrow)(?:\s+(?:at\s+)?(\d{1,2})(?::(\d{2}))?)?$/i);
+  if (!namedMatch) {
+    return null;
+  }
+  const keyword = namedMatch[1].toLowerCase();
+  let hour: number;
+  let minute: number;
+
+  if (namedMatch[2] !== undefined) {
+    hour = parseInt(namedMatch[2], 10);
+    minute = namedMatch[3] !== undefined ? parseInt(namedMatch[3], 10) : 0;
+  } else if (keyword === 'tonight') {
+    [hour, minute] = TONIGHT_DEFAULT_TIME.split(':').map(v => parseInt(v, 10));
+  } else {
+    throw new TimeParseError(
+      'AMBIGUOUS_LOCAL_TIME',
+      input,
+      `"${input}" needs a time of day, e.g. "${keyword} 21:30".`
+    );
+  }
+
+  if (hour > 23 || minute > 59) {
+    throw new TimeParseError('INVALID_FORMAT', input, `"${input}" contains an invalid time of day.`);
+  }
+
+  const today = getZonedParts(now, timeZone);
+  let dayOffset = 0;
+  if (keyword === 'tomorrow') {
+    dayOffset = 1;
+  } else if (keyword === 'tonight' && hour < TONIGHT_MORNING_CUTOFF_HOUR) {
+    // "tonight 02:00" means the early hours after this evening
+    dayOffset = 1;
+  }
+
+  // Date.UTC normalises day overflow (e.g. the 32nd) into the next month
+  const target = new Date(Date.UTC(today.year, today.month - 1, today.day + dayOffset));
+  return zonedTimeToDate(
+    target.getUTCFullYear(),
+    target.getUTCMonth() + 1,
+    target.getUTCDate(),
+    hour,
+    minute,
+    timeZone,
+    input
+  );
+}
+
+/**
+ * Parse a user-supplied observation time
+ * @param input Raw time string from a tool parameter (undefined or empty means now)
+ * @param options Reference "now" and the time zone used for named local times
+ * @returns The resolved instant together with the zone used to interpret it
+ * @throws TimeParseError for invalid or ambiguous input
+ */
+export function parseObservationTime(input: string | undefined, options: ParseTimeOptions = {}): ParsedObservationTime {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone ?? getSystemTimeZone();
+
+  if (!isValidTimeZone(timeZone)) {
+    throw new TimeParseError('INVALID_TIMEZONE', timeZone, `Unknown IANA time zone "${timeZone}".`);
+  }
+
+  const trimmed = (input ?? '').trim();
+  if (trimmed === '' || trimmed.toLowerCase() === 'now') {
+    return { date: now, timeZone, source: 'system' };
+  }
+
+  const absolute = parseIsoTimestamp(trimmed);
+  if (absolute) {
+    return { date: checkRange(absolute, trimmed), timeZone, source: 'absolute' };
+  }
+
+  const relative = parseRelativeOffset(trimmed, now);
+  if (relative) {
+    return { date: checkRange(relative, trimmed), timeZone, source: 'relative' };
+  }
+
+  const local = parseNamedLocalTime(trimmed, now, timeZone);
+  if (local) {
+    return { date: checkRange(local, trimmed), timeZone, source: 'local' };
+  }
+
+  throw new TimeParseError(
+    'INVALID_FORMAT',
+    trimmed,
+    `Could not understand observation time "${trimmed}".`
+  );
+}
+
+/**
+ * Format an instant as local wall-clock time in a time zone, e.g. "2025-03-01 22:00:00 America/Vancouver"
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)} ${timeZone}`;
+}
+
+/**
+ * Parameter descriptions shared by every tool that accepts an observation time
+ */
+export const DATE_TIME_PARAM_DESCRIPTION =
+  "Optional. Observation time. Accepts an ISO-8601 timestamp with a time zone (e.g. '2025-03-01T22:00:00Z', '2025-03-01T22:00-08:00'), a relative offset from now ('+3h', '-30m', '+1d2h'), or a named local time ('tonight 22:00', 'today 18:30', 'tomorrow 05:00'). Defaults to the current system time.";
+
+export const TIME_ZONE_PARAM_DESCRIPTION =
+  "Optional. IANA time zone (e.g. 'America/Vancouver') used to interpret named local times like 'tonight 22:00' and to display local times. Defaults to the observer profile's time zone.";